@@ -1,18 +1,30 @@
 
 
-import React, { useState } from 'react';
+import React, { useEffect } from 'react';
 import PdfMerger from './components/PdfMerger';
 import ImageToPdf from './components/ImageToPdf';
 import PdfCompressor from './components/PdfCompressor';
 import PdfSplitter from './components/PdfSplitter';
 import PdfEditor from './components/PdfEditor';
+import PdfProtector from './components/PdfProtector';
+import PdfSanitizer from './components/PdfSanitizer';
 import ImageAnnotator from './components/ImageAnnotator';
-import { MergeIcon, ImageIcon, CompressIcon, SplitIcon, EditIcon, AnnotateIcon } from './components/Icons';
-
-type Tool = 'merge' | 'image' | 'compress' | 'split' | 'edit' | 'annotate';
+import RecipeRunner from './components/RecipeRunner';
+import WorkspacePanel from './components/WorkspacePanel';
+import UpdatePrompt from './components/UpdatePrompt';
+import { useWorkspace } from './context/WorkspaceContext';
+import { listenForIncomingFiles, routeIncomingFiles } from './lib/incomingFiles';
+import { MergeIcon, ImageIcon, CompressIcon, SplitIcon, EditIcon, LockIcon, ShieldCheckIcon, AnnotateIcon, RecipeIcon } from './components/Icons';
+import type { Tool } from './types';
 
 const App: React.FC = () => {
-  const [activeTool, setActiveTool] = useState<Tool>('merge');
+  const { activeTool, selectTool, openFiles } = useWorkspace();
+
+  // Arquivos abertos pelo sistema ("Abrir com") ou compartilhados com o app instalado.
+  useEffect(() => listenForIncomingFiles(files => {
+    const route = routeIncomingFiles(files);
+    if (route) openFiles(route.files, route.tool);
+  }), [openFiles]);
 
   const renderTool = () => {
     switch (activeTool) {
@@ -24,10 +36,16 @@ const App: React.FC = () => {
         return <PdfCompressor />;
       case 'edit':
         return <PdfEditor />;
+      case 'protect':
+        return <PdfProtector />;
+      case 'sanitize':
+        return <PdfSanitizer />;
       case 'image':
         return <ImageToPdf />;
       case 'annotate':
         return <ImageAnnotator />;
+      case 'recipes':
+        return <RecipeRunner />;
       default:
         return <PdfMerger />;
     }
@@ -38,7 +56,7 @@ const App: React.FC = () => {
   // I have corrected the type definition for the `icon` prop in the component's signature to `React.ReactElement<{ className?: string }>`.
   const ToolButton = ({ tool, label, icon }: { tool: Tool; label: string; icon: React.ReactElement<{ className?: string }> }) => (
     <button
-      onClick={() => setActiveTool(tool)}
+      onClick={() => selectTool(tool)}
       className={`p-2 md:p-3 rounded-lg font-semibold transition-all duration-300 flex flex-col md:flex-row items-center justify-center gap-1 md:gap-2 text-center ${
         activeTool === tool
           ? 'bg-indigo-600 text-white shadow-lg'
@@ -61,16 +79,21 @@ const App: React.FC = () => {
 
       <main className="w-full max-w-5xl mx-auto flex-grow flex flex-col">
         <div className="bg-slate-800 p-2 rounded-xl shadow-md mb-8">
-          <div className="grid grid-cols-3 md:grid-cols-6 gap-2">
+          <div className="grid grid-cols-3 md:grid-cols-9 gap-2">
             <ToolButton tool="merge" label="Juntar PDFs" icon={<MergeIcon />} />
             <ToolButton tool="split" label="Dividir PDF" icon={<SplitIcon />} />
             <ToolButton tool="compress" label="Comprimir PDF" icon={<CompressIcon />} />
             <ToolButton tool="edit" label="Editar PDF" icon={<EditIcon />} />
+            <ToolButton tool="protect" label="Proteger PDF" icon={<LockIcon />} />
+            <ToolButton tool="sanitize" label="Limpar PDF" icon={<ShieldCheckIcon />} />
             <ToolButton tool="image" label="Imagem para PDF" icon={<ImageIcon />} />
             <ToolButton tool="annotate" label="Anotar Imagem" icon={<AnnotateIcon />} />
+            <ToolButton tool="recipes" label="Receitas" icon={<RecipeIcon />} />
           </div>
         </div>
 
+        <WorkspacePanel />
+
         <div className="flex-grow">
           {renderTool()}
         </div>
@@ -81,6 +104,7 @@ const App: React.FC = () => {
           &copy; {new Date().getFullYear()} RD PDF. Construído pela RD Engenharia. Processamento seguro no seu navegador.
         </p>
       </footer>
+      <UpdatePrompt />
     </div>
   );
 };
@@ -0,0 +1,124 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import { basename, extname } from 'node:path';
+import { parseArgs } from 'node:util';
+import { PDFDocument } from 'pdf-lib';
+import { compressPdf, extractPages, imagesToPdf, mergePdfs, Orientation, PAGE_SIZES, PageSize } from '../lib/pdfOperations';
+import { PageRangeError, parsePageRange } from '../lib/pageRanges';
+import { formatBytes } from '../lib/format';
+
+// Interface de linha de comando sobre as mesmas operações de lib/pdfOperations usadas pelas ferramentas web,
+// para que o resultado seja idêntico entre o app e os scripts. A exceção é compress: o Node não tem o canvas
+// que recomprime as imagens no navegador, então aqui o comando só regrava a estrutura do arquivo.
+
+const USAGE = `Uso: rd-pdf <comando> [opções] <arquivos...>
+
+Comandos:
+  merge <a.pdf> <b.pdf> [...]            Junta os PDFs na ordem informada
+  split <entrada.pdf> --pages <páginas>  Extrai páginas (ex.: --pages 1-3,7)
+  compress <entrada.pdf>                 Regrava a estrutura do PDF de forma otimizada (sem recomprimir imagens)
+  img2pdf <imagens...>                   Converte imagens JPG/PNG em um PDF
+
+Opções:
+  -o, --output <arquivo>   Arquivo de saída
+  --pages <intervalo>      Páginas para o comando split
+  --size <A4|Letter>       Tamanho da página para img2pdf (padrão: A4)
+  --orientation <portrait|landscape>  Orientação para img2pdf (padrão: portrait)
+  --margin <pt>            Margem em pontos para img2pdf (padrão: 36)
+  -h, --help               Mostra esta ajuda`;
+
+class CliError extends Error {}
+
+const readBytes = async (path: string) => new Uint8Array(await readFile(path));
+
+const requireInputs = (inputs: string[], min: number, command: string) => {
+    if (inputs.length < min) {
+        throw new CliError(`O comando ${command} precisa de pelo menos ${min} arquivo(s) de entrada.`);
+    }
+};
+
+const run = async (argv: string[]) => {
+    const { values, positionals } = parseArgs({
+        args: argv,
+        allowPositionals: true,
+        options: {
+            output: { type: 'string', short: 'o' },
+            pages: { type: 'string' },
+            size: { type: 'string', default: 'A4' },
+            orientation: { type: 'string', default: 'portrait' },
+            margin: { type: 'string' },
+            help: { type: 'boolean', short: 'h' },
+        },
+    });
+
+    const [command, ...inputs] = positionals;
+    if (values.help || !command) {
+        console.log(USAGE);
+        return;
+    }
+
+    let output: Uint8Array;
+    let defaultName: string;
+
+    switch (command) {
+        case 'merge': {
+            requireInputs(inputs, 2, command);
+            output = await mergePdfs(await Promise.all(inputs.map(readBytes)));
+            defaultName = 'rd-pdf-juntado.pdf';
+            break;
+        }
+        case 'split': {
+            requireInputs(inputs, 1, command);
+            if (!values.pages) throw new CliError('Informe as páginas com --pages (ex.: --pages 1-3,7).');
+            const bytes = await readBytes(inputs[0]);
+            const pdfDoc = await PDFDocument.load(bytes);
+            output = await extractPages(bytes, parsePageRange(values.pages, pdfDoc.getPageCount()));
+            defaultName = 'rd-pdf-dividido.pdf';
+            break;
+        }
+        case 'compress': {
+            requireInputs(inputs, 1, command);
+            output = await compressPdf(await readBytes(inputs[0]));
+            defaultName = 'rd-pdf-comprimido.pdf';
+            break;
+        }
+        case 'img2pdf': {
+            requireInputs(inputs, 1, command);
+            if (!Object.keys(PAGE_SIZES).includes(values.size!)) throw new CliError(`Tamanho de página inválido: ${values.size}.`);
+            if (values.orientation !== 'portrait' && values.orientation !== 'landscape') {
+                throw new CliError(`Orientação inválida: ${values.orientation}.`);
+            }
+            const unsupported = inputs.find(path => !['.jpg', '.jpeg', '.png'].includes(extname(path).toLowerCase()));
+            if (unsupported) throw new CliError(`Formato de imagem não suportado: ${basename(unsupported)} (use JPG ou PNG).`);
+            const margin = values.margin !== undefined ? Number(values.margin) : undefined;
+            if (margin !== undefined && (!Number.isFinite(margin) || margin < 0)) {
+                throw new CliError(`Margem inválida: ${values.margin} (use um número de pontos, ex.: --margin 36).`);
+            }
+            const images = await Promise.all(inputs.map(async path => ({ bytes: await readBytes(path) })));
+            output = await imagesToPdf(images, {
+                pageSize: values.size as PageSize,
+                orientation: values.orientation as Orientation,
+                margin,
+            });
+            defaultName = 'rd-pdf-documento.pdf';
+            break;
+        }
+        default:
+            throw new CliError(`Comando desconhecido: ${command}\n\n${USAGE}`);
+    }
+
+    const outputPath = values.output ?? defaultName;
+    await writeFile(outputPath, output);
+    console.log(`${outputPath} (${formatBytes(output.length)})`);
+};
+
+run(process.argv.slice(2)).catch(e => {
+    const code = (e as { code?: string }).code;
+    if (e instanceof CliError || e instanceof PageRangeError || code?.startsWith('ERR_PARSE_ARGS')) {
+        console.error(`rd-pdf: ${(e as Error).message}`);
+    } else if (code === 'ENOENT') {
+        console.error(`rd-pdf: arquivo não encontrado: ${(e as { path?: string }).path}`);
+    } else {
+        console.error('rd-pdf: falha ao processar o PDF.', e);
+    }
+    process.exitCode = 1;
+});
@@ -0,0 +1,78 @@
+import React from 'react';
+import { saveAs } from 'file-saver';
+import { formatBytes } from '../lib/format';
+import type { BatchFileResult } from '../lib/batchCompression';
+import { DownloadIcon } from './Icons';
+
+interface BatchCompressionTableProps {
+    files: File[];
+    results: BatchFileResult[] | null; // null enquanto o lote não foi comprimido
+    archive: File | null;
+}
+
+const reductionOf = ({ originalSize, resultSize }: { originalSize: number; resultSize: number }) =>
+    originalSize === 0 ? 0 : ((originalSize - resultSize) / originalSize) * 100;
+
+const StatusCell: React.FC<{ result: BatchFileResult }> = ({ result }) => {
+    if (result.status === 'failed') return <span className="text-red-400">falhou</span>;
+    if (result.status === 'skipped') return <span className="text-slate-500" title="A compressão deixaria o arquivo maior">mantido</span>;
+    return <span className="text-green-400">-{reductionOf(result).toFixed(1)}%</span>;
+};
+
+// Tabela da compressão em lote: antes de comprimir, lista os arquivos; depois, o resultado de cada um e o ZIP.
+const BatchCompressionTable: React.FC<BatchCompressionTableProps> = ({ files, results, archive }) => {
+    const processed = results?.filter(result => result.status !== 'failed') ?? [];
+    const totals = {
+        originalSize: processed.reduce((sum, result) => sum + result.originalSize, 0),
+        resultSize: processed.reduce((sum, result) => sum + result.resultSize, 0),
+    };
+
+    return (
+        <div className="mt-6 bg-slate-700/50 p-4 rounded-lg w-full max-w-2xl animate-fade-in">
+            <div className="max-h-72 overflow-y-auto">
+                <table className="w-full text-xs text-slate-400">
+                    <thead>
+                        <tr className="text-left text-slate-300">
+                            <th className="py-1 font-semibold">Arquivo</th>
+                            <th className="py-1 font-semibold text-right">Original</th>
+                            <th className="py-1 font-semibold text-right">Comprimido</th>
+                            <th className="py-1 font-semibold text-right">Redução</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {results
+                            ? results.map(result => (
+                                <tr key={result.name} className="border-t border-slate-600/50">
+                                    <td className="py-1 pr-2 truncate max-w-[16rem]">{result.name}</td>
+                                    <td className="py-1 font-mono text-right">{formatBytes(result.originalSize)}</td>
+                                    <td className="py-1 font-mono text-right">{result.status === 'failed' ? '—' : formatBytes(result.resultSize)}</td>
+                                    <td className="py-1 text-right"><StatusCell result={result} /></td>
+                                </tr>
+                            ))
+                            : files.map((file, index) => (
+                                <tr key={`${file.name}-${index}`} className="border-t border-slate-600/50">
+                                    <td className="py-1 pr-2 truncate max-w-[16rem]">{file.name}</td>
+                                    <td className="py-1 font-mono text-right">{formatBytes(file.size)}</td>
+                                    <td className="py-1 text-right">—</td>
+                                    <td className="py-1 text-right">—</td>
+                                </tr>
+                            ))}
+                    </tbody>
+                </table>
+            </div>
+            {results && archive && (
+                <div className="flex flex-wrap items-center justify-between gap-3 mt-3 pt-3 border-t border-slate-600">
+                    <p className="text-sm text-slate-300">
+                        {formatBytes(totals.originalSize)} → <span className="font-mono text-green-400">{formatBytes(totals.resultSize)}</span>
+                        <span className="text-indigo-400 font-semibold"> (-{reductionOf(totals).toFixed(1)}%)</span>
+                    </p>
+                    <button onClick={() => saveAs(archive, archive.name)} className="px-3 py-2 bg-indigo-600 text-sm font-semibold rounded-md hover:bg-indigo-700 transition-colors flex items-center gap-2">
+                        <DownloadIcon className="w-4 h-4" /> Baixar ZIP
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default BatchCompressionTable;
@@ -0,0 +1,59 @@
+import React from 'react';
+import { DOCUMENT_PROPERTY_KEYS, DocumentProperties, DocumentPropertyKey } from '../lib/documentProperties';
+
+interface DocumentPropertiesFormProps {
+    value: DocumentProperties;
+    onChange: (value: DocumentProperties) => void;
+}
+
+const FIELD_LABELS: Record<DocumentPropertyKey, string> = {
+    title: 'Título',
+    author: 'Autor',
+    subject: 'Assunto',
+    keywords: 'Palavras-chave',
+    creator: 'Criado com',
+    producer: 'Produtor',
+    creationDate: 'Data de criação',
+    modificationDate: 'Data de modificação',
+};
+
+const DATE_FIELDS = new Set<DocumentPropertyKey>(['creationDate', 'modificationDate']);
+
+// O campo datetime-local trabalha com a hora local sem fuso (AAAA-MM-DDTHH:mm); as propriedades guardam ISO.
+const toLocalInput = (iso: string) => {
+    if (!iso) return '';
+    const date = new Date(iso);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+const fromLocalInput = (local: string) => (local ? new Date(local).toISOString() : '');
+
+// Campos das propriedades do documento; quem usa decide quando aplicá-las.
+const DocumentPropertiesForm: React.FC<DocumentPropertiesFormProps> = ({ value, onChange }) => (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {DOCUMENT_PROPERTY_KEYS.map(key => (
+            <label key={key} className={`text-xs text-slate-400 ${key === 'title' || key === 'subject' ? 'sm:col-span-2' : ''}`}>
+                {FIELD_LABELS[key]}
+                {DATE_FIELDS.has(key) ? (
+                    <input
+                        type="datetime-local"
+                        value={toLocalInput(value[key])}
+                        onChange={(e) => onChange({ ...value, [key]: fromLocalInput(e.target.value) })}
+                        className="mt-1 w-full bg-slate-800 border border-slate-600 rounded-md p-2 text-sm text-slate-200"
+                    />
+                ) : (
+                    <input
+                        type="text"
+                        value={value[key]}
+                        onChange={(e) => onChange({ ...value, [key]: e.target.value })}
+                        placeholder={key === 'keywords' ? 'separadas por vírgula' : undefined}
+                        className="mt-1 w-full bg-slate-800 border border-slate-600 rounded-md p-2 text-sm text-slate-200"
+                    />
+                )}
+            </label>
+        ))}
+    </div>
+);
+
+export default DocumentPropertiesForm;
@@ -0,0 +1,81 @@
+import React, { useEffect, useState } from 'react';
+import DocumentPropertiesForm from './DocumentPropertiesForm';
+import { SpinnerIcon } from './Icons';
+import { useWorkspace, WorkspaceDocument } from '../context/WorkspaceContext';
+import { DocumentProperties } from '../lib/documentProperties';
+import { toPdfFile } from '../lib/format';
+import { isTaskCancelled } from '../lib/pdfWorkerClient';
+import { usePdfTask } from '../hooks/usePdfTask';
+
+interface DocumentPropertiesPanelProps {
+    document: WorkspaceDocument;
+}
+
+// Mostra e edita as propriedades de um documento do espaço de trabalho. Salvar grava uma nova versão do
+// arquivo no lugar da anterior, então o que for feito depois (baixar, outras ferramentas) já sai com elas.
+const DocumentPropertiesPanel: React.FC<DocumentPropertiesPanelProps> = ({ document }) => {
+    const [properties, setProperties] = useState<DocumentProperties | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [saved, setSaved] = useState(false);
+    const { replaceDocumentFile } = useWorkspace();
+    const readTask = usePdfTask();
+    const saveTask = usePdfTask();
+
+    useEffect(() => {
+        let active = true;
+        setProperties(null);
+        setError(null);
+        (async () => {
+            try {
+                const read = await readTask.run('readProperties', { bytes: await document.file.arrayBuffer() });
+                if (active) setProperties(read);
+            } catch (e) {
+                if (isTaskCancelled(e) || !active) return;
+                console.error(e);
+                setError('Não foi possível ler as propriedades deste PDF. Se ele estiver protegido por senha, abra-o em outra ferramenta para desbloqueá-lo.');
+            }
+        })();
+        return () => { active = false; };
+    }, [document.file, readTask.run]);
+
+    const saveProperties = async () => {
+        if (!properties) return;
+        setError(null);
+        setSaved(false);
+        try {
+            const bytes = await saveTask.run('setProperties', { bytes: await document.file.arrayBuffer(), properties });
+            replaceDocumentFile(document.id, toPdfFile(bytes, document.file.name));
+            setSaved(true);
+        } catch (e) {
+            if (isTaskCancelled(e)) return;
+            console.error(e);
+            setError('Ocorreu um erro ao salvar as propriedades.');
+        }
+    };
+
+    return (
+        <div className="mt-3 pt-3 border-t border-slate-600">
+            {readTask.isRunning && (
+                <p className="text-sm text-slate-400 flex items-center gap-2"><SpinnerIcon /> Lendo as propriedades...</p>
+            )}
+            {properties && (
+                <>
+                    <DocumentPropertiesForm value={properties} onChange={(next) => { setProperties(next); setSaved(false); }} />
+                    <div className="flex items-center justify-end gap-3 mt-3">
+                        {saved && <span className="text-xs text-green-400">Propriedades salvas no documento</span>}
+                        <button
+                            onClick={saveProperties}
+                            disabled={saveTask.isRunning}
+                            className="px-3 py-2 bg-indigo-600 text-sm font-semibold rounded-md hover:bg-indigo-700 disabled:bg-slate-600 transition-colors flex items-center gap-2"
+                        >
+                            {saveTask.isRunning && <SpinnerIcon />} Salvar propriedades
+                        </button>
+                    </div>
+                </>
+            )}
+            {error && <p className="text-red-400 text-sm">{error}</p>}
+        </div>
+    );
+};
+
+export default DocumentPropertiesPanel;
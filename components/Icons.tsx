@@ -200,3 +200,28 @@ export const ZoomInIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
         <line x1="8" y1="11" x2="14" y2="11" />
     </Icon>
 );
+
+export const RecipeIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+    <Icon {...props}>
+        <line x1="10" y1="6" x2="21" y2="6" />
+        <line x1="10" y1="12" x2="21" y2="12" />
+        <line x1="10" y1="18" x2="21" y2="18" />
+        <polyline points="3 6 4 7 6 5" />
+        <polyline points="3 12 4 13 6 11" />
+        <polyline points="3 18 4 19 6 17" />
+    </Icon>
+);
+
+export const LockIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+    <Icon {...props}>
+        <rect x="3" y="11" width="18" height="11" rx="2" ry="2" />
+        <path d="M7 11V7a5 5 0 0 1 10 0v4" />
+    </Icon>
+);
+
+export const ShieldCheckIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+    <Icon {...props}>
+        <path d="M12 22s8-4 8-10V5l-8-3-8 3v7c0 6 8 10 8 10z" />
+        <polyline points="9 12 11 14 15 10" />
+    </Icon>
+);
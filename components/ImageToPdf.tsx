@@ -1,12 +1,17 @@
 
 import React, { useState, useCallback, useRef, useEffect } from 'react';
-import { PDFDocument, degrees } from 'pdf-lib';
-import { saveAs } from 'file-saver';
 import { UploadIcon, SpinnerIcon, DownloadIcon, RotateLeftIcon, RotateRightIcon, MagicWandIcon, EraserIcon, TrashIcon, ScissorsIcon } from './Icons';
 import { removeBackground } from '@imgly/background-removal';
+import WorkspaceResult from './WorkspaceResult';
+import DocumentPropertiesForm from './DocumentPropertiesForm';
+import TaskProgress from './TaskProgress';
+import { useWorkspace, useWorkspaceDocument, WorkspaceDocument } from '../context/WorkspaceContext';
+import { toPdfFile } from '../lib/format';
+import { ImageInput, Orientation, PageSize } from '../lib/pdfOperations';
+import { DocumentProperties, EMPTY_DOCUMENT_PROPERTIES, filledProperties } from '../lib/documentProperties';
+import { isTaskCancelled } from '../lib/pdfWorkerClient';
+import { usePdfTask } from '../hooks/usePdfTask';
 
-type PageSize = 'A4' | 'Letter';
-type Orientation = 'portrait' | 'landscape';
 type ImageFilter = 'none' | 'grayscale' | 'document';
 type EraserMode = 'brush' | 'cutout';
 
@@ -20,11 +25,6 @@ interface ImagePage {
     bgRemoved: boolean;
 }
 
-const PAGE_SIZES: Record<PageSize, [number, number]> = {
-    A4: [595.28, 841.89],
-    Letter: [612, 792],
-};
-
 const FILTER_CLASSES: Record<ImageFilter, string> = {
     none: '',
     grayscale: 'grayscale',
@@ -90,6 +90,9 @@ const ImageToPdf: React.FC = () => {
     const [aiProgress, setAiProgress] = useState('');
     const [error, setError] = useState<string | null>(null);
     const [isDragging, setIsDragging] = useState(false);
+    const [result, setResult] = useState<WorkspaceDocument | null>(null);
+    const { addDocument } = useWorkspace();
+    const convertTask = usePdfTask();
     
     // Editor states
     const [isErasing, setIsErasing] = useState(false);
@@ -106,6 +109,8 @@ const ImageToPdf: React.FC = () => {
 
     const [pageSize, setPageSize] = useState<PageSize>('A4');
     const [orientation, setOrientation] = useState<Orientation>('portrait');
+    const [showProperties, setShowProperties] = useState(false);
+    const [properties, setProperties] = useState<DocumentProperties>(EMPTY_DOCUMENT_PROPERTIES);
     
     const activePage = activePageIndex !== null ? pages[activePageIndex] : null;
 
@@ -264,7 +269,7 @@ const ImageToPdf: React.FC = () => {
         }
     };
 
-    const processFiles = (files: FileList | null) => {
+    const processFiles = (files: FileList | File[] | null) => {
         if (!files) return;
         const newImageFiles = Array.from(files).filter(file => file.type.startsWith('image/'));
         if (newImageFiles.length !== files.length) {
@@ -292,6 +297,8 @@ const ImageToPdf: React.FC = () => {
         }
     };
 
+    useWorkspaceDocument('image', processFiles);
+
     const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         processFiles(e.target.files);
     };
@@ -322,58 +329,27 @@ const ImageToPdf: React.FC = () => {
             return;
         }
         setError(null);
+        setResult(null);
         setIsLoading(true);
 
         try {
-            const pdfDoc = await PDFDocument.create();
-            
+            const images: ImageInput[] = [];
             for (const pageData of pages) {
+                // A rotação é aplicada na imagem antes da conversão
                 const processedImageUrl = await getProcessedImage(pageData);
-                const imgBytes = await fetch(processedImageUrl).then(res => res.arrayBuffer());
-
-                const image = processedImageUrl.startsWith('data:image/png')
-                    ? await pdfDoc.embedPng(imgBytes)
-                    : await pdfDoc.embedJpg(imgBytes);
-
-                let pageDimensions = PAGE_SIZES[pageSize];
-                if (orientation === 'landscape') pageDimensions = [pageDimensions[1], pageDimensions[0]];
-
-                const page = pdfDoc.addPage(pageDimensions);
-                const { width: pageWidth, height: pageHeight } = page.getSize();
-                
-                const margin = 36;
-                const contentWidth = pageWidth - margin * 2;
-                const contentHeight = pageHeight - margin * 2;
-                
-                const imageAspectRatio = image.width / image.height;
-                let finalWidth = contentWidth;
-                let finalHeight = contentWidth / imageAspectRatio;
-
-                if (finalHeight > contentHeight) {
-                    finalHeight = contentHeight;
-                    finalWidth = contentHeight * imageAspectRatio;
-                }
-                
-                page.drawImage(image, {
-                    x: (pageWidth - finalWidth) / 2,
-                    y: (pageHeight - finalHeight) / 2,
-                    width: finalWidth,
-                    height: finalHeight,
-                    rotate: degrees(0), // Rotation is now pre-applied to the image
-                });
+                images.push({ bytes: await fetch(processedImageUrl).then(res => res.arrayBuffer()) });
             }
-
-            const pdfBytes = await pdfDoc.save();
-            const blob = new Blob([pdfBytes as any], { type: 'application/pdf' });
-            saveAs(blob, 'rd-pdf-documento.pdf');
+            const pdfBytes = await convertTask.run('imagesToPdf', { images, layout: { pageSize, orientation }, properties: filledProperties(properties) });
+            setResult(addDocument(toPdfFile(pdfBytes, 'rd-pdf-documento.pdf'), 'image'));
 
         } catch (e) {
+            if (isTaskCancelled(e)) return;
             console.error(e);
             setError('Ocorreu um erro durante a conversão.');
         } finally {
             setIsLoading(false);
         }
-    }, [pages, pageSize, orientation]);
+    }, [pages, pageSize, orientation, properties, addDocument, convertTask.run]);
 
     const handleRemoveBackground = async () => {
         if (!activePage) return;
@@ -525,6 +501,10 @@ const ImageToPdf: React.FC = () => {
                                     <h4 className="font-semibold text-slate-200 mb-3">Opções do PDF Final</h4>
                                     <div><label htmlFor="pageSize" className="block text-sm font-medium text-slate-400 mb-1">Tamanho da Página</label><select id="pageSize" value={pageSize} onChange={(e) => setPageSize(e.target.value as PageSize)} className="w-full bg-slate-800 border-slate-600 rounded-md p-2 text-sm"><option value="A4">A4</option><option value="Letter">Carta</option></select></div>
                                     <div className='mt-2'><label htmlFor="orientation" className="block text-sm font-medium text-slate-400 mb-1">Orientação</label><select id="orientation" value={orientation} onChange={(e) => setOrientation(e.target.value as Orientation)} className="w-full bg-slate-800 border-slate-600 rounded-md p-2 text-sm"><option value="portrait">Retrato</option><option value="landscape">Paisagem</option></select></div>
+                                    <button onClick={() => setShowProperties(prev => !prev)} className="mt-3 text-sm text-indigo-400 hover:text-indigo-300">
+                                        {showProperties ? 'Ocultar propriedades do documento' : 'Título, autor e outras propriedades'}
+                                    </button>
+                                    {showProperties && <div className="mt-2"><DocumentPropertiesForm value={properties} onChange={setProperties} /></div>}
                                 </div>
                             </>
                         </div>
@@ -551,9 +531,16 @@ const ImageToPdf: React.FC = () => {
                     {/* Botão Final */}
                     <div className="flex flex-col items-center">
                         {error && <p className="text-red-400 mt-4 text-sm">{error}</p>}
-                        <button onClick={convertToPdf} disabled={isLoading || isAiLoading || isErasing} className="w-full md:w-auto mt-2 px-8 py-3 bg-indigo-600 text-white font-bold rounded-lg shadow-lg hover:bg-indigo-700 disabled:bg-slate-600 flex items-center justify-center gap-2">
-                            {isLoading ? <><SpinnerIcon /> Convertendo...</> : <><DownloadIcon /> Converter e Baixar ({pages.length} Páginas)</>}
-                        </button>
+                        {isLoading ? (
+                            <div className="w-full mt-2">
+                                <TaskProgress label="Convertendo..." progress={convertTask.progress} onCancel={convertTask.isRunning ? convertTask.cancel : undefined} />
+                            </div>
+                        ) : (
+                            <button onClick={convertToPdf} disabled={isAiLoading || isErasing} className="w-full md:w-auto mt-2 px-8 py-3 bg-indigo-600 text-white font-bold rounded-lg shadow-lg hover:bg-indigo-700 disabled:bg-slate-600 flex items-center justify-center gap-2">
+                                <DownloadIcon /> Converter para PDF ({pages.length} Páginas)
+                            </button>
+                        )}
+                        {result && <WorkspaceResult document={result} />}
                     </div>
                 </div>
             )}
@@ -0,0 +1,43 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { usePageThumbnail } from '../hooks/usePageThumbnail';
+
+interface PageThumbnailProps {
+    file: File;
+    pageNumber: number;
+    scale?: number;
+    rotation?: number;
+    className?: string;
+}
+
+// Miniatura que só é renderizada quando se aproxima da área visível.
+// Antes disso ocupa um espaço reservado com proporção de folha A4.
+const PageThumbnail: React.FC<PageThumbnailProps> = ({ file, pageNumber, scale = 0.5, rotation = 0, className = '' }) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const [isVisible, setIsVisible] = useState(false);
+    const { url, failed } = usePageThumbnail(file, pageNumber, scale, isVisible);
+
+    useEffect(() => {
+        const element = containerRef.current;
+        if (!element) return;
+        const observer = new IntersectionObserver(
+            ([entry]) => setIsVisible(entry.isIntersecting),
+            { rootMargin: '200px' },
+        );
+        observer.observe(element);
+        return () => observer.disconnect();
+    }, []);
+
+    return (
+        <div ref={containerRef} className={`bg-white ${className}`}>
+            {url ? (
+                <img src={url} alt={`Página ${pageNumber}`} style={{ transform: `rotate(${rotation}deg)` }} className="w-full h-auto block transition-transform" />
+            ) : (
+                <div className={`w-full aspect-[210/297] flex items-center justify-center bg-slate-700 ${failed ? '' : 'animate-pulse'}`}>
+                    <span className="text-xs text-slate-400">{failed ? 'Erro' : pageNumber}</span>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default PageThumbnail;
@@ -0,0 +1,41 @@
+import React from 'react';
+import PageThumbnail from './PageThumbnail';
+
+interface PageThumbnailGridProps {
+    file: File;
+    pageCount: number;
+    selectedPages: Set<number>;
+    onTogglePage: (pageNumber: number) => void;
+    // Pontos de divisão: páginas após as quais um novo arquivo começa. Sem onToggleSplit, não são exibidos.
+    splitAfter?: Set<number>;
+    onToggleSplit?: (pageNumber: number) => void;
+}
+
+// Grade de seleção de páginas. Todas as páginas podem ser selecionadas de imediato,
+// enquanto as miniaturas são renderizadas conforme aparecem na rolagem.
+const PageThumbnailGrid: React.FC<PageThumbnailGridProps> = ({ file, pageCount, selectedPages, onTogglePage, splitAfter, onToggleSplit }) => (
+    <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-5 lg:grid-cols-6 xl:grid-cols-8 gap-4 max-h-[50vh] overflow-y-auto p-2 bg-slate-900/50 rounded-lg">
+        {Array.from({ length: pageCount }, (_, i) => i + 1).map(pageNumber => (
+            <div key={pageNumber} className="relative">
+                <button onClick={() => onTogglePage(pageNumber)} className={`relative w-full rounded-md overflow-hidden border-4 transition-all duration-200 ${selectedPages.has(pageNumber) ? 'border-indigo-500' : 'border-transparent hover:border-slate-500'}`}>
+                    <PageThumbnail file={file} pageNumber={pageNumber} />
+                    <div className="absolute top-1 right-1 bg-slate-800 text-white text-xs rounded-full w-5 h-5 flex items-center justify-center font-bold">{pageNumber}</div>
+                    {selectedPages.has(pageNumber) && (
+                        <div className="absolute inset-0 bg-indigo-500/50 flex items-center justify-center">
+                            <svg className="w-8 h-8 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M5 13l4 4L19 7" /></svg>
+                        </div>
+                    )}
+                </button>
+                {onToggleSplit && pageNumber < pageCount && (
+                    <button
+                        onClick={() => onToggleSplit(pageNumber)}
+                        title={`Dividir após a página ${pageNumber}`}
+                        className={`absolute top-0 bottom-0 -right-3 w-2 rounded-full z-10 transition-colors ${splitAfter?.has(pageNumber) ? 'bg-indigo-400' : 'bg-transparent hover:bg-slate-500'}`}
+                    />
+                )}
+            </div>
+        ))}
+    </div>
+);
+
+export default PageThumbnailGrid;
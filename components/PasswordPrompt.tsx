@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import { LockIcon, SpinnerIcon } from './Icons';
+
+interface PasswordPromptProps {
+    fileName: string;
+    error: string | null;
+    // Criptografia que não pode ser aberta com senha: o aviso só pode ser fechado.
+    unsupported: boolean;
+    isChecking: boolean;
+    onSubmit: (password: string) => void;
+    onCancel: () => void;
+}
+
+// Janela modal que pede a senha de abertura de um PDF protegido.
+// Cada tentativa monta um novo prompt (key), então o campo volta vazio depois de uma senha incorreta.
+const PasswordPrompt: React.FC<PasswordPromptProps> = ({ fileName, error, unsupported, isChecking, onSubmit, onCancel }) => {
+    const [password, setPassword] = useState('');
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!isChecking) onSubmit(password);
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/80 backdrop-blur-sm p-4 animate-fade-in">
+            <form onSubmit={handleSubmit} className="w-full max-w-sm bg-slate-800 border border-slate-700 rounded-2xl shadow-xl p-6">
+                <div className="flex items-center gap-3 mb-4">
+                    <LockIcon className="w-6 h-6 text-indigo-400 flex-shrink-0" />
+                    <div className="min-w-0">
+                        <h3 className="font-semibold text-slate-200">PDF protegido</h3>
+                        <p className="text-xs text-slate-400 truncate" title={fileName}>{fileName}</p>
+                    </div>
+                </div>
+                {unsupported ? (
+                    <p className="text-sm text-red-400">{error}</p>
+                ) : (
+                    <>
+                        <label htmlFor="pdf-password" className="block text-sm text-slate-300 mb-2">Digite a senha para abrir o documento.</label>
+                        <input
+                            autoFocus
+                            id="pdf-password"
+                            type="password"
+                            autoComplete="off"
+                            value={password}
+                            onChange={(e) => setPassword(e.target.value)}
+                            disabled={isChecking}
+                            className="w-full px-3 py-2 bg-slate-900 border border-slate-600 rounded-md text-slate-200 focus:outline-none focus:border-indigo-500"
+                        />
+                        {error && <p className="text-sm text-red-400 mt-2">{error}</p>}
+                    </>
+                )}
+                <div className="flex justify-end gap-2 mt-6">
+                    <button type="button" onClick={onCancel} className="px-4 py-2 bg-slate-600 text-sm font-semibold rounded-md hover:bg-slate-500 transition-colors">
+                        {unsupported ? 'Fechar' : 'Cancelar'}
+                    </button>
+                    {!unsupported && (
+                        <button
+                            type="submit"
+                            disabled={isChecking || password === ''}
+                            className="px-4 py-2 bg-indigo-600 text-sm font-semibold rounded-md hover:bg-indigo-700 disabled:bg-slate-600 disabled:cursor-not-allowed transition-colors flex items-center gap-2"
+                        >
+                            {isChecking && <SpinnerIcon />}
+                            Abrir
+                        </button>
+                    )}
+                </div>
+            </form>
+        </div>
+    );
+};
+
+export default PasswordPrompt;
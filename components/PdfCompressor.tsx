@@ -1,31 +1,90 @@
 
-import React, { useState, useCallback } from 'react';
-import { PDFDocument } from 'pdf-lib';
-import { saveAs } from 'file-saver';
-import { UploadIcon, SpinnerIcon, DownloadIcon, FileIcon } from './Icons';
-
-const formatBytes = (bytes: number, decimals = 2) => {
-    if (bytes === 0) return '0 Bytes';
-    const k = 1024;
-    const dm = decimals < 0 ? 0 : decimals;
-    const sizes = ['Bytes', 'KB', 'MB', 'GB'];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    return `${parseFloat((bytes / Math.pow(k, i)).toFixed(dm))} ${sizes[i]}`;
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import { UploadIcon, CompressIcon, FileIcon } from './Icons';
+import WorkspaceResult from './WorkspaceResult';
+import TaskProgress from './TaskProgress';
+import { useWorkspace, useWorkspaceDocument, WorkspaceDocument } from '../context/WorkspaceContext';
+import { useUnlockPdf } from '../context/PdfPasswordContext';
+import { formatBytes, toPdfFile, toZipFile } from '../lib/format';
+import { isTaskCancelled } from '../lib/pdfWorkerClient';
+import { usePdfTask } from '../hooks/usePdfTask';
+import { COMPRESSION_PRESETS, CompressionPreset, ImageCompressionResult } from '../lib/imageCompression';
+import { ColorMode, RasterSettings, renderPageAsJpeg } from '../lib/rasterize';
+import { loadPdfDocument } from '../lib/pdfjs';
+import type { OperationProgress, RasterPage } from '../lib/pdfOperations';
+import RasterPreview from './RasterPreview';
+import SizeAnalysis from './SizeAnalysis';
+import type { SizeReport } from '../lib/sizeAnalysis';
+import BatchCompressionTable from './BatchCompressionTable';
+import type { BatchFileResult } from '../lib/batchCompression';
+import { readDroppedFiles } from '../lib/droppedFiles';
+
+// 'images' recomprime as imagens e mantém o resto do documento; 'rasterize' refaz cada página como um JPEG,
+// o que só compensa em digitalizações (o texto deixa de ser selecionável).
+type CompressionMethod = 'images' | 'rasterize';
+
+const METHOD_LABELS: Record<CompressionMethod, { title: string; description: string }> = {
+    images: { title: 'Recomprimir imagens', description: 'Mantém texto e vetores' },
+    rasterize: { title: 'Rasterizar páginas', description: 'Para documentos digitalizados' },
+};
+
+const PRESET_LABELS: Record<CompressionPreset, { title: string; description: string }> = {
+    low: { title: 'Baixa', description: 'Melhor qualidade' },
+    medium: { title: 'Média', description: 'Equilíbrio entre qualidade e tamanho' },
+    high: { title: 'Alta', description: 'Menor arquivo' },
 };
 
+const COLOR_MODE_LABELS: Record<ColorMode, string> = {
+    color: 'Colorido',
+    grayscale: 'Tons de cinza',
+    bw: 'Preto e branco',
+};
+
+const DPI_OPTIONS = [72, 100, 150, 200, 300];
+
 const PdfCompressor: React.FC = () => {
     const [pdfFile, setPdfFile] = useState<File | null>(null);
-    const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
-    const [compressionResult, setCompressionResult] = useState<{ originalSize: number; compressedSize: number; } | null>(null);
+    const [compressionResult, setCompressionResult] = useState<{ originalSize: number; compressedSize: number; images?: ImageCompressionResult } | null>(null);
+    const [preset, setPreset] = useState<CompressionPreset>('medium');
+    const [method, setMethod] = useState<CompressionMethod>('images');
+    const [rasterSettings, setRasterSettings] = useState<RasterSettings>({ dpi: 150, colorMode: 'grayscale', quality: 0.7 });
+    const [pageCount, setPageCount] = useState(0);
+    const [renderProgress, setRenderProgress] = useState<OperationProgress | null>(null);
+    // A rasterização roda nesta thread, fora do worker; o laço confere o sinal entre uma página e outra.
+    const renderControllerRef = useRef<AbortController | null>(null);
+    useEffect(() => () => renderControllerRef.current?.abort(), []);
+    const [sizeReport, setSizeReport] = useState<SizeReport | null>(null);
+    // Com mais de um PDF, o compressor trabalha em lote e entrega um ZIP.
+    const [batchFiles, setBatchFiles] = useState<File[]>([]);
+    const [batchResult, setBatchResult] = useState<{ archive: File; files: BatchFileResult[] } | null>(null);
     const [isDragging, setIsDragging] = useState(false);
+    const [result, setResult] = useState<WorkspaceDocument | null>(null);
+    const { addDocument } = useWorkspace();
+    const unlockPdf = useUnlockPdf();
+    const compressTask = usePdfTask();
+    const analyzeTask = usePdfTask();
 
-    const processFile = (file: File | null) => {
+    const processFile = async (file: File | null) => {
         if (file) {
+            setResult(null);
+            setBatchFiles([]);
+            setBatchResult(null);
             if (file.type === 'application/pdf') {
-                setPdfFile(file);
+                let unlocked: File | null;
+                try {
+                    unlocked = await unlockPdf(file);
+                } catch (e) {
+                    console.error(e);
+                    setError('Falha ao ler o PDF. O arquivo pode estar corrompido.');
+                    return;
+                }
+                if (!unlocked) return;
+                setPdfFile(unlocked);
+                addDocument(unlocked);
                 setError(null);
                 setCompressionResult(null);
+                setSizeReport(null);
             } else {
                 setError('Por favor, selecione um arquivo PDF.');
                 setPdfFile(null);
@@ -34,8 +93,58 @@ const PdfCompressor: React.FC = () => {
         }
     };
 
+    const processFiles = async (files: File[]) => {
+        const pdfs = files.filter(file => file.type === 'application/pdf');
+        if (pdfs.length <= 1) {
+            processFile(pdfs[0] ?? files[0] ?? null);
+            return;
+        }
+        setResult(null);
+        setError(null);
+        setCompressionResult(null);
+        setSizeReport(null);
+        setBatchResult(null);
+        const unlocked: File[] = [];
+        for (const file of pdfs) {
+            try {
+                const unlockedFile = await unlockPdf(file);
+                if (unlockedFile) unlocked.push(unlockedFile);
+            } catch (e) {
+                // Arquivos ilegíveis seguem para o lote, que os marca como falha sem interromper os demais.
+                console.error(e);
+                unlocked.push(file);
+            }
+        }
+        setPdfFile(null);
+        setMethod('images');
+        setBatchFiles(unlocked);
+    };
+
+    useWorkspaceDocument('compress', files => processFiles(files));
+
+    // O número de páginas serve para a estimativa de tamanho e para a rasterização.
+    useEffect(() => {
+        setPageCount(0);
+        if (!pdfFile) return;
+        let cancelled = false;
+        loadPdfDocument(pdfFile)
+            .then(pdf => {
+                if (!cancelled) setPageCount(pdf.numPages);
+            })
+            .catch(e => {
+                if (cancelled) return;
+                console.error(e);
+                setError('Falha ao ler o PDF. O arquivo pode estar corrompido.');
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [pdfFile]);
+
+    const updateRasterSettings = (changes: Partial<RasterSettings>) => setRasterSettings(current => ({ ...current, ...changes }));
+
     const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-        processFile(e.target.files?.[0] || null);
+        processFiles(Array.from(e.target.files ?? []));
     };
     
     const handleDragEvents = (e: React.DragEvent<HTMLDivElement>, action: 'enter' | 'leave' | 'over' | 'drop') => {
@@ -46,47 +155,99 @@ const PdfCompressor: React.FC = () => {
         } else if (action === 'leave' || action === 'drop') {
           setIsDragging(false);
           if (action === 'drop') {
-            processFile(e.dataTransfer.files?.[0] || null);
+            readDroppedFiles(e.dataTransfer).then(processFiles, err => {
+                console.error(err);
+                setError('Não foi possível ler os arquivos soltos.');
+            });
           }
         }
     };
 
+    const analyzeSize = useCallback(async () => {
+        if (!pdfFile) return;
+        setSizeReport(null);
+        try {
+            setSizeReport(await analyzeTask.run('analyzeSize', { bytes: await pdfFile.arrayBuffer() }));
+        } catch (e) {
+            if (isTaskCancelled(e)) return;
+            console.error(e);
+            setError('Não foi possível analisar o PDF.');
+        }
+    }, [pdfFile, analyzeTask.run]);
+
+    const compressBatch = useCallback(async () => {
+        setError(null);
+        setBatchResult(null);
+        try {
+            const files = await Promise.all(batchFiles.map(async file => ({ name: file.name, bytes: await file.arrayBuffer() })));
+            const { bytes, files: results } = await compressTask.run('compressBatch', { files, preset });
+            if (results.every(({ status }) => status === 'failed')) {
+                setError('Nenhum dos arquivos pôde ser lido. Eles podem estar corrompidos.');
+                return;
+            }
+            setBatchResult({ archive: toZipFile(bytes, 'rd-pdf-comprimidos.zip'), files: results });
+        } catch (e) {
+            if (isTaskCancelled(e)) return;
+            console.error(e);
+            setError('Ocorreu um erro durante a compressão em lote.');
+        }
+    }, [batchFiles, preset, compressTask.run]);
+
     const compressPdf = useCallback(async () => {
         if (!pdfFile) {
             setError('Por favor, selecione um arquivo PDF primeiro.');
             return;
         }
         setError(null);
-        setIsLoading(true);
         setCompressionResult(null);
+        setResult(null);
 
         try {
-            const arrayBuffer = await pdfFile.arrayBuffer();
-            const pdfDoc = await PDFDocument.load(arrayBuffer);
-            
-            // This is a placeholder for actual compression logic which is complex.
-            // For now, pdf-lib's save method does some optimization.
-            const compressedPdfBytes = await pdfDoc.save();
+            let compressedPdfBytes: Uint8Array;
+            let images: ImageCompressionResult | undefined;
+            if (method === 'rasterize') {
+                // As páginas são renderizadas aqui, onde o pdf.js tem canvas; o worker só monta o PDF.
+                const controller = new AbortController();
+                renderControllerRef.current = controller;
+                const pages: RasterPage[] = [];
+                try {
+                    for (let pageNumber = 1; pageNumber <= pageCount; pageNumber++) {
+                        if (controller.signal.aborted) throw new DOMException('Tarefa cancelada', 'AbortError');
+                        setRenderProgress({ stage: 'processing', unit: 'page', current: pageNumber, total: pageCount, detail: 'Renderizando' });
+                        const { bytes, width, height } = await renderPageAsJpeg(pdfFile, pageNumber, rasterSettings);
+                        pages.push({ image: bytes, width, height });
+                    }
+                    if (controller.signal.aborted) throw new DOMException('Tarefa cancelada', 'AbortError');
+                } finally {
+                    if (renderControllerRef.current === controller) renderControllerRef.current = null;
+                    setRenderProgress(null);
+                }
+                compressedPdfBytes = await compressTask.run('rasterize', { pages });
+            } else {
+                ({ bytes: compressedPdfBytes, images } = await compressTask.run('compress', { bytes: await pdfFile.arrayBuffer(), preset }));
+            }
 
             const originalSize = pdfFile.size;
             const compressedSize = compressedPdfBytes.length;
 
             if (compressedSize >= originalSize) {
-                setError('O PDF já está otimizado. A compressão não reduziu o tamanho.');
+                setError(method === 'rasterize'
+                    ? 'A rasterização não reduziu o tamanho. Tente uma resolução menor ou outro modo de cor.'
+                    : 'O PDF já está otimizado. A compressão não reduziu o tamanho.');
+                // Mostra o que ocupa espaço, para indicar uma ação que de fato reduza o arquivo.
+                analyzeSize();
             } else {
-                setCompressionResult({ originalSize, compressedSize });
+                setCompressionResult({ originalSize, compressedSize, images });
             }
 
-            const blob = new Blob([compressedPdfBytes as any], { type: 'application/pdf' });
-            saveAs(blob, `rd-pdf-comprimido.pdf`);
+            setResult(addDocument(toPdfFile(compressedPdfBytes, 'rd-pdf-comprimido.pdf'), 'compress'));
 
         } catch (e) {
+            if (isTaskCancelled(e)) return;
             console.error(e);
-            setError('Ocorreu um erro durante a compressão. O PDF pode estar corrompido ou protegido.');
-        } finally {
-            setIsLoading(false);
+            setError('Ocorreu um erro durante a compressão. O PDF pode estar corrompido.');
         }
-    }, [pdfFile]);
+    }, [pdfFile, method, preset, rasterSettings, pageCount, addDocument, analyzeSize, compressTask.run]);
 
     return (
         <div 
@@ -100,14 +261,20 @@ const PdfCompressor: React.FC = () => {
                 <div className="absolute inset-0 bg-slate-900/80 backdrop-blur-sm flex items-center justify-center rounded-2xl z-20 pointer-events-none">
                     <div className="text-center">
                         <UploadIcon className="mx-auto w-16 h-16 text-indigo-400" />
-                        <p className="mt-4 text-lg font-semibold text-slate-200">Solte o PDF aqui</p>
+                        <p className="mt-4 text-lg font-semibold text-slate-200">Solte os PDFs ou uma pasta aqui</p>
                     </div>
                 </div>
             )}
             <div className="flex flex-col items-center">
                 <label htmlFor="pdf-compress-upload" className="w-full cursor-pointer">
                     <div className="border-2 border-dashed border-slate-600 rounded-lg p-8 text-center hover:border-indigo-500 hover:bg-slate-800 transition-colors duration-300 min-h-[170px] flex justify-center items-center">
-                        {pdfFile ? (
+                        {batchFiles.length > 0 ? (
+                           <div className="flex flex-col items-center gap-2 text-slate-300">
+                             <FileIcon />
+                             <span className="text-sm">{batchFiles.length} arquivos PDF</span>
+                             <span className="text-xs text-slate-500 font-mono">{formatBytes(batchFiles.reduce((sum, file) => sum + file.size, 0))}</span>
+                           </div>
+                        ) : pdfFile ? (
                            <div className="flex flex-col items-center gap-2 text-slate-300">
                              <FileIcon />
                              <span className="text-sm font-mono truncate max-w-full px-4">{pdfFile.name}</span>
@@ -117,14 +284,85 @@ const PdfCompressor: React.FC = () => {
                             <div>
                                 <UploadIcon className="mx-auto" />
                                 <p className="mt-2 text-slate-300">
-                                  <span className="font-semibold text-indigo-400">Clique para carregar</span> ou arraste e solte um PDF
+                                  <span className="font-semibold text-indigo-400">Clique para carregar</span> ou arraste e solte PDFs ou uma pasta
                                 </p>
-                                <p className="text-xs text-slate-500">Compressão otimizada sem perda de qualidade</p>
+                                <p className="text-xs text-slate-500">Reduz as imagens à resolução em que aparecem na página</p>
                             </div>
                         )}
                     </div>
                 </label>
-                <input id="pdf-compress-upload" type="file" accept="application/pdf" className="hidden" onChange={handleFileChange} />
+                <input id="pdf-compress-upload" type="file" accept="application/pdf" multiple className="hidden" onChange={handleFileChange} />
+
+                {pdfFile && (
+                    <div className="w-full max-w-xl grid grid-cols-2 gap-2 mt-6">
+                        {(Object.keys(METHOD_LABELS) as CompressionMethod[]).map(key => (
+                            <button
+                                key={key}
+                                onClick={() => setMethod(key)}
+                                className={`p-3 rounded-lg border text-left transition-colors ${method === key ? 'border-indigo-500 bg-indigo-500/20' : 'border-slate-600 bg-slate-800 hover:border-slate-500'}`}
+                            >
+                                <span className="block text-sm font-semibold text-slate-200">{METHOD_LABELS[key].title}</span>
+                                <span className="block text-xs text-slate-400">{METHOD_LABELS[key].description}</span>
+                            </button>
+                        ))}
+                    </div>
+                )}
+
+                {(pdfFile || batchFiles.length > 0) && method === 'images' && (
+                    <div className="w-full max-w-xl grid grid-cols-3 gap-2 mt-4">
+                        {(Object.keys(PRESET_LABELS) as CompressionPreset[]).map(key => (
+                            <button
+                                key={key}
+                                onClick={() => setPreset(key)}
+                                className={`p-3 rounded-lg border text-left transition-colors ${preset === key ? 'border-indigo-500 bg-indigo-500/20' : 'border-slate-600 bg-slate-800 hover:border-slate-500'}`}
+                            >
+                                <span className="block text-sm font-semibold text-slate-200">{PRESET_LABELS[key].title}</span>
+                                <span className="block text-xs text-slate-400">{PRESET_LABELS[key].description}</span>
+                                <span className="block text-xs text-slate-500 font-mono mt-1">{COMPRESSION_PRESETS[key].dpi} dpi · JPEG {Math.round(COMPRESSION_PRESETS[key].quality * 100)}%</span>
+                            </button>
+                        ))}
+                    </div>
+                )}
+
+                {pdfFile && method === 'rasterize' && (
+                    <>
+                        <div className="w-full max-w-xl flex flex-wrap items-center justify-center gap-4 mt-4 text-sm text-slate-300">
+                            <label className="flex items-center gap-2">
+                                Resolução
+                                <select
+                                    value={rasterSettings.dpi}
+                                    onChange={e => updateRasterSettings({ dpi: Number(e.target.value) })}
+                                    className="bg-slate-700 border border-slate-600 rounded-md px-2 py-1 text-slate-200"
+                                >
+                                    {DPI_OPTIONS.map(dpi => <option key={dpi} value={dpi}>{dpi} dpi</option>)}
+                                </select>
+                            </label>
+                            <label className="flex items-center gap-2">
+                                Cores
+                                <select
+                                    value={rasterSettings.colorMode}
+                                    onChange={e => updateRasterSettings({ colorMode: e.target.value as ColorMode })}
+                                    className="bg-slate-700 border border-slate-600 rounded-md px-2 py-1 text-slate-200"
+                                >
+                                    {(Object.keys(COLOR_MODE_LABELS) as ColorMode[]).map(mode => <option key={mode} value={mode}>{COLOR_MODE_LABELS[mode]}</option>)}
+                                </select>
+                            </label>
+                            <label className="flex items-center gap-2">
+                                Qualidade
+                                <input
+                                    type="range"
+                                    min={0.3}
+                                    max={0.95}
+                                    step={0.05}
+                                    value={rasterSettings.quality}
+                                    onChange={e => updateRasterSettings({ quality: Number(e.target.value) })}
+                                />
+                                <span className="font-mono text-xs w-8">{Math.round(rasterSettings.quality * 100)}%</span>
+                            </label>
+                        </div>
+                        {pageCount > 0 && <RasterPreview file={pdfFile} pageCount={pageCount} settings={rasterSettings} />}
+                    </>
+                )}
                 
                 {compressionResult && (
                     <div className="mt-6 text-center bg-slate-700/50 p-4 rounded-lg w-full max-w-sm">
@@ -138,28 +376,58 @@ const PdfCompressor: React.FC = () => {
                         <p className="text-lg font-bold text-indigo-400 mt-2">
                             Redução de {(((compressionResult.originalSize - compressionResult.compressedSize) / compressionResult.originalSize) * 100).toFixed(1)}%
                         </p>
+                        {compressionResult.images && compressionResult.images.total > 0 && (
+                            <p className="text-xs text-slate-400 mt-1">
+                                {compressionResult.images.replaced} de {compressionResult.images.total} imagens recomprimidas
+                            </p>
+                        )}
                     </div>
                 )}
 
+                {batchFiles.length > 0 && (
+                    <BatchCompressionTable files={batchFiles} results={batchResult?.files ?? null} archive={batchResult?.archive ?? null} />
+                )}
+
                 {error && <p className="text-red-400 mt-4 text-sm">{error}</p>}
 
-                 <button
-                    onClick={compressPdf}
-                    disabled={isLoading || !pdfFile}
-                    className="w-full md:w-auto mt-8 px-8 py-3 bg-indigo-600 text-white font-bold rounded-lg shadow-lg hover:bg-indigo-700 disabled:bg-slate-600 disabled:cursor-not-allowed transition-all duration-300 flex items-center justify-center gap-2"
-                >
-                    {isLoading ? (
-                        <>
-                            <SpinnerIcon />
-                            Comprimindo...
-                        </>
-                    ) : (
-                        <>
-                            <DownloadIcon />
-                            Comprimir e Baixar
-                        </>
-                    )}
-                </button>
+                {analyzeTask.isRunning && (
+                    <div className="w-full mt-6">
+                        <TaskProgress label="Analisando o arquivo..." progress={analyzeTask.progress} onCancel={analyzeTask.cancel} />
+                    </div>
+                )}
+                {sizeReport && <SizeAnalysis report={sizeReport} />}
+
+                {renderProgress ? (
+                    <div className="w-full mt-8">
+                        <TaskProgress label="Rasterizando as páginas..." progress={renderProgress} onCancel={() => renderControllerRef.current?.abort()} />
+                    </div>
+                ) : compressTask.isRunning ? (
+                    <div className="w-full mt-8">
+                        <TaskProgress label="Comprimindo..." progress={compressTask.progress} onCancel={compressTask.cancel} />
+                    </div>
+                ) : (
+                    <div className="w-full md:w-auto mt-8 flex flex-col md:flex-row gap-3">
+                        <button
+                            onClick={batchFiles.length > 0 ? compressBatch : compressPdf}
+                            disabled={batchFiles.length === 0 && (!pdfFile || (method === 'rasterize' && pageCount === 0))}
+                            className="w-full md:w-auto px-8 py-3 bg-indigo-600 text-white font-bold rounded-lg shadow-lg hover:bg-indigo-700 disabled:bg-slate-600 disabled:cursor-not-allowed transition-all duration-300 flex items-center justify-center gap-2"
+                        >
+                            <CompressIcon className="w-5 h-5" />
+                            {batchFiles.length > 0 ? `Comprimir ${batchFiles.length} PDFs` : 'Comprimir PDF'}
+                        </button>
+                        {batchFiles.length === 0 && (
+                            <button
+                                onClick={analyzeSize}
+                                disabled={!pdfFile || analyzeTask.isRunning}
+                                className="w-full md:w-auto px-6 py-3 bg-slate-600 text-white font-semibold rounded-lg hover:bg-slate-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                            >
+                                Analisar tamanho
+                            </button>
+                        )}
+                    </div>
+                )}
+
+                {result && <WorkspaceResult document={result} />}
             </div>
         </div>
     );
@@ -1,42 +1,61 @@
 
 import React, { useState, useCallback, useRef, useEffect } from 'react';
-import { PDFDocument, rgb, StandardFonts, degrees } from 'pdf-lib';
-import { saveAs } from 'file-saver';
-import * as pdfjsLib from 'pdfjs-dist';
-import pdfjsWorker from 'pdfjs-dist/build/pdf.worker.js?url';
 import { UploadIcon, SpinnerIcon, DownloadIcon, TypeIcon, TrashIcon, RotateLeftIcon } from './Icons';
+import WorkspaceResult from './WorkspaceResult';
+import TaskProgress from './TaskProgress';
+import PageThumbnail from './PageThumbnail';
+import TextStyleToolbar, { DEFAULT_TEXT_STYLE, TextStyle, UploadedFont, cssFontFamily, fontFaceName } from './TextStyleToolbar';
+import { useWorkspace, useWorkspaceDocument, WorkspaceDocument } from '../context/WorkspaceContext';
+import { useUnlockPdf } from '../context/PdfPasswordContext';
+import { toPdfFile } from '../lib/format';
+import { loadPdfDocument } from '../lib/pdfjs';
+import { isTaskCancelled } from '../lib/pdfWorkerClient';
+import { usePdfTask } from '../hooks/usePdfTask';
+import { usePageThumbnail } from '../hooks/usePageThumbnail';
+import { TEXT_LINE_HEIGHT, isStandardFontFamily } from '../lib/pageText';
 
-// Configura o Vite para usar o worker local, resolvendo problemas de CORS/CSP da CDN
-pdfjsLib.GlobalWorkerOptions.workerSrc = pdfjsWorker;
-
-interface PageThumbnail {
+interface EditorPage {
     id: number; // Original page number, stable ID
-    dataUrl: string;
-    width: number;
-    height: number;
     rotation: number; // 0, 90, 180, 270
 }
 
-interface TextElement {
+interface TextElement extends TextStyle {
     id: string;
     pageNumber: number; // Original page number
     x: number; // percentage
     y: number; // percentage
     text: string;
-    fontSize: number; // pt
     isEditing: boolean;
 }
 
+const styleOf = ({ fontSize, font, bold, italic, color, align }: TextStyle): TextStyle => ({ fontSize, font, bold, italic, color, align });
+
+// Página em edição, renderizada em escala maior que as miniaturas da lista lateral.
+const ActivePageImage: React.FC<{ file: File; page: EditorPage }> = ({ file, page }) => {
+    const { url, failed } = usePageThumbnail(file, page.id, 1);
+    if (!url) {
+        return <div className="flex items-center justify-center w-[60vh] max-w-full aspect-[210/297] bg-slate-800 rounded">{failed ? <p className="text-red-400 text-sm">Falha ao renderizar a página.</p> : <SpinnerIcon />}</div>;
+    }
+    return <img src={url} style={{ transform: `rotate(${page.rotation}deg)`}} className="max-w-full max-h-[80vh] object-contain shadow-lg" />;
+};
+
 const PdfEditor: React.FC = () => {
     const [pdfFile, setPdfFile] = useState<File | null>(null);
-    const [pageThumbnails, setPageThumbnails] = useState<PageThumbnail[]>([]);
-    const [activePage, setActivePage] = useState<PageThumbnail | null>(null);
+    const [pageThumbnails, setPageThumbnails] = useState<EditorPage[]>([]);
+    const [activePage, setActivePage] = useState<EditorPage | null>(null);
     const [textElements, setTextElements] = useState<TextElement[]>([]);
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const [isDragging, setIsDragging] = useState(false);
     const [isAddingText, setIsAddingText] = useState(false);
     const [draggingTextId, setDraggingTextId] = useState<string | null>(null);
+    const [result, setResult] = useState<WorkspaceDocument | null>(null);
+    const [textStyle, setTextStyle] = useState<TextStyle>(DEFAULT_TEXT_STYLE);
+    const [selectedTextId, setSelectedTextId] = useState<string | null>(null);
+    const [fonts, setFonts] = useState<UploadedFont[]>([]);
+    const { addDocument } = useWorkspace();
+    const unlockPdf = useUnlockPdf();
+    const saveTask = usePdfTask();
     
     const editorPanelRef = useRef<HTMLDivElement>(null);
     const draggedItemIndex = useRef<number | null>(null);
@@ -85,47 +104,44 @@ const PdfEditor: React.FC = () => {
         setError(null);
         setIsLoading(false);
         setIsAddingText(false);
+        setSelectedTextId(null);
+        setResult(null);
     };
 
-    const renderPdfPages = useCallback(async (file: File) => {
-        setIsLoading(true);
+    // Só abre o documento para montar a lista de páginas; as imagens são renderizadas sob demanda.
+    const loadPdf = useCallback(async (file: File) => {
         resetState();
+        setIsLoading(true);
         setPdfFile(file);
         
         try {
-            const arrayBuffer = await file.arrayBuffer();
-            const loadingTask = pdfjsLib.getDocument(new Uint8Array(arrayBuffer));
-            const pdf = await loadingTask.promise;
-            
-            const thumbnails: PageThumbnail[] = [];
-            for (let i = 1; i <= pdf.numPages; i++) {
-                const page = await pdf.getPage(i);
-                const viewport = page.getViewport({ scale: 1 });
-                const canvas = document.createElement('canvas');
-                canvas.height = viewport.height;
-                canvas.width = viewport.width;
-                const context = canvas.getContext('2d');
-                if (!context) continue;
-
-                // FIX: The type definition for `page.render` seems to be incorrect, requiring a 'canvas' property. Adding it to satisfy the type checker.
-                await page.render({ canvasContext: context, viewport: viewport, }).promise;
-                thumbnails.push({ id: i, dataUrl: canvas.toDataURL(), width: viewport.width, height: viewport.height, rotation: 0 });
-            }
-            setPageThumbnails(thumbnails);
-            setActivePage(thumbnails[0] || null);
+            const pdf = await loadPdfDocument(file);
+            const pages: EditorPage[] = Array.from({ length: pdf.numPages }, (_, i) => ({ id: i + 1, rotation: 0 }));
+            setPageThumbnails(pages);
+            setActivePage(pages[0] || null);
         } catch (e) {
             console.error(e);
-            setError('Falha ao ler o PDF.');
             resetState();
+            setError('Falha ao ler o PDF.');
         } finally {
             setIsLoading(false);
         }
     }, []);
     
-    const processFile = (file: File | null) => {
+    const processFile = async (file: File | null) => {
         if (file) {
             if (file.type === 'application/pdf') {
-                renderPdfPages(file);
+                let unlocked: File | null;
+                try {
+                    unlocked = await unlockPdf(file);
+                } catch (e) {
+                    console.error(e);
+                    setError('Falha ao ler o PDF.');
+                    return;
+                }
+                if (!unlocked) return;
+                addDocument(unlocked);
+                loadPdf(unlocked);
             } else {
                 setError('Por favor, selecione um arquivo PDF.');
                 resetState();
@@ -133,6 +149,8 @@ const PdfEditor: React.FC = () => {
         }
     };
 
+    useWorkspaceDocument('edit', files => processFile(files[0]));
+
     const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => processFile(e.target.files?.[0] || null);
 
     const handleDragEvents = (e: React.DragEvent<HTMLDivElement>, action: 'enter' | 'leave' | 'over' | 'drop') => {
@@ -154,15 +172,49 @@ const PdfEditor: React.FC = () => {
             x: ((e.clientX - rect.left) / rect.width) * 100,
             y: ((e.clientY - rect.top) / rect.height) * 100,
             text: 'Texto aqui',
-            fontSize: 12,
+            ...textStyle,
             isEditing: true,
         };
         setTextElements(prev => [...prev, newText]);
+        setSelectedTextId(newText.id);
         setIsAddingText(false);
     };
     
     const updateTextElement = (id: string, newText: string) => setTextElements(prev => prev.map(el => el.id === id ? { ...el, text: newText } : el));
-    const deleteTextElement = (id: string) => setTextElements(prev => prev.filter(el => el.id !== id));
+    const deleteTextElement = (id: string) => {
+        setTextElements(prev => prev.filter(el => el.id !== id));
+        setSelectedTextId(prev => (prev === id ? null : prev));
+    };
+
+    // Só conta como selecionado o texto da página visível, para a barra não mexer em algo fora da tela.
+    const selectedText = textElements.find(el => el.id === selectedTextId && el.pageNumber === activePage?.id) ?? null;
+
+    // A barra edita o texto selecionado e vira o estilo dos próximos textos.
+    const updateTextStyle = (patch: Partial<TextStyle>) => {
+        if (patch.font && !isStandardFontFamily(patch.font)) patch = { ...patch, bold: false, italic: false };
+        setTextStyle(prev => ({ ...(selectedText ? styleOf(selectedText) : prev), ...patch }));
+        if (selectedText) setTextElements(prev => prev.map(el => el.id === selectedText.id ? { ...el, ...patch } : el));
+    };
+
+    // Registra a fonte também no navegador, para o texto já aparecer nela sobre a página.
+    const uploadFont = async (file: File) => {
+        if (!/\.(ttf|otf)$/i.test(file.name)) {
+            setError('Envie uma fonte TTF ou OTF.');
+            return;
+        }
+        const font: UploadedFont = { id: `font-${Date.now()}`, name: file.name.replace(/\.(ttf|otf)$/i, ''), file };
+        try {
+            const face = new FontFace(fontFaceName(font.id), await file.arrayBuffer());
+            document.fonts.add(await face.load());
+        } catch (e) {
+            console.error(e);
+            setError('Não foi possível ler a fonte. Use um arquivo TTF ou OTF.');
+            return;
+        }
+        setError(null);
+        setFonts(prev => [...prev, font]);
+        updateTextStyle({ font: font.id });
+    };
 
     const handleTextDragStart = (e: React.MouseEvent, id: string) => {
         const target = e.target as HTMLElement;
@@ -203,45 +255,27 @@ const PdfEditor: React.FC = () => {
 
     const savePdf = useCallback(async () => {
         if (!pdfFile || pageThumbnails.length === 0) return;
-        setIsLoading(true);
+        setResult(null);
+        setError(null);
         try {
             const existingPdfBytes = await pdfFile.arrayBuffer();
-            const pdfDoc = await PDFDocument.load(existingPdfBytes);
-            const newPdfDoc = await PDFDocument.create();
-            const helveticaFont = await newPdfDoc.embedFont(StandardFonts.Helvetica);
-
-            const pageIndicesToCopy = pageThumbnails.map(p => p.id - 1);
-            const copiedPages = await newPdfDoc.copyPages(pdfDoc, pageIndicesToCopy);
-            copiedPages.forEach(page => newPdfDoc.addPage(page));
-
-            const newPages = newPdfDoc.getPages();
-            for (let i = 0; i < newPages.length; i++) {
-                const page = newPages[i];
-                const thumbnail = pageThumbnails[i];
-                page.setRotation(degrees(thumbnail.rotation));
-                const textsForThisPage = textElements.filter(t => t.pageNumber === thumbnail.id);
-                for (const textEl of textsForThisPage) {
-                    const { width, height } = page.getSize();
-                    page.drawText(textEl.text, {
-                        x: (textEl.x / 100) * width,
-                        y: height - (textEl.y / 100) * height, // Position from top-left
-                        font: helveticaFont,
-                        size: textEl.fontSize,
-                        color: rgb(0, 0, 0),
-                    });
-                }
-            }
-            
-            const pdfBytes = await newPdfDoc.save();
-            const blob = new Blob([pdfBytes as any], { type: 'application/pdf' });
-            saveAs(blob, `rd-pdf-editado.pdf`);
+            const usedFonts = fonts.filter(font => textElements.some(t => t.font === font.id));
+            const pdfBytes = await saveTask.run('edit', {
+                bytes: existingPdfBytes,
+                pages: pageThumbnails.map(thumbnail => ({
+                    sourceIndex: thumbnail.id - 1,
+                    rotation: thumbnail.rotation,
+                    texts: textElements.filter(t => t.pageNumber === thumbnail.id),
+                })),
+                fonts: await Promise.all(usedFonts.map(async ({ id, name, file }) => ({ id, name, bytes: await file.arrayBuffer() }))),
+            });
+            setResult(addDocument(toPdfFile(pdfBytes, 'rd-pdf-editado.pdf'), 'edit'));
         } catch (e) {
+            if (isTaskCancelled(e)) return;
             console.error(e);
-            setError("Ocorreu um erro ao salvar o PDF.");
-        } finally {
-            setIsLoading(false);
+            setError((e as Error).name === 'UnsupportedCharactersError' ? (e as Error).message : 'Ocorreu um erro ao salvar o PDF.');
         }
-    }, [pdfFile, pageThumbnails, textElements]);
+    }, [pdfFile, pageThumbnails, textElements, fonts, addDocument, saveTask.run]);
 
     return (
         <div 
@@ -268,7 +302,7 @@ const PdfEditor: React.FC = () => {
                                 <div key={thumb.id} draggable onDragStart={() => (draggedItemIndex.current = index)} onDragEnter={() => (draggedOverItemIndex.current = index)} onDragEnd={handleDragSort} onDragOver={(e) => e.preventDefault()}
                                     className={`relative group rounded-md overflow-hidden border-2 transition-all cursor-grab ${activePage?.id === thumb.id ? 'border-indigo-500' : 'border-transparent'}`}>
                                     <button onClick={() => setActivePage(thumb)} className="w-full h-full">
-                                        <img src={thumb.dataUrl} alt={`Página ${thumb.id}`} style={{ transform: `rotate(${thumb.rotation}deg)` }} className="w-full h-auto block bg-white transition-transform" />
+                                        <PageThumbnail file={pdfFile} pageNumber={thumb.id} rotation={thumb.rotation} />
                                     </button>
                                     <div className="absolute top-0 right-0 flex flex-col p-1 gap-1 opacity-0 group-hover:opacity-100 transition-opacity z-10">
                                         <button onClick={() => rotatePage(thumb.id)} className="p-1 bg-slate-800/70 rounded-full text-white hover:bg-indigo-600"><RotateLeftIcon className="w-4 h-4"/></button>
@@ -279,15 +313,27 @@ const PdfEditor: React.FC = () => {
                             ))}
                         </div>
                     </div>
-                    <div className="flex-grow lg:w-3/4 xl:w-4/5 bg-slate-900/50 rounded-lg flex items-center justify-center p-4 min-h-[50vh]">
+                    <div className="flex-grow lg:w-3/4 xl:w-4/5 bg-slate-900/50 rounded-lg flex flex-col items-center justify-center p-4 min-h-[50vh]">
+                        <TextStyleToolbar style={selectedText ? styleOf(selectedText) : textStyle} fonts={fonts} hasSelection={!!selectedText} onChange={updateTextStyle} onUploadFont={uploadFont} />
                         <div ref={editorPanelRef} className={`relative select-none transition-all duration-300 ${isAddingText ? 'cursor-crosshair' : ''}`} onClick={handleAddTextClick}>
-                            {activePage && <img src={activePage.dataUrl} style={{ transform: `rotate(${activePage.rotation}deg)`}} className="max-w-full max-h-[80vh] object-contain shadow-lg" />}
+                            {activePage && <ActivePageImage file={pdfFile} page={activePage} />}
                             {textElements.filter(el => el.pageNumber === activePage?.id).map(el => (
                                 <div key={el.id} style={{ left: `${el.x}%`, top: `${el.y}%`, transform: 'translate(-50%, -50%)' }} 
                                     className={`absolute group p-2 ${draggingTextId === el.id ? 'cursor-grabbing z-20' : 'cursor-grab'}`}
                                     onMouseDown={(e) => handleTextDragStart(e, el.id)}>
-                                    <textarea value={el.text} onChange={(e) => updateTextElement(el.id, e.target.value)} onBlur={() => setTextElements(p => p.map(t => ({...t, isEditing: false})))} autoFocus
-                                        className="bg-transparent border border-dashed border-indigo-500 text-white p-1 resize-none focus:outline-none cursor-text" style={{ fontSize: `${el.fontSize}px`, lineHeight: 1.1 }}
+                                    {/* Sem quebra automática: as linhas são as mesmas que vão para o PDF. */}
+                                    <textarea value={el.text} onChange={(e) => updateTextElement(el.id, e.target.value)} onFocus={() => setSelectedTextId(el.id)} onBlur={() => setTextElements(p => p.map(t => ({...t, isEditing: false})))} autoFocus
+                                        wrap="off" rows={el.text.split('\n').length} cols={Math.max(4, ...el.text.split('\n').map(line => line.length + 1))}
+                                        className={`bg-transparent border border-dashed p-1 resize-none focus:outline-none cursor-text overflow-hidden ${selectedTextId === el.id ? 'border-indigo-400' : 'border-indigo-500/50'}`}
+                                        style={{
+                                            fontSize: `${el.fontSize}px`,
+                                            lineHeight: TEXT_LINE_HEIGHT,
+                                            fontFamily: cssFontFamily(el.font),
+                                            fontWeight: el.bold ? 'bold' : 'normal',
+                                            fontStyle: el.italic ? 'italic' : 'normal',
+                                            color: el.color,
+                                            textAlign: el.align,
+                                        }}
                                     />
                                     <button onClick={(e) => {e.stopPropagation(); deleteTextElement(el.id)}} className="absolute -top-3 -right-3 p-0.5 bg-slate-800 rounded-full text-slate-400 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"><TrashIcon className="w-3 h-3"/></button>
                                 </div>
@@ -298,11 +344,14 @@ const PdfEditor: React.FC = () => {
             )}
              <div className="flex flex-col items-center mt-6">
                  {error && <p className="text-red-400 mb-4 text-sm">{error}</p>}
-                 {pdfFile && !isLoading && pageThumbnails.length > 0 && (
-                    <button onClick={savePdf} disabled={isLoading} className="w-full md:w-auto px-8 py-3 bg-indigo-600 text-white font-bold rounded-lg shadow-lg hover:bg-indigo-700 disabled:bg-slate-600 flex items-center justify-center gap-2">
-                       {isLoading ? <><SpinnerIcon/> Salvando...</> : <><DownloadIcon/> Salvar PDF Modificado</>}
+                 {pdfFile && !isLoading && pageThumbnails.length > 0 && (saveTask.isRunning ? (
+                    <TaskProgress label="Salvando..." progress={saveTask.progress} onCancel={saveTask.cancel} />
+                 ) : (
+                    <button onClick={savePdf} className="w-full md:w-auto px-8 py-3 bg-indigo-600 text-white font-bold rounded-lg shadow-lg hover:bg-indigo-700 disabled:bg-slate-600 flex items-center justify-center gap-2">
+                       <DownloadIcon/> Salvar PDF Modificado
                     </button>
-                 )}
+                 ))}
+                 {result && <WorkspaceResult document={result} />}
              </div>
         </div>
     );
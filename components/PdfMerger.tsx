@@ -1,17 +1,70 @@
 
 import React, { useState, useCallback, useRef } from 'react';
-import { PDFDocument } from 'pdf-lib';
-import { saveAs } from 'file-saver';
-import * as pdfjsLib from 'pdfjs-dist';
-import pdfjsWorker from 'pdfjs-dist/build/pdf.worker.js?url';
-import { FileIcon, TrashIcon, UploadIcon, SpinnerIcon, DownloadIcon } from './Icons';
-
-// Configura o Vite para usar o worker local, resolvendo problemas de CORS/CSP da CDN
-pdfjsLib.GlobalWorkerOptions.workerSrc = pdfjsWorker;
+import { FileIcon, TrashIcon, UploadIcon, SpinnerIcon, MergeIcon } from './Icons';
+import WorkspaceResult from './WorkspaceResult';
+import PageThumbnailGrid from './PageThumbnailGrid';
+import DocumentPropertiesForm from './DocumentPropertiesForm';
+import { useWorkspace, useWorkspaceDocument, WorkspaceDocument } from '../context/WorkspaceContext';
+import { useUnlockPdf } from '../context/PdfPasswordContext';
+import { toPdfFile } from '../lib/format';
+import TaskProgress from './TaskProgress';
+import { usePdfTask } from '../hooks/usePdfTask';
+import { isTaskCancelled } from '../lib/pdfWorkerClient';
+import { getPageThumbnail } from '../lib/thumbnailCache';
+import type { MergeMode, Orientation, PageSize } from '../lib/pdfOperations';
+import { loadPdfDocument } from '../lib/pdfjs';
+import { formatPageRange, PageRangeError, parsePageRange } from '../lib/pageRanges';
+import { DocumentProperties, EMPTY_DOCUMENT_PROPERTIES, filledProperties } from '../lib/documentProperties';
 
 type PdfFile = {
+  id: string;
+  kind: 'pdf' | 'image'; // imagens ocupam uma página própria no resultado
   file: File;
   previewUrl: string;
+  pageCount: number;
+  range: string; // vazio = todas as páginas
+  title: string; // marcador e entrada do sumário
+};
+
+const isImageFile = (file: File) => file.type.startsWith('image/');
+
+// O pdf-lib só incorpora JPG e PNG; os demais formatos que o navegador sabe abrir (WebP, GIF, BMP...)
+// são redesenhados em um canvas e convertidos para PNG.
+const toEmbeddableImage = async (file: File): Promise<File> => {
+  if (file.type === 'image/jpeg' || file.type === 'image/png') return file;
+  const bitmap = await createImageBitmap(file);
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not get canvas context');
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+  if (!blob) throw new Error('Could not encode image as PNG');
+  return new File([blob], file.name.replace(/\.[^.]+$/, '') + '.png', { type: 'image/png' });
+};
+
+// Índices (base 0) escolhidos no cartão, ou undefined para o documento inteiro.
+const selectedIndices = ({ range, pageCount }: PdfFile) =>
+  range.trim() === '' ? undefined : parsePageRange(range, pageCount);
+
+const rangeError = (pdfFile: PdfFile) => {
+  try {
+    selectedIndices(pdfFile);
+    return null;
+  } catch (e) {
+    return e instanceof PageRangeError ? e.message : 'Intervalo inválido.';
+  }
+};
+
+// Páginas marcadas na grade de miniaturas; um intervalo inválido não marca nenhuma até ser corrigido.
+const markedIndices = (pdfFile: PdfFile) => {
+  try {
+    return selectedIndices(pdfFile) ?? Array.from({ length: pdfFile.pageCount }, (_, i) => i);
+  } catch {
+    return [];
+  }
 };
 
 const PdfMerger: React.FC = () => {
@@ -19,36 +72,47 @@ const PdfMerger: React.FC = () => {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isDragging, setIsDragging] = useState(false);
+  const [result, setResult] = useState<WorkspaceDocument | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [mode, setMode] = useState<MergeMode>('concatenate');
+  const [reverseSecond, setReverseSecond] = useState(true);
+  const [padToEven, setPadToEven] = useState(false);
+  const [bookmarks, setBookmarks] = useState(true);
+  const [tableOfContents, setTableOfContents] = useState(false);
+  const [pageSize, setPageSize] = useState<PageSize>('A4');
+  const [orientation, setOrientation] = useState<Orientation>('portrait');
+  const [customProperties, setCustomProperties] = useState(false);
+  const [properties, setProperties] = useState<DocumentProperties>(EMPTY_DOCUMENT_PROPERTIES);
+  const { addDocument } = useWorkspace();
+  const unlockPdf = useUnlockPdf();
+  const mergeTask = usePdfTask();
   
   const draggedItemIndex = useRef<number | null>(null);
   const draggedOverItemIndex = useRef<number | null>(null);
 
   const generatePreview = async (file: File): Promise<string> => {
     try {
-      const arrayBuffer = await file.arrayBuffer();
-      const loadingTask = pdfjsLib.getDocument(new Uint8Array(arrayBuffer));
-      const pdf = await loadingTask.promise;
-      const page = await pdf.getPage(1); // Get the first page
-      const viewport = page.getViewport({ scale: 0.4 });
-      const canvas = document.createElement('canvas');
-      canvas.height = viewport.height;
-      canvas.width = viewport.width;
-      const context = canvas.getContext('2d');
-      if (!context) throw new Error('Could not get canvas context');
-      // FIX: The type definition for `page.render` seems to be incorrect, requiring a 'canvas' property. Adding it to satisfy the type checker.
-      await page.render({ canvasContext: context, viewport: viewport, }).promise;
-      return canvas.toDataURL();
+      return await getPageThumbnail(file, 1, 0.4); // Get the first page
     } catch (e) {
         console.error("Failed to generate preview for", file.name, e);
         return ""; 
     }
   };
+
+  const countPages = async (file: File): Promise<number> => {
+    try {
+      return (await loadPdfDocument(file)).numPages;
+    } catch (e) {
+      console.error("Failed to count pages of", file.name, e);
+      return 0;
+    }
+  };
   
-  const processFiles = async (files: FileList | null) => {
+  const processFiles = async (files: FileList | File[] | null) => {
     if (files) {
-        const newFiles = Array.from(files).filter(file => file.type === 'application/pdf');
+        const newFiles = Array.from(files).filter(file => file.type === 'application/pdf' || isImageFile(file));
         if (newFiles.length !== files.length) {
-            setError('Apenas arquivos PDF são aceitos.');
+            setError('Apenas arquivos PDF e imagens são aceitos.');
         } else {
             setError(null);
         }
@@ -56,22 +120,78 @@ const PdfMerger: React.FC = () => {
         setIsLoading(true);
         const newPdfFiles: PdfFile[] = [];
         for (const file of newFiles) {
-            const previewUrl = await generatePreview(file);
-            newPdfFiles.push({ file, previewUrl });
+            if (isImageFile(file)) {
+                let image: File;
+                try {
+                    image = await toEmbeddableImage(file);
+                } catch (e) {
+                    console.error("Failed to read image", file.name, e);
+                    setError(`Não foi possível ler a imagem ${file.name}.`);
+                    continue;
+                }
+                newPdfFiles.push({
+                  id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+                  kind: 'image',
+                  file: image,
+                  previewUrl: URL.createObjectURL(image),
+                  pageCount: 1,
+                  range: '',
+                  title: file.name.replace(/\.[^.]+$/, ''),
+                });
+                continue;
+            }
+            let unlocked: File | null;
+            try {
+                unlocked = await unlockPdf(file);
+            } catch (e) {
+                console.error("Failed to open", file.name, e);
+                setError(`Não foi possível abrir ${file.name}.`);
+                continue;
+            }
+            if (!unlocked) continue;
+            const [previewUrl, pageCount] = await Promise.all([generatePreview(unlocked), countPages(unlocked)]);
+            newPdfFiles.push({
+              id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+              kind: 'pdf',
+              file: unlocked,
+              previewUrl,
+              pageCount,
+              range: '',
+              title: unlocked.name.replace(/\.pdf$/i, ''),
+            });
+            addDocument(unlocked);
         }
         setPdfFiles(prevFiles => [...prevFiles, ...newPdfFiles]);
         setIsLoading(false);
     }
   };
 
+  useWorkspaceDocument('merge', processFiles);
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     processFiles(e.target.files);
   };
 
   const removeFile = (index: number) => {
+    if (pdfFiles[index].id === expandedId) setExpandedId(null);
+    if (pdfFiles[index].kind === 'image') URL.revokeObjectURL(pdfFiles[index].previewUrl);
     setPdfFiles(pdfFiles.filter((_, i) => i !== index));
   };
 
+  const updateFile = (id: string, changes: Partial<PdfFile>) => {
+    setPdfFiles(prev => prev.map(pdfFile => (pdfFile.id === id ? { ...pdfFile, ...changes } : pdfFile)));
+  };
+
+  // Escolha pelas miniaturas: reescreve o intervalo do cartão a partir das páginas marcadas.
+  const togglePage = (pdfFile: PdfFile, pageNumber: number) => {
+    const pages = new Set(markedIndices(pdfFile).map(index => index + 1));
+    if (pages.has(pageNumber)) pages.delete(pageNumber);
+    else pages.add(pageNumber);
+    if (pages.size === 0) return; // um arquivo sem páginas deve ser removido, não esvaziado
+    const sorted = Array.from(pages).sort((a, b) => a - b);
+    updateFile(pdfFile.id, { range: sorted.length === pdfFile.pageCount ? '' : formatPageRange(sorted) });
+  };
+
   const handleDragSort = () => {
     if (draggedItemIndex.current === null || draggedOverItemIndex.current === null) return;
     const items = [...pdfFiles];
@@ -95,33 +215,53 @@ const PdfMerger: React.FC = () => {
     }
   };
 
-  const mergePdfs = useCallback(async () => {
+  const handleMerge = useCallback(async () => {
     if (pdfFiles.length < 2) {
-      setError('Por favor, selecione pelo menos dois arquivos PDF para juntar.');
+      setError('Por favor, selecione pelo menos dois arquivos para juntar.');
+      return;
+    }
+    const invalid = pdfFiles.find(pdfFile => rangeError(pdfFile) !== null);
+    if (invalid) {
+      setError(`${invalid.file.name}: ${rangeError(invalid)}`);
       return;
     }
     setError(null);
-    setIsLoading(true);
+    setResult(null);
     try {
-      const mergedPdf = await PDFDocument.create();
-
-      for (const { file } of pdfFiles) {
-        const arrayBuffer = await file.arrayBuffer();
-        const pdf = await PDFDocument.load(arrayBuffer);
-        const copiedPages = await mergedPdf.copyPages(pdf, pdf.getPageIndices());
-        copiedPages.forEach(page => mergedPdf.addPage(page));
-      }
-
-      const mergedPdfBytes = await mergedPdf.save();
-      const blob = new Blob([mergedPdfBytes as any], { type: 'application/pdf' });
-      saveAs(blob, 'rd-pdf-juntado.pdf');
+      const inputs = await Promise.all(pdfFiles.map(async (pdfFile, index) => {
+        const bytes = await pdfFile.file.arrayBuffer();
+        const title = pdfFile.title.trim() || pdfFile.file.name;
+        if (pdfFile.kind === 'image') return { image: { bytes }, title };
+        return {
+          bytes,
+          pageIndices: selectedIndices(pdfFile),
+          title,
+          // Na digitalização frente e verso, o arquivo dos versos sai de trás para frente.
+          reverse: mode === 'interleave' && reverseSecond && index === 1,
+        };
+      }));
+      const mergedPdfBytes = await mergeTask.run('merge', {
+        inputs,
+        options: {
+          mode,
+          padToEven: mode === 'concatenate' && padToEven,
+          bookmarks,
+          tableOfContents,
+          imageLayout: { pageSize, orientation },
+          properties: customProperties ? filledProperties(properties) : undefined,
+        },
+      });
+      setResult(addDocument(toPdfFile(mergedPdfBytes, 'rd-pdf-juntado.pdf'), 'merge'));
     } catch (e) {
+      if (isTaskCancelled(e)) return;
       console.error(e);
       setError('Ocorreu um erro ao juntar os PDFs. Por favor, verifique se são arquivos PDF válidos.');
-    } finally {
-      setIsLoading(false);
     }
-  }, [pdfFiles]);
+  }, [pdfFiles, mode, reverseSecond, padToEven, bookmarks, tableOfContents, pageSize, orientation, customProperties, properties, addDocument, mergeTask.run]);
+
+  const expandedFile = pdfFiles.find(pdfFile => pdfFile.id === expandedId) ?? null;
+  const hasImages = pdfFiles.some(pdfFile => pdfFile.kind === 'image');
+  const expandedSelection = new Set(expandedFile ? markedIndices(expandedFile).map(index => index + 1) : []);
 
   return (
     <div 
@@ -135,7 +275,7 @@ const PdfMerger: React.FC = () => {
         <div className="absolute inset-0 bg-slate-900/80 backdrop-blur-sm flex items-center justify-center rounded-2xl z-20 pointer-events-none">
           <div className="text-center">
             <UploadIcon className="mx-auto w-16 h-16 text-indigo-400" />
-            <p className="mt-4 text-lg font-semibold text-slate-200">Solte os PDFs aqui</p>
+            <p className="mt-4 text-lg font-semibold text-slate-200">Solte os PDFs e imagens aqui</p>
           </div>
         </div>
       )}
@@ -146,22 +286,28 @@ const PdfMerger: React.FC = () => {
               <div className="border-2 border-dashed border-slate-600 rounded-lg p-8 text-center hover:border-indigo-500 hover:bg-slate-800 transition-colors duration-300">
                 <UploadIcon className="mx-auto" />
                 <p className="mt-2 text-slate-300">
-                  <span className="font-semibold text-indigo-400">Clique para carregar</span> ou arraste e solte os PDFs
+                  <span className="font-semibold text-indigo-400">Clique para carregar</span> ou arraste e solte PDFs e imagens
                 </p>
                 <p className="text-xs text-slate-500">Todo o processamento é feito no seu navegador</p>
               </div>
             </label>
-            <input id="pdf-upload" type="file" accept="application/pdf" multiple className="hidden" onChange={handleFileChange} />
+            <input id="pdf-upload" type="file" accept="application/pdf,image/*" multiple className="hidden" onChange={handleFileChange} />
           </>
         )}
 
         {pdfFiles.length > 0 && (
           <div className="w-full">
-            <h3 className="font-semibold mb-4 text-slate-300">Arquivos Selecionados ({pdfFiles.length}) - Arraste para reordenar:</h3>
+            <h3 className="font-semibold text-slate-300">Arquivos Selecionados ({pdfFiles.length}) - Arraste para reordenar:</h3>
+            <p className="text-xs text-slate-500 mb-4">
+              {pdfFiles.reduce((sum, pdfFile) => sum + markedIndices(pdfFile).length, 0)} páginas no total. Deixe o intervalo em branco para incluir o arquivo inteiro.
+            </p>
             <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-5 lg:grid-cols-6 gap-4">
-              {pdfFiles.map(({ file, previewUrl }, index) => (
+              {pdfFiles.map((pdfFile, index) => {
+                const { id, kind, file, previewUrl, pageCount, range } = pdfFile;
+                const cardError = rangeError(pdfFile);
+                return (
                 <div
-                  key={file.name + index}
+                  key={id}
                   className="relative group bg-slate-700 p-2 rounded-lg cursor-grab transition-all duration-300"
                   draggable
                   onDragStart={() => (draggedItemIndex.current = index)}
@@ -179,39 +325,145 @@ const PdfMerger: React.FC = () => {
                       <FileIcon className="w-8 h-8 text-slate-500" />
                     )}
                   </div>
-                  <p className="text-xs text-slate-300 truncate mt-2">{file.name}</p>
+                  <input
+                    type="text"
+                    value={pdfFile.title}
+                    onChange={(e) => updateFile(id, { title: e.target.value })}
+                    title={`${file.name} — nome do marcador`}
+                    className="w-full mt-2 bg-transparent text-xs text-slate-300 truncate rounded px-0.5 hover:bg-slate-800 focus:bg-slate-800 focus:outline-none"
+                  />
+                  {kind === 'image' ? (
+                    <p className="mt-1 px-1 py-0.5 text-xs text-slate-500">Imagem · 1 página</p>
+                  ) : (
+                  <div className="flex items-center gap-1 mt-1">
+                    <input
+                      type="text"
+                      value={range}
+                      onChange={(e) => updateFile(id, { range: e.target.value })}
+                      placeholder={`Todas (${pageCount})`}
+                      title="Páginas a incluir, ex.: 1, 4-9"
+                      disabled={pageCount === 0}
+                      className={`w-full min-w-0 bg-slate-800 border rounded px-1 py-0.5 text-xs ${cardError ? 'border-red-500' : 'border-slate-600'}`}
+                    />
+                    <button
+                      onClick={() => setExpandedId(expandedId === id ? null : id)}
+                      disabled={pageCount === 0}
+                      title="Escolher páginas pelas miniaturas"
+                      className={`px-1.5 py-0.5 text-xs font-semibold rounded transition-colors ${expandedId === id ? 'bg-indigo-600' : 'bg-slate-600 hover:bg-slate-500'}`}
+                    >
+                      ⋯
+                    </button>
+                  </div>
+                  )}
+                  {cardError && <p className="text-[10px] leading-tight text-red-400 mt-1">{cardError}</p>}
                 </div>
-              ))}
+                );
+              })}
                <label htmlFor="pdf-upload-add" className="cursor-pointer w-full aspect-[2/3]">
                 <div className="border-2 border-dashed border-slate-600 rounded-lg h-full text-center hover:border-indigo-500 hover:bg-slate-800 transition-colors duration-300 flex flex-col items-center justify-center text-slate-500 hover:text-indigo-400">
                   <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M5 12h14"/><path d="M12 5v14"/></svg>
                   <span className="text-xs mt-1">Adicionar</span>
                 </div>
               </label>
-              <input id="pdf-upload-add" type="file" accept="application/pdf" multiple className="hidden" onChange={handleFileChange} />
+              <input id="pdf-upload-add" type="file" accept="application/pdf,image/*" multiple className="hidden" onChange={handleFileChange} />
             </div>
+            {expandedFile && (
+              <div className="mt-6">
+                <div className="flex items-center justify-between mb-2 gap-2">
+                  <h4 className="text-sm font-semibold text-slate-300 truncate">Páginas de {expandedFile.file.name}</h4>
+                  <button onClick={() => setExpandedId(null)} className="px-3 py-1 bg-slate-600 text-xs font-semibold rounded-md hover:bg-slate-500 transition-colors">Fechar</button>
+                </div>
+                <PageThumbnailGrid
+                  file={expandedFile.file}
+                  pageCount={expandedFile.pageCount}
+                  selectedPages={expandedSelection}
+                  onTogglePage={(pageNumber) => togglePage(expandedFile, pageNumber)}
+                />
+              </div>
+            )}
           </div>
         )}
         
+        {pdfFiles.length > 0 && (
+          <div className="w-full flex flex-wrap items-center gap-x-6 gap-y-2 mt-6 text-sm text-slate-300">
+            <label className="flex items-center gap-2">
+              Modo
+              <select value={mode} onChange={(e) => setMode(e.target.value as MergeMode)} className="bg-slate-800 border-slate-600 rounded-md p-2 text-sm">
+                <option value="concatenate">Um arquivo após o outro</option>
+                <option value="interleave">Intercalar páginas (A1, B1, A2, B2...)</option>
+              </select>
+            </label>
+            {mode === 'interleave' ? (
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input type="checkbox" checked={reverseSecond} onChange={(e) => setReverseSecond(e.target.checked)} className="accent-indigo-500" />
+                Inverter a ordem do segundo arquivo (versos digitalizados de trás para frente)
+              </label>
+            ) : (
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input type="checkbox" checked={padToEven} onChange={(e) => setPadToEven(e.target.checked)} className="accent-indigo-500" />
+                Página em branco após documentos ímpares (impressão frente e verso)
+              </label>
+            )}
+            {hasImages && (
+              <label className="flex items-center gap-2">
+                Página das imagens
+                <select value={pageSize} onChange={(e) => setPageSize(e.target.value as PageSize)} className="bg-slate-800 border-slate-600 rounded-md p-2 text-sm">
+                  <option value="A4">A4</option>
+                  <option value="Letter">Carta</option>
+                </select>
+                <select value={orientation} onChange={(e) => setOrientation(e.target.value as Orientation)} className="bg-slate-800 border-slate-600 rounded-md p-2 text-sm">
+                  <option value="portrait">Retrato</option>
+                  <option value="landscape">Paisagem</option>
+                </select>
+              </label>
+            )}
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input type="checkbox" checked={bookmarks} onChange={(e) => setBookmarks(e.target.checked)} className="accent-indigo-500" />
+              Criar um marcador por arquivo (mantendo os marcadores originais)
+            </label>
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input type="checkbox" checked={tableOfContents} onChange={(e) => setTableOfContents(e.target.checked)} className="accent-indigo-500" />
+              Adicionar sumário clicável no início
+            </label>
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input type="checkbox" checked={customProperties} onChange={(e) => setCustomProperties(e.target.checked)} className="accent-indigo-500" />
+              Definir título, autor e outras propriedades do PDF final
+            </label>
+            {customProperties && (
+              <div className="w-full bg-slate-700/50 p-4 rounded-lg">
+                <DocumentPropertiesForm value={properties} onChange={setProperties} />
+              </div>
+            )}
+          </div>
+        )}
+
         {error && <p className="text-red-400 mt-4 text-sm">{error}</p>}
 
-        <button
-          onClick={mergePdfs}
-          disabled={isLoading || pdfFiles.length < 2}
-          className="w-full md:w-auto mt-8 px-8 py-3 bg-indigo-600 text-white font-bold rounded-lg shadow-lg hover:bg-indigo-700 disabled:bg-slate-600 disabled:cursor-not-allowed transition-all duration-300 flex items-center justify-center gap-2"
-        >
-          {isLoading ? (
-            <>
-              <SpinnerIcon />
-              {pdfFiles.length > 0 ? 'Juntando...' : 'Carregando...'}
-            </>
-          ) : (
-            <>
-              <DownloadIcon />
-              Juntar e Baixar
-            </>
-          )}
-        </button>
+        {mergeTask.isRunning ? (
+          <div className="w-full mt-8">
+            <TaskProgress label="Juntando..." progress={mergeTask.progress} onCancel={mergeTask.cancel} />
+          </div>
+        ) : (
+          <button
+            onClick={handleMerge}
+            disabled={isLoading || pdfFiles.length < 2}
+            className="w-full md:w-auto mt-8 px-8 py-3 bg-indigo-600 text-white font-bold rounded-lg shadow-lg hover:bg-indigo-700 disabled:bg-slate-600 disabled:cursor-not-allowed transition-all duration-300 flex items-center justify-center gap-2"
+          >
+            {isLoading ? (
+              <>
+                <SpinnerIcon />
+                Carregando...
+              </>
+            ) : (
+              <>
+                <MergeIcon className="w-5 h-5" />
+                Juntar PDFs
+              </>
+            )}
+          </button>
+        )}
+
+        {result && <WorkspaceResult document={result} />}
       </div>
     </div>
   );
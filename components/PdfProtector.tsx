@@ -0,0 +1,208 @@
+import React, { useState, useCallback } from 'react';
+import { UploadIcon, LockIcon, FileIcon } from './Icons';
+import WorkspaceResult from './WorkspaceResult';
+import TaskProgress from './TaskProgress';
+import { useWorkspace, useWorkspaceDocument, WorkspaceDocument } from '../context/WorkspaceContext';
+import { useUnlockPdf } from '../context/PdfPasswordContext';
+import { formatBytes, toPdfFile } from '../lib/format';
+import { ALL_PERMISSIONS, EncryptionAlgorithm, PdfPermissions } from '../lib/pdfSecurity';
+import { isTaskCancelled } from '../lib/pdfWorkerClient';
+import { usePdfTask } from '../hooks/usePdfTask';
+
+type PermissionToggle = Exclude<keyof PdfPermissions, 'printing'>;
+
+const PERMISSION_LABELS: Record<PermissionToggle, string> = {
+    copying: 'Copiar texto e imagens',
+    modifying: 'Modificar o conteúdo',
+    annotating: 'Comentar',
+    fillingForms: 'Preencher formulários',
+    documentAssembly: 'Inserir, girar e excluir páginas',
+    contentAccessibility: 'Leitura por tecnologias assistivas',
+};
+
+const inputClassName = 'w-full bg-slate-800 border border-slate-600 rounded-md p-2 text-sm';
+
+const PdfProtector: React.FC = () => {
+    const [pdfFile, setPdfFile] = useState<File | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [isDragging, setIsDragging] = useState(false);
+    const [result, setResult] = useState<WorkspaceDocument | null>(null);
+    const [userPassword, setUserPassword] = useState('');
+    const [ownerPassword, setOwnerPassword] = useState('');
+    const [algorithm, setAlgorithm] = useState<EncryptionAlgorithm>('aes256');
+    const [permissions, setPermissions] = useState<PdfPermissions>(ALL_PERMISSIONS);
+    const { addDocument } = useWorkspace();
+    const unlockPdf = useUnlockPdf();
+    const protectTask = usePdfTask();
+
+    const processFile = async (file: File | null) => {
+        if (file) {
+            setResult(null);
+            if (file.type === 'application/pdf') {
+                let unlocked: File | null;
+                try {
+                    unlocked = await unlockPdf(file);
+                } catch (e) {
+                    console.error(e);
+                    setError('Falha ao ler o PDF. O arquivo pode estar corrompido.');
+                    return;
+                }
+                if (!unlocked) return;
+                setPdfFile(unlocked);
+                addDocument(unlocked);
+                setError(null);
+            } else {
+                setError('Por favor, selecione um arquivo PDF.');
+                setPdfFile(null);
+            }
+        }
+    };
+
+    useWorkspaceDocument('protect', files => processFile(files[0]));
+
+    const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        processFile(e.target.files?.[0] || null);
+    };
+
+    const handleDragEvents = (e: React.DragEvent<HTMLDivElement>, action: 'enter' | 'leave' | 'over' | 'drop') => {
+        e.preventDefault();
+        e.stopPropagation();
+        if (action === 'enter' || action === 'over') {
+          setIsDragging(true);
+        } else if (action === 'leave' || action === 'drop') {
+          setIsDragging(false);
+          if (action === 'drop') {
+            processFile(e.dataTransfer.files?.[0] || null);
+          }
+        }
+    };
+
+    const hasRestrictions = permissions.printing !== 'highResolution'
+        || (Object.keys(PERMISSION_LABELS) as PermissionToggle[]).some(key => !permissions[key]);
+
+    const protectPdf = useCallback(async () => {
+        if (!pdfFile) {
+            setError('Por favor, selecione um arquivo PDF primeiro.');
+            return;
+        }
+        if (!userPassword && !ownerPassword && !hasRestrictions) {
+            setError('Defina uma senha de abertura ou restrinja alguma permissão.');
+            return;
+        }
+        setError(null);
+        setResult(null);
+
+        try {
+            const arrayBuffer = await pdfFile.arrayBuffer();
+            const pdfBytes = await protectTask.run('encrypt', {
+                bytes: arrayBuffer,
+                options: { algorithm, userPassword, ownerPassword, permissions },
+            });
+            setResult(addDocument(toPdfFile(pdfBytes, 'rd-pdf-protegido.pdf'), 'protect'));
+        } catch (e) {
+            if (isTaskCancelled(e)) return;
+            console.error(e);
+            setError((e as Error).name === 'UnsupportedEncryptionError' ? (e as Error).message : 'Ocorreu um erro ao proteger o PDF.');
+        }
+    }, [pdfFile, userPassword, ownerPassword, algorithm, permissions, hasRestrictions, addDocument, protectTask.run]);
+
+    return (
+        <div
+            className="relative bg-slate-800/50 p-6 md:p-8 rounded-2xl shadow-xl w-full mx-auto animate-fade-in"
+            onDragEnter={(e) => handleDragEvents(e, 'enter')}
+            onDragLeave={(e) => handleDragEvents(e, 'leave')}
+            onDragOver={(e) => handleDragEvents(e, 'over')}
+            onDrop={(e) => handleDragEvents(e, 'drop')}
+        >
+             {isDragging && (
+                <div className="absolute inset-0 bg-slate-900/80 backdrop-blur-sm flex items-center justify-center rounded-2xl z-20 pointer-events-none">
+                    <div className="text-center">
+                        <UploadIcon className="mx-auto w-16 h-16 text-indigo-400" />
+                        <p className="mt-4 text-lg font-semibold text-slate-200">Solte o PDF aqui</p>
+                    </div>
+                </div>
+            )}
+            <div className="flex flex-col items-center">
+                <label htmlFor="pdf-protect-upload" className="w-full cursor-pointer">
+                    <div className="border-2 border-dashed border-slate-600 rounded-lg p-8 text-center hover:border-indigo-500 hover:bg-slate-800 transition-colors duration-300 min-h-[170px] flex justify-center items-center">
+                        {pdfFile ? (
+                           <div className="flex flex-col items-center gap-2 text-slate-300">
+                             <FileIcon />
+                             <span className="text-sm font-mono truncate max-w-full px-4">{pdfFile.name}</span>
+                             <span className="text-xs text-slate-500 font-mono">{formatBytes(pdfFile.size)}</span>
+                           </div>
+                        ) : (
+                            <div>
+                                <UploadIcon className="mx-auto" />
+                                <p className="mt-2 text-slate-300">
+                                  <span className="font-semibold text-indigo-400">Clique para carregar</span> ou arraste e solte um PDF
+                                </p>
+                                <p className="text-xs text-slate-500">Senha de abertura e restrição de impressão e cópia</p>
+                            </div>
+                        )}
+                    </div>
+                </label>
+                <input id="pdf-protect-upload" type="file" accept="application/pdf" className="hidden" onChange={handleFileChange} />
+
+                {pdfFile && (
+                    <div className="w-full grid md:grid-cols-2 gap-6 mt-6 bg-slate-700/50 p-4 rounded-lg">
+                        <div className="space-y-3">
+                            <div>
+                                <label htmlFor="protect-user-password" className="block text-sm font-medium text-slate-400 mb-1">Senha para abrir</label>
+                                <input id="protect-user-password" type="password" autoComplete="new-password" value={userPassword} onChange={e => setUserPassword(e.target.value)} placeholder="Sem senha de abertura" className={inputClassName} />
+                            </div>
+                            <div>
+                                <label htmlFor="protect-owner-password" className="block text-sm font-medium text-slate-400 mb-1">Senha de permissões</label>
+                                <input id="protect-owner-password" type="password" autoComplete="new-password" value={ownerPassword} onChange={e => setOwnerPassword(e.target.value)} placeholder="Gerada automaticamente" className={inputClassName} />
+                                <p className="text-xs text-slate-500 mt-1">Libera as restrições abaixo. Sem ela, as restrições não poderão ser removidas depois.</p>
+                            </div>
+                            <div>
+                                <label htmlFor="protect-algorithm" className="block text-sm font-medium text-slate-400 mb-1">Criptografia</label>
+                                <select id="protect-algorithm" value={algorithm} onChange={e => setAlgorithm(e.target.value as EncryptionAlgorithm)} className={inputClassName}>
+                                    <option value="aes256">AES-256 (Acrobat X ou mais recente)</option>
+                                    <option value="aes128">AES-128 (compatível com leitores antigos)</option>
+                                </select>
+                            </div>
+                        </div>
+                        <div className="space-y-2">
+                            <div>
+                                <label htmlFor="protect-printing" className="block text-sm font-medium text-slate-400 mb-1">Impressão</label>
+                                <select id="protect-printing" value={permissions.printing} onChange={e => setPermissions({ ...permissions, printing: e.target.value as PdfPermissions['printing'] })} className={inputClassName}>
+                                    <option value="highResolution">Permitida</option>
+                                    <option value="lowResolution">Somente em baixa resolução</option>
+                                    <option value="none">Bloqueada</option>
+                                </select>
+                            </div>
+                            {(Object.keys(PERMISSION_LABELS) as PermissionToggle[]).map(key => (
+                                <label key={key} className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+                                    <input type="checkbox" checked={permissions[key]} onChange={e => setPermissions({ ...permissions, [key]: e.target.checked })} className="accent-indigo-500" />
+                                    {PERMISSION_LABELS[key]}
+                                </label>
+                            ))}
+                        </div>
+                    </div>
+                )}
+
+                {error && <p className="text-red-400 mt-4 text-sm">{error}</p>}
+
+                {protectTask.isRunning ? (
+                    <div className="w-full mt-8">
+                        <TaskProgress label="Protegendo..." progress={protectTask.progress} onCancel={protectTask.cancel} />
+                    </div>
+                ) : (
+                    <button
+                        onClick={protectPdf}
+                        disabled={!pdfFile}
+                        className="w-full md:w-auto mt-8 px-8 py-3 bg-indigo-600 text-white font-bold rounded-lg shadow-lg hover:bg-indigo-700 disabled:bg-slate-600 disabled:cursor-not-allowed transition-all duration-300 flex items-center justify-center gap-2"
+                    >
+                        <LockIcon className="w-5 h-5" />
+                        Proteger PDF
+                    </button>
+                )}
+                {result && <WorkspaceResult document={result} />}
+            </div>
+        </div>
+    );
+};
+
+export default PdfProtector;
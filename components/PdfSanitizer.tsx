@@ -0,0 +1,240 @@
+import React, { useState, useCallback } from 'react';
+import { UploadIcon, ShieldCheckIcon, FileIcon } from './Icons';
+import WorkspaceResult from './WorkspaceResult';
+import TaskProgress from './TaskProgress';
+import { useWorkspace, useWorkspaceDocument, WorkspaceDocument } from '../context/WorkspaceContext';
+import { useUnlockPdf } from '../context/PdfPasswordContext';
+import { formatBytes, toPdfFile } from '../lib/format';
+import { SANITIZE_ITEMS, SanitizeItem, SanitizeReport } from '../lib/sanitize';
+import { isTaskCancelled } from '../lib/pdfWorkerClient';
+import { usePdfTask } from '../hooks/usePdfTask';
+
+const ITEM_LABELS: Record<SanitizeItem, { title: string; description: string }> = {
+    metadata: { title: 'Metadados do documento', description: 'Autor, título, programa de origem e datas' },
+    xmp: { title: 'Metadados XMP', description: 'Cópia em XML dos metadados, muitas vezes com o histórico de edição' },
+    attachments: { title: 'Arquivos anexados', description: 'Arquivos embutidos no PDF' },
+    javascript: { title: 'JavaScript e ações automáticas', description: 'Scripts, ação ao abrir e links que executam programas' },
+    formActions: { title: 'Ações de formulário', description: 'Envio, cálculos e scripts dos campos (os campos são mantidos)' },
+    comments: { title: 'Comentários', description: 'Notas, marcações e desenhos de revisão' },
+};
+
+// Quantos itens de cada categoria listar no relatório.
+const LISTED_DETAILS = 5;
+
+const PdfSanitizer: React.FC = () => {
+    const [pdfFile, setPdfFile] = useState<File | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [isDragging, setIsDragging] = useState(false);
+    const [result, setResult] = useState<WorkspaceDocument | null>(null);
+    const [findings, setFindings] = useState<SanitizeReport | null>(null);
+    const [removal, setRemoval] = useState<SanitizeReport | null>(null);
+    const [selectedItems, setSelectedItems] = useState<Set<SanitizeItem>>(new Set(SANITIZE_ITEMS));
+    const { addDocument } = useWorkspace();
+    const unlockPdf = useUnlockPdf();
+    const inspectTask = usePdfTask();
+    const sanitizeTask = usePdfTask();
+
+    const inspectFile = async (file: File) => {
+        try {
+            setFindings(await inspectTask.run('inspect', { bytes: await file.arrayBuffer() }));
+        } catch (e) {
+            if (isTaskCancelled(e)) return;
+            console.error(e);
+            setError('Falha ao ler o PDF. O arquivo pode estar corrompido.');
+        }
+    };
+
+    const processFile = async (file: File | null) => {
+        if (file) {
+            setResult(null);
+            setFindings(null);
+            setRemoval(null);
+            if (file.type === 'application/pdf') {
+                let unlocked: File | null;
+                try {
+                    unlocked = await unlockPdf(file);
+                } catch (e) {
+                    console.error(e);
+                    setError('Falha ao ler o PDF. O arquivo pode estar corrompido.');
+                    return;
+                }
+                if (!unlocked) return;
+                setPdfFile(unlocked);
+                addDocument(unlocked);
+                setError(null);
+                inspectFile(unlocked);
+            } else {
+                setError('Por favor, selecione um arquivo PDF.');
+                setPdfFile(null);
+            }
+        }
+    };
+
+    useWorkspaceDocument('sanitize', files => processFile(files[0]));
+
+    const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        processFile(e.target.files?.[0] || null);
+    };
+
+    const handleDragEvents = (e: React.DragEvent<HTMLDivElement>, action: 'enter' | 'leave' | 'over' | 'drop') => {
+        e.preventDefault();
+        e.stopPropagation();
+        if (action === 'enter' || action === 'over') {
+          setIsDragging(true);
+        } else if (action === 'leave' || action === 'drop') {
+          setIsDragging(false);
+          if (action === 'drop') {
+            processFile(e.dataTransfer.files?.[0] || null);
+          }
+        }
+    };
+
+    const toggleItem = (item: SanitizeItem) => {
+        const next = new Set(selectedItems);
+        if (next.has(item)) next.delete(item);
+        else next.add(item);
+        setSelectedItems(next);
+    };
+
+    const sanitizePdf = useCallback(async () => {
+        if (!pdfFile) {
+            setError('Por favor, selecione um arquivo PDF primeiro.');
+            return;
+        }
+        if (selectedItems.size === 0) {
+            setError('Marque pelo menos um item para remover.');
+            return;
+        }
+        setError(null);
+        setResult(null);
+        setRemoval(null);
+
+        try {
+            const { bytes, report } = await sanitizeTask.run('sanitize', {
+                bytes: await pdfFile.arrayBuffer(),
+                items: SANITIZE_ITEMS.filter(item => selectedItems.has(item)),
+            });
+            setRemoval(report);
+            setResult(addDocument(toPdfFile(bytes, 'rd-pdf-limpo.pdf'), 'sanitize'));
+        } catch (e) {
+            if (isTaskCancelled(e)) return;
+            console.error(e);
+            setError('Ocorreu um erro ao limpar o PDF.');
+        }
+    }, [pdfFile, selectedItems, addDocument, sanitizeTask.run]);
+
+    const removedItems = removal ? SANITIZE_ITEMS.filter(item => removal[item].removed && removal[item].count > 0) : [];
+    const keptItems = removal ? SANITIZE_ITEMS.filter(item => !removal[item].removed && removal[item].count > 0) : [];
+
+    return (
+        <div
+            className="relative bg-slate-800/50 p-6 md:p-8 rounded-2xl shadow-xl w-full mx-auto animate-fade-in"
+            onDragEnter={(e) => handleDragEvents(e, 'enter')}
+            onDragLeave={(e) => handleDragEvents(e, 'leave')}
+            onDragOver={(e) => handleDragEvents(e, 'over')}
+            onDrop={(e) => handleDragEvents(e, 'drop')}
+        >
+             {isDragging && (
+                <div className="absolute inset-0 bg-slate-900/80 backdrop-blur-sm flex items-center justify-center rounded-2xl z-20 pointer-events-none">
+                    <div className="text-center">
+                        <UploadIcon className="mx-auto w-16 h-16 text-indigo-400" />
+                        <p className="mt-4 text-lg font-semibold text-slate-200">Solte o PDF aqui</p>
+                    </div>
+                </div>
+            )}
+            <div className="flex flex-col items-center">
+                <label htmlFor="pdf-sanitize-upload" className="w-full cursor-pointer">
+                    <div className="border-2 border-dashed border-slate-600 rounded-lg p-8 text-center hover:border-indigo-500 hover:bg-slate-800 transition-colors duration-300 min-h-[170px] flex justify-center items-center">
+                        {pdfFile ? (
+                           <div className="flex flex-col items-center gap-2 text-slate-300">
+                             <FileIcon />
+                             <span className="text-sm font-mono truncate max-w-full px-4">{pdfFile.name}</span>
+                             <span className="text-xs text-slate-500 font-mono">{formatBytes(pdfFile.size)}</span>
+                           </div>
+                        ) : (
+                            <div>
+                                <UploadIcon className="mx-auto" />
+                                <p className="mt-2 text-slate-300">
+                                  <span className="font-semibold text-indigo-400">Clique para carregar</span> ou arraste e solte um PDF
+                                </p>
+                                <p className="text-xs text-slate-500">Remove autor, anexos, scripts e comentários antes de enviar o documento</p>
+                            </div>
+                        )}
+                    </div>
+                </label>
+                <input id="pdf-sanitize-upload" type="file" accept="application/pdf" className="hidden" onChange={handleFileChange} />
+
+                {inspectTask.isRunning && (
+                    <div className="w-full mt-6">
+                        <TaskProgress label="Procurando o que pode ser removido..." progress={inspectTask.progress} onCancel={inspectTask.cancel} />
+                    </div>
+                )}
+
+                {pdfFile && findings && (
+                    <ul className="w-full max-w-2xl mt-6 space-y-2">
+                        {SANITIZE_ITEMS.map(item => (
+                            <li key={item} className="bg-slate-700/50 p-3 rounded-lg">
+                                <label className="flex items-start gap-3 cursor-pointer">
+                                    <input type="checkbox" checked={selectedItems.has(item)} onChange={() => toggleItem(item)} className="accent-indigo-500 mt-1" />
+                                    <span className="flex-grow min-w-0">
+                                        <span className="flex items-center justify-between gap-2">
+                                            <span className="text-sm font-semibold text-slate-200">{ITEM_LABELS[item].title}</span>
+                                            <span className={`text-xs flex-shrink-0 ${findings[item].count > 0 ? 'text-amber-400' : 'text-slate-500'}`}>
+                                                {findings[item].count > 0 ? `${findings[item].count} encontrado(s)` : 'nada encontrado'}
+                                            </span>
+                                        </span>
+                                        <span className="block text-xs text-slate-400">{ITEM_LABELS[item].description}</span>
+                                        {findings[item].details.length > 0 && (
+                                            <span className="block mt-1 text-xs text-slate-500 font-mono">
+                                                {findings[item].details.slice(0, LISTED_DETAILS).map((detail, index) => <span key={index} className="block truncate">{detail}</span>)}
+                                                {findings[item].details.length > LISTED_DETAILS && <span className="block">e mais {findings[item].details.length - LISTED_DETAILS}</span>}
+                                            </span>
+                                        )}
+                                    </span>
+                                </label>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+
+                {removal && (
+                    <div className="mt-6 bg-slate-700/50 p-4 rounded-lg w-full max-w-2xl">
+                        <h4 className="font-semibold text-slate-200">PDF limpo</h4>
+                        {removedItems.length === 0 ? (
+                            <p className="text-sm text-slate-400 mt-1">Não havia nada a remover nos itens marcados.</p>
+                        ) : (
+                            <ul className="mt-1 text-sm text-green-400">
+                                {removedItems.map(item => <li key={item}>Removido: {ITEM_LABELS[item].title} ({removal[item].count})</li>)}
+                            </ul>
+                        )}
+                        {keptItems.length > 0 && (
+                            <ul className="mt-1 text-sm text-slate-400">
+                                {keptItems.map(item => <li key={item}>Mantido: {ITEM_LABELS[item].title} ({removal[item].count})</li>)}
+                            </ul>
+                        )}
+                    </div>
+                )}
+
+                {error && <p className="text-red-400 mt-4 text-sm">{error}</p>}
+
+                {sanitizeTask.isRunning ? (
+                    <div className="w-full mt-8">
+                        <TaskProgress label="Limpando..." progress={sanitizeTask.progress} onCancel={sanitizeTask.cancel} />
+                    </div>
+                ) : (
+                    <button
+                        onClick={sanitizePdf}
+                        disabled={!pdfFile || !findings}
+                        className="w-full md:w-auto mt-8 px-8 py-3 bg-indigo-600 text-white font-bold rounded-lg shadow-lg hover:bg-indigo-700 disabled:bg-slate-600 disabled:cursor-not-allowed transition-all duration-300 flex items-center justify-center gap-2"
+                    >
+                        <ShieldCheckIcon className="w-5 h-5" />
+                        Limpar PDF
+                    </button>
+                )}
+                {result && <WorkspaceResult document={result} />}
+            </div>
+        </div>
+    );
+};
+
+export default PdfSanitizer;
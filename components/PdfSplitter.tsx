@@ -1,80 +1,130 @@
 
 import React, { useState, useCallback } from 'react';
-import { PDFDocument } from 'pdf-lib';
-import { saveAs } from 'file-saver';
-import * as pdfjsLib from 'pdfjs-dist';
-import pdfjsWorker from 'pdfjs-dist/build/pdf.worker.js?url';
-import { UploadIcon, SpinnerIcon, DownloadIcon } from './Icons';
-
-// Configura o Vite para usar o worker local, resolvendo problemas de CORS/CSP da CDN
-pdfjsLib.GlobalWorkerOptions.workerSrc = pdfjsWorker;
-
-type PageThumbnail = {
-    dataUrl: string;
-    pageNumber: number;
+import { UploadIcon, SpinnerIcon, SplitIcon } from './Icons';
+import WorkspaceResult from './WorkspaceResult';
+import ZipResult, { ZipArchive } from './ZipResult';
+import TaskProgress from './TaskProgress';
+import PageThumbnailGrid from './PageThumbnailGrid';
+import { useWorkspace, useWorkspaceDocument, WorkspaceDocument } from '../context/WorkspaceContext';
+import { useUnlockPdf } from '../context/PdfPasswordContext';
+import { toFileSlug, toPdfFile, toZipFile } from '../lib/format';
+import { formatPageRange, PageRangeError, parsePageRange } from '../lib/pageRanges';
+import { loadPdfDocument } from '../lib/pdfjs';
+import { isTaskCancelled } from '../lib/pdfWorkerClient';
+import { usePdfTask } from '../hooks/usePdfTask';
+import { partsBetweenSeparators, partsByPattern, SplitMode } from '../lib/split';
+import { findBlankPages, getPageTexts } from '../lib/pageAnalysis';
+import type { OperationProgress } from '../lib/pdfOperations';
+
+// 'selection' extrai as páginas marcadas para um único PDF; os demais modos geram vários arquivos em um ZIP.
+// 'pattern' e 'blank' analisam as páginas aqui, com o pdf.js, e mandam ao worker as partes já definidas.
+type SplitterMode = 'selection' | 'pattern' | 'blank' | Exclude<SplitMode['type'], 'custom'>;
+
+const MODE_LABELS: Record<SplitterMode, string> = {
+    selection: 'Extrair páginas selecionadas',
+    pages: 'Um arquivo por página',
+    every: 'A cada N páginas',
+    markers: 'Nos pontos marcados entre as páginas',
+    bookmarks: 'Um arquivo por marcador',
+    size: 'Por tamanho máximo (anexos de e-mail)',
+    pattern: 'Quando um texto aparecer (expressão regular)',
+    blank: 'Nas páginas em branco (folhas separadoras)',
 };
 
+const MEGABYTE = 1024 * 1024;
+
 const PdfSplitter: React.FC = () => {
     const [pdfFile, setPdfFile] = useState<File | null>(null);
-    const [pageThumbnails, setPageThumbnails] = useState<PageThumbnail[]>([]);
     const [selectedPages, setSelectedPages] = useState<Set<number>>(new Set());
+    const [rangeText, setRangeText] = useState('');
+    const [rangeError, setRangeError] = useState<string | null>(null);
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const [totalPages, setTotalPages] = useState(0);
     const [isDragging, setIsDragging] = useState(false);
+    const [result, setResult] = useState<WorkspaceDocument | null>(null);
+    const [archive, setArchive] = useState<ZipArchive | null>(null);
+    const [mode, setMode] = useState<SplitterMode>('selection');
+    const [chunkSize, setChunkSize] = useState(2);
+    const [maxSizeMb, setMaxSizeMb] = useState(10);
+    const [pattern, setPattern] = useState('');
+    const [analysisProgress, setAnalysisProgress] = useState<OperationProgress | null>(null);
+    const [splitAfter, setSplitAfter] = useState<Set<number>>(new Set());
+    const { addDocument } = useWorkspace();
+    const unlockPdf = useUnlockPdf();
+    const splitTask = usePdfTask();
+
+    // Seleção feita pelas miniaturas ou pelos botões: reescreve a expressão a partir das páginas marcadas.
+    const updateSelection = (pages: Set<number>) => {
+        setSelectedPages(pages);
+        setRangeText(formatPageRange(Array.from(pages).sort((a, b) => a - b)));
+        setRangeError(null);
+    };
+
+    // Seleção digitada: marca as páginas da expressão assim que ela for válida.
+    const handleRangeChange = (expression: string) => {
+        setRangeText(expression);
+        if (expression.trim() === '') {
+            setSelectedPages(new Set());
+            setRangeError(null);
+            return;
+        }
+        try {
+            setSelectedPages(new Set(parsePageRange(expression, totalPages).map(index => index + 1)));
+            setRangeError(null);
+        } catch (e) {
+            setRangeError(e instanceof PageRangeError ? e.message : 'Intervalo inválido.');
+        }
+    };
 
     const resetState = () => {
         setPdfFile(null);
-        setPageThumbnails([]);
-        setSelectedPages(new Set());
+        updateSelection(new Set());
         setError(null);
         setIsLoading(false);
         setTotalPages(0);
+        setResult(null);
+        setArchive(null);
+        setSplitAfter(new Set());
     };
 
-    const renderPdfPages = useCallback(async (file: File) => {
+    // Só abre o documento para saber o número de páginas; as miniaturas são renderizadas pela grade.
+    const loadPdf = useCallback(async (file: File) => {
         setIsLoading(true);
         setError(null);
-        setPageThumbnails([]);
-        setSelectedPages(new Set());
+        updateSelection(new Set());
+        setSplitAfter(new Set());
         setTotalPages(0);
+        setResult(null);
+        setArchive(null);
         
         try {
-            const arrayBuffer = await file.arrayBuffer();
-            const loadingTask = pdfjsLib.getDocument(new Uint8Array(arrayBuffer));
-            const pdf = await loadingTask.promise;
+            const pdf = await loadPdfDocument(file);
             setTotalPages(pdf.numPages);
-            
-            const thumbnails: PageThumbnail[] = [];
-            for (let i = 1; i <= pdf.numPages; i++) {
-                const page = await pdf.getPage(i);
-                const viewport = page.getViewport({ scale: 0.5 });
-                const canvas = document.createElement('canvas');
-                canvas.height = viewport.height;
-                canvas.width = viewport.width;
-                const context = canvas.getContext('2d');
-                if (!context) continue;
-
-                // FIX: The type definition for `page.render` seems to be incorrect, requiring a 'canvas' property. Adding it to satisfy the type checker.
-                const renderContext = { canvasContext: context, viewport: viewport, canvas };
-                await page.render(renderContext).promise;
-                thumbnails.push({ dataUrl: canvas.toDataURL(), pageNumber: i });
-            }
-            setPageThumbnails(thumbnails);
         } catch (e) {
             console.error(e);
-            setError('Falha ao ler o PDF. O arquivo pode estar corrompido ou ter um formato inválido.');
             resetState();
+            setError('Falha ao ler o PDF. O arquivo pode estar corrompido ou ter um formato inválido.');
         } finally {
             setIsLoading(false);
         }
     }, []);
     
-    const processFile = (file: File | null) => {
+    const processFile = async (file: File | null) => {
         if (file) {
             if (file.type === 'application/pdf') {
-                setPdfFile(file);
-                renderPdfPages(file);
+                let unlocked: File | null;
+                try {
+                    unlocked = await unlockPdf(file);
+                } catch (e) {
+                    console.error(e);
+                    setError('Falha ao ler o PDF. O arquivo pode estar corrompido ou ter um formato inválido.');
+                    return;
+                }
+                if (!unlocked) return;
+                setPdfFile(unlocked);
+                addDocument(unlocked);
+                loadPdf(unlocked);
             } else {
                 setError('Por favor, selecione um arquivo PDF.');
                 resetState();
@@ -82,6 +132,8 @@ const PdfSplitter: React.FC = () => {
         }
     };
 
+    useWorkspaceDocument('split', files => processFile(files[0]));
+
     const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         processFile(e.target.files?.[0] || null);
     };
@@ -106,47 +158,111 @@ const PdfSplitter: React.FC = () => {
         } else {
             newSelection.add(pageNumber);
         }
-        setSelectedPages(newSelection);
+        updateSelection(newSelection);
     };
 
     const selectAllPages = () => {
         const allPageNumbers = Array.from({ length: totalPages }, (_, i) => i + 1);
-        setSelectedPages(new Set(allPageNumbers));
+        updateSelection(new Set(allPageNumbers));
     };
 
     const clearSelection = () => {
-        setSelectedPages(new Set());
+        updateSelection(new Set());
+    };
+
+    const toggleSplitAfter = (pageNumber: number) => {
+        if (pageNumber >= totalPages) return;
+        const newMarkers = new Set(splitAfter);
+        if (newMarkers.has(pageNumber)) {
+            newMarkers.delete(pageNumber);
+        } else {
+            newMarkers.add(pageNumber);
+        }
+        setSplitAfter(newMarkers);
     };
 
+    const splitToZip = useCallback(async () => {
+        if (!pdfFile) return;
+        if (mode === 'markers' && splitAfter.size === 0) {
+            setError('Marque pelo menos um ponto de divisão entre as páginas.');
+            return;
+        }
+        if (mode === 'pattern' && pattern.trim() === '') {
+            setError('Informe o texto ou a expressão que marca o início de cada arquivo.');
+            return;
+        }
+        setError(null);
+        setArchive(null);
+
+        const baseName = toFileSlug(pdfFile.name.replace(/\.pdf$/i, ''), 'documento');
+        const reportAnalysis = (detail: string) => (current: number, total: number) =>
+            setAnalysisProgress({ stage: 'processing', unit: 'page', current, total, detail });
+
+        try {
+            let splitMode: SplitMode;
+            switch (mode) {
+                case 'every':
+                    splitMode = { type: 'every', size: chunkSize };
+                    break;
+                case 'markers':
+                    // O marcador fica após a página N (base 1), ou seja, o próximo arquivo começa no índice N.
+                    splitMode = { type: 'markers', breaks: Array.from(splitAfter) };
+                    break;
+                case 'size':
+                    splitMode = { type: 'size', maxBytes: maxSizeMb * MEGABYTE };
+                    break;
+                case 'pattern': {
+                    let regex: RegExp;
+                    try {
+                        regex = new RegExp(pattern, 'i');
+                    } catch {
+                        setError('Expressão regular inválida.');
+                        return;
+                    }
+                    const texts = await getPageTexts(pdfFile, reportAnalysis('Lendo o texto'));
+                    splitMode = { type: 'custom', parts: partsByPattern(texts, regex, baseName) };
+                    break;
+                }
+                case 'blank': {
+                    const blankPages = await findBlankPages(pdfFile, totalPages, reportAnalysis('Procurando páginas em branco'));
+                    splitMode = { type: 'custom', parts: partsBetweenSeparators(blankPages, baseName) };
+                    break;
+                }
+                default:
+                    splitMode = { type: mode === 'bookmarks' ? 'bookmarks' : 'pages' };
+            }
+            setAnalysisProgress(null);
+            const { bytes, files } = await splitTask.run('split', { bytes: await pdfFile.arrayBuffer(), mode: splitMode, baseName });
+            setArchive({ file: toZipFile(bytes, `${baseName}-dividido.zip`), files });
+        } catch (e) {
+            setAnalysisProgress(null);
+            if (isTaskCancelled(e)) return;
+            console.error(e);
+            const message = (e as Error).name === 'SplitError' ? (e as Error).message : 'Ocorreu um erro ao dividir o PDF.';
+            setError(mode === 'pattern' && (e as Error).name === 'SplitError' ? `${message} Digitalizações sem OCR não têm texto para buscar.` : message);
+        }
+    }, [pdfFile, mode, chunkSize, maxSizeMb, pattern, splitAfter, totalPages, splitTask.run]);
+
     const splitPdf = useCallback(async () => {
         if (!pdfFile || selectedPages.size === 0) {
             setError('Por favor, selecione pelo menos uma página para extrair.');
             return;
         }
         setError(null);
-        setIsLoading(true);
+        setResult(null);
 
         try {
             const arrayBuffer = await pdfFile.arrayBuffer();
-            const pdfDoc = await PDFDocument.load(arrayBuffer);
-
-            const newPdf = await PDFDocument.create();
             // FIX: Explicitly type `a`, `b`, and `n` as numbers to prevent TypeScript errors.
             const sortedPageIndices = Array.from(selectedPages).sort((a: number, b: number) => a - b).map((n: number) => n - 1);
-            
-            const copiedPages = await newPdf.copyPages(pdfDoc, sortedPageIndices);
-            copiedPages.forEach(page => newPdf.addPage(page));
-
-            const pdfBytes = await newPdf.save();
-            const blob = new Blob([pdfBytes as any], { type: 'application/pdf' });
-            saveAs(blob, `rd-pdf-dividido.pdf`);
+            const pdfBytes = await splitTask.run('extract', { bytes: arrayBuffer, pageIndices: sortedPageIndices });
+            setResult(addDocument(toPdfFile(pdfBytes, 'rd-pdf-dividido.pdf'), 'split'));
         } catch (e) {
+            if (isTaskCancelled(e)) return;
             console.error(e);
             setError('Ocorreu um erro ao dividir o PDF.');
-        } finally {
-            setIsLoading(false);
         }
-    }, [pdfFile, selectedPages]);
+    }, [pdfFile, selectedPages, addDocument, splitTask.run]);
 
     return (
         <div 
@@ -172,7 +288,7 @@ const PdfSplitter: React.FC = () => {
                             <p className="mt-2 text-slate-300">
                                 <span className="font-semibold text-indigo-400">Clique para carregar</span> ou arraste e solte um PDF
                             </p>
-                            <p className="text-xs text-slate-500">Selecione páginas para extrair</p>
+                            <p className="text-xs text-slate-500">Extraia páginas ou divida em vários arquivos</p>
                         </div>
                     </label>
                     <input id="pdf-split-upload" type="file" accept="application/pdf" className="hidden" onChange={handleFileChange} />
@@ -182,47 +298,120 @@ const PdfSplitter: React.FC = () => {
             {pdfFile && isLoading && (
                 <div className="flex flex-col items-center justify-center min-h-[300px]">
                     <SpinnerIcon />
-                    <p className="mt-4 text-slate-300">Lendo as páginas do PDF...</p>
-                    <p className="text-sm text-slate-500">{pageThumbnails.length} de {totalPages} páginas carregadas</p>
+                    <p className="mt-4 text-slate-300">Lendo o PDF...</p>
                 </div>
             )}
 
-            {pdfFile && !isLoading && pageThumbnails.length > 0 && (
+            {pdfFile && !isLoading && totalPages > 0 && (
                 <div>
-                    <div className="flex flex-wrap gap-4 items-center justify-between mb-4">
-                        <div>
-                            <h3 className="font-semibold text-slate-200">Selecione as Páginas para Extrair</h3>
-                            <p className="text-sm text-slate-400">{selectedPages.size} de {totalPages} páginas selecionadas.</p>
-                        </div>
-                        <div className="flex gap-2">
-                             <button onClick={selectAllPages} className="px-3 py-1 bg-slate-600 text-xs font-semibold rounded-md hover:bg-slate-500 transition-colors">Selecionar Tudo</button>
-                             <button onClick={clearSelection} className="px-3 py-1 bg-slate-600 text-xs font-semibold rounded-md hover:bg-slate-500 transition-colors">Limpar</button>
+                    <div className="mb-4">
+                        <label htmlFor="split-mode" className="block text-sm font-medium text-slate-400 mb-1">Como dividir</label>
+                        <div className="flex flex-wrap items-center gap-3">
+                            <select id="split-mode" value={mode} onChange={(e) => setMode(e.target.value as SplitterMode)} className="bg-slate-800 border-slate-600 rounded-md p-2 text-sm">
+                                {(Object.keys(MODE_LABELS) as SplitterMode[]).map(key => <option key={key} value={key}>{MODE_LABELS[key]}</option>)}
+                            </select>
+                            {mode === 'every' && (
+                                <label className="flex items-center gap-2 text-sm text-slate-300">
+                                    <input type="number" min={1} max={totalPages} value={chunkSize} onChange={(e) => setChunkSize(Math.max(1, Math.floor(Number(e.target.value)) || 1))} className="w-20 bg-slate-800 border border-slate-600 rounded-md p-2 text-sm" />
+                                    páginas por arquivo ({Math.ceil(totalPages / chunkSize)} arquivos)
+                                </label>
+                            )}
+                            {mode === 'size' && (
+                                <label className="flex items-center gap-2 text-sm text-slate-300">
+                                    Até
+                                    <input type="number" min={0.1} step={0.5} value={maxSizeMb} onChange={(e) => setMaxSizeMb(Math.max(0.1, Number(e.target.value) || 0.1))} className="w-20 bg-slate-800 border border-slate-600 rounded-md p-2 text-sm" />
+                                    MB por arquivo, em blocos de páginas consecutivas
+                                </label>
+                            )}
+                            {mode === 'pattern' && (
+                                <input
+                                    type="text"
+                                    value={pattern}
+                                    onChange={(e) => setPattern(e.target.value)}
+                                    placeholder="Ex.: Nota Fiscal Nº (\d+)"
+                                    title="Um novo arquivo começa em cada página onde o texto aparece; o trecho entre parênteses vira o nome do arquivo."
+                                    className="flex-grow min-w-[16rem] bg-slate-800 border border-slate-600 rounded-md p-2 text-sm font-mono"
+                                />
+                            )}
+                            {mode === 'blank' && (
+                                <p className="text-xs text-slate-400">As páginas em branco são usadas como divisão e ficam de fora dos arquivos.</p>
+                            )}
                         </div>
                     </div>
-                    <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-5 lg:grid-cols-6 xl:grid-cols-8 gap-4 max-h-[50vh] overflow-y-auto p-2 bg-slate-900/50 rounded-lg">
-                        {pageThumbnails.map(({ dataUrl, pageNumber }) => (
-                            <button key={pageNumber} onClick={() => togglePageSelection(pageNumber)} className={`relative rounded-md overflow-hidden border-4 transition-all duration-200 ${selectedPages.has(pageNumber) ? 'border-indigo-500' : 'border-transparent hover:border-slate-500'}`}>
-                                <img src={dataUrl} alt={`Página ${pageNumber}`} className="w-full h-auto block" />
-                                <div className="absolute top-1 right-1 bg-slate-800 text-white text-xs rounded-full w-5 h-5 flex items-center justify-center font-bold">{pageNumber}</div>
-                                {selectedPages.has(pageNumber) && (
-                                    <div className="absolute inset-0 bg-indigo-500/50 flex items-center justify-center">
-                                        <svg className="w-8 h-8 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M5 13l4 4L19 7" /></svg>
-                                    </div>
-                                )}
-                            </button>
-                        ))}
-                    </div>
+                    {mode === 'selection' && (
+                        <>
+                            <div className="flex flex-wrap gap-4 items-center justify-between mb-4">
+                                <div>
+                                    <h3 className="font-semibold text-slate-200">Selecione as Páginas para Extrair</h3>
+                                    <p className="text-sm text-slate-400">{selectedPages.size} de {totalPages} páginas selecionadas.</p>
+                                </div>
+                                <div className="flex gap-2">
+                                     <button onClick={selectAllPages} className="px-3 py-1 bg-slate-600 text-xs font-semibold rounded-md hover:bg-slate-500 transition-colors">Selecionar Tudo</button>
+                                     <button onClick={clearSelection} className="px-3 py-1 bg-slate-600 text-xs font-semibold rounded-md hover:bg-slate-500 transition-colors">Limpar</button>
+                                </div>
+                            </div>
+                            <div className="mb-4">
+                                <label htmlFor="split-page-range" className="block text-sm font-medium text-slate-400 mb-1">Páginas</label>
+                                <input
+                                    id="split-page-range"
+                                    type="text"
+                                    value={rangeText}
+                                    onChange={(e) => handleRangeChange(e.target.value)}
+                                    placeholder="Ex.: 1-5, 8, 11-  ·  ímpares  ·  pares  ·  últimas 3"
+                                    className={`w-full bg-slate-800 border rounded-md p-2 text-sm font-mono ${rangeError ? 'border-red-500' : 'border-slate-600'}`}
+                                />
+                                {rangeError && <p className="text-xs text-red-400 mt-1">{rangeError}</p>}
+                            </div>
+                        </>
+                    )}
+                    {mode === 'markers' && (
+                        <div className="flex flex-wrap gap-4 items-center justify-between mb-4">
+                            <p className="text-sm text-slate-400">
+                                Clique entre as miniaturas (ou na página) para marcar onde cada arquivo termina. {splitAfter.size + 1} arquivos.
+                            </p>
+                            <button onClick={() => setSplitAfter(new Set())} className="px-3 py-1 bg-slate-600 text-xs font-semibold rounded-md hover:bg-slate-500 transition-colors">Limpar marcas</button>
+                        </div>
+                    )}
+                    {mode === 'selection' ? (
+                        <PageThumbnailGrid file={pdfFile} pageCount={totalPages} selectedPages={selectedPages} onTogglePage={togglePageSelection} />
+                    ) : (
+                        <PageThumbnailGrid
+                            file={pdfFile}
+                            pageCount={totalPages}
+                            selectedPages={new Set()}
+                            onTogglePage={mode === 'markers' ? toggleSplitAfter : () => {}}
+                            splitAfter={splitAfter}
+                            onToggleSplit={mode === 'markers' ? toggleSplitAfter : undefined}
+                        />
+                    )}
 
                     <div className="flex flex-col items-center mt-6">
                         {error && <p className="text-red-400 mb-4 text-sm">{error}</p>}
-                        <button
-                            onClick={splitPdf}
-                            disabled={selectedPages.size === 0}
-                            className="w-full md:w-auto px-8 py-3 bg-indigo-600 text-white font-bold rounded-lg shadow-lg hover:bg-indigo-700 disabled:bg-slate-600 disabled:cursor-not-allowed transition-all duration-300 flex items-center justify-center gap-2"
-                        >
-                            <DownloadIcon />
-                            Extrair e Baixar ({selectedPages.size})
-                        </button>
+                        {analysisProgress ? (
+                            <TaskProgress label="Analisando as páginas..." progress={analysisProgress} />
+                        ) : splitTask.isRunning ? (
+                            <TaskProgress label={mode === 'selection' ? 'Extraindo páginas...' : 'Dividindo...'} progress={splitTask.progress} onCancel={splitTask.cancel} />
+                        ) : mode === 'selection' ? (
+                            <button
+                                onClick={splitPdf}
+                                disabled={selectedPages.size === 0}
+                                className="w-full md:w-auto px-8 py-3 bg-indigo-600 text-white font-bold rounded-lg shadow-lg hover:bg-indigo-700 disabled:bg-slate-600 disabled:cursor-not-allowed transition-all duration-300 flex items-center justify-center gap-2"
+                            >
+                                <SplitIcon className="w-5 h-5" />
+                                Extrair Páginas ({selectedPages.size})
+                            </button>
+                        ) : (
+                            <button
+                                onClick={splitToZip}
+                                disabled={mode === 'markers' && splitAfter.size === 0}
+                                className="w-full md:w-auto px-8 py-3 bg-indigo-600 text-white font-bold rounded-lg shadow-lg hover:bg-indigo-700 disabled:bg-slate-600 disabled:cursor-not-allowed transition-all duration-300 flex items-center justify-center gap-2"
+                            >
+                                <SplitIcon className="w-5 h-5" />
+                                Dividir e Baixar ZIP
+                            </button>
+                        )}
+                        {mode === 'selection' && result && <WorkspaceResult document={result} />}
+                        {mode !== 'selection' && archive && <ZipResult archive={archive} limit={mode === 'size' ? maxSizeMb * MEGABYTE : undefined} />}
                     </div>
                 </div>
             )}
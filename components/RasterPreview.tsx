@@ -0,0 +1,142 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { formatBytes } from '../lib/format';
+import { RasterSettings, renderPageAsJpeg, renderPageAsPng } from '../lib/rasterize';
+import { SpinnerIcon } from './Icons';
+
+interface RasterPreviewProps {
+    file: File;
+    pageCount: number;
+    settings: RasterSettings;
+}
+
+// Resolução da página original exibida ao lado do resultado.
+const REFERENCE_DPI = 200;
+// Pixels de tela por ponto nos dois painéis: as duas imagens aparecem no mesmo tamanho, ampliadas.
+const PREVIEW_ZOOM = 2;
+// Espera antes de renderizar de novo, para não refazer a página a cada passo do controle de qualidade.
+const RENDER_DELAY = 300;
+
+interface RenderedPreview {
+    url: string;
+    size: number;
+    width: number; // pt
+}
+
+// Pré-visualização da compressão por rasterização: a página original e o resultado lado a lado, com rolagem
+// sincronizada, e o tamanho final estimado a partir da página escolhida.
+const RasterPreview: React.FC<RasterPreviewProps> = ({ file, pageCount, settings }) => {
+    const [pageNumber, setPageNumber] = useState(1);
+    const [reference, setReference] = useState<string | null>(null);
+    const [preview, setPreview] = useState<RenderedPreview | null>(null);
+    const [isRendering, setIsRendering] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const panels = useRef<Array<HTMLDivElement | null>>([]);
+    const { dpi, colorMode, quality } = settings;
+
+    useEffect(() => setPageNumber(1), [file]);
+
+    useEffect(() => {
+        const controller = new AbortController();
+        let url: string | null = null;
+        renderPageAsPng(file, pageNumber, REFERENCE_DPI)
+            .then(blob => {
+                if (controller.signal.aborted) return;
+                url = URL.createObjectURL(blob);
+                setReference(url);
+            })
+            .catch(e => {
+                if (!controller.signal.aborted) console.error(e);
+            });
+        return () => {
+            controller.abort();
+            if (url) URL.revokeObjectURL(url);
+        };
+    }, [file, pageNumber]);
+
+    useEffect(() => {
+        const controller = new AbortController();
+        let url: string | null = null;
+        setIsRendering(true);
+        const timer = setTimeout(async () => {
+            try {
+                const page = await renderPageAsJpeg(file, pageNumber, { dpi, colorMode, quality });
+                if (controller.signal.aborted) return;
+                url = URL.createObjectURL(new Blob([page.bytes as BlobPart], { type: 'image/jpeg' }));
+                setPreview({ url, size: page.bytes.length, width: page.width });
+                setError(null);
+            } catch (e) {
+                if (controller.signal.aborted) return;
+                console.error(e);
+                setError('Não foi possível renderizar a página.');
+            } finally {
+                if (!controller.signal.aborted) setIsRendering(false);
+            }
+        }, RENDER_DELAY);
+        return () => {
+            controller.abort();
+            clearTimeout(timer);
+            if (url) URL.revokeObjectURL(url);
+        };
+    }, [file, pageNumber, dpi, colorMode, quality]);
+
+    const syncScroll = (source: number) => {
+        const from = panels.current[source];
+        const to = panels.current[1 - source];
+        if (!from || !to) return;
+        to.scrollTop = from.scrollTop;
+        to.scrollLeft = from.scrollLeft;
+    };
+
+    const estimatedSize = preview ? preview.size * pageCount : null;
+    const panes = [{ title: 'Original', url: reference }, { title: 'Resultado', url: preview?.url }];
+
+    return (
+        <div className="w-full mt-6">
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+                <label className="flex items-center gap-2 text-sm text-slate-300">
+                    Página
+                    <input
+                        type="number"
+                        min={1}
+                        max={pageCount}
+                        value={pageNumber}
+                        onChange={e => setPageNumber(Math.min(pageCount, Math.max(1, Number(e.target.value) || 1)))}
+                        className="w-20 bg-slate-700 border border-slate-600 rounded-md px-2 py-1 text-slate-200"
+                    />
+                    <span className="text-slate-500">de {pageCount}</span>
+                </label>
+                {estimatedSize !== null && (
+                    <p className="text-sm text-slate-400">
+                        Tamanho estimado: <span className={`font-mono ${estimatedSize < file.size ? 'text-green-400' : 'text-amber-400'}`}>~{formatBytes(estimatedSize)}</span>
+                        <span className="text-slate-500"> (original: {formatBytes(file.size)})</span>
+                    </p>
+                )}
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+                {panes.map(({ title, url }, index) => (
+                    <div key={title}>
+                        <p className="text-xs text-slate-400 mb-1 flex items-center gap-2">
+                            {title}
+                            {index === 1 && isRendering && <SpinnerIcon className="w-3 h-3 animate-spin" />}
+                        </p>
+                        <div
+                            ref={element => { panels.current[index] = element; }}
+                            onScroll={() => syncScroll(index)}
+                            className="h-80 overflow-auto bg-slate-900 rounded-md border border-slate-700"
+                        >
+                            {url && preview && (
+                                <img src={url} alt={`${title}, página ${pageNumber}`} style={{ width: preview.width * PREVIEW_ZOOM, maxWidth: 'none' }} className="block" />
+                            )}
+                        </div>
+                    </div>
+                ))}
+            </div>
+            {estimatedSize !== null && estimatedSize >= file.size && (
+                <p className="text-xs text-amber-400 mt-2">Com essas configurações o arquivo ficaria maior. Tente uma resolução menor ou outro modo de cor.</p>
+            )}
+            {error && <p className="text-red-400 mt-2 text-sm">{error}</p>}
+        </div>
+    );
+};
+
+export default RasterPreview;
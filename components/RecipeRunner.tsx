@@ -0,0 +1,287 @@
+import React, { useState, useCallback } from 'react';
+import { UploadIcon, TrashIcon, FileIcon, RecipeIcon } from './Icons';
+import WorkspaceResult from './WorkspaceResult';
+import { useWorkspace, WorkspaceDocument } from '../context/WorkspaceContext';
+import { useUnlockPdf } from '../context/PdfPasswordContext';
+import { formatBytes, toPdfFile } from '../lib/format';
+import { isTaskCancelled } from '../lib/pdfWorkerClient';
+import { usePdfTask } from '../hooks/usePdfTask';
+import TaskProgress from './TaskProgress';
+import type { CompressionPreset } from '../lib/imageCompression';
+import {
+    Recipe,
+    RecipeStep,
+    RecipeStepType,
+    STEP_LABELS,
+    createRecipe,
+    createStep,
+    loadRecipes,
+    saveRecipes,
+} from '../lib/recipes';
+
+const selectClassName = 'bg-slate-800 border-slate-600 rounded-md p-1 text-xs';
+
+const StepOptions: React.FC<{ step: RecipeStep; onChange: (step: RecipeStep) => void }> = ({ step, onChange }) => {
+    switch (step.type) {
+        case 'extract':
+            return (
+                <input type="text" value={step.pages} onChange={e => onChange({ ...step, pages: e.target.value })} placeholder="1-3, 7" className="bg-slate-800 border border-slate-600 rounded-md px-2 py-1 text-xs w-28" />
+            );
+        case 'rotate':
+            return (
+                <>
+                    <select value={step.angle} onChange={e => onChange({ ...step, angle: Number(e.target.value) as 90 | 180 | 270 })} className={selectClassName}>
+                        <option value={90}>90°</option>
+                        <option value={180}>180°</option>
+                        <option value={270}>270°</option>
+                    </select>
+                    <select value={step.target} onChange={e => onChange({ ...step, target: e.target.value as typeof step.target })} className={selectClassName}>
+                        <option value="all">Todas as páginas</option>
+                        <option value="landscape">Páginas em paisagem</option>
+                        <option value="portrait">Páginas em retrato</option>
+                    </select>
+                </>
+            );
+        case 'pageNumbers':
+            return (
+                <>
+                    <select value={step.position} onChange={e => onChange({ ...step, position: e.target.value as typeof step.position })} className={selectClassName}>
+                        <option value="bottom-center">Rodapé centralizado</option>
+                        <option value="bottom-right">Rodapé à direita</option>
+                        <option value="top-right">Topo à direita</option>
+                    </select>
+                    <select value={step.format} onChange={e => onChange({ ...step, format: e.target.value as typeof step.format })} className={selectClassName}>
+                        <option value="number">1, 2, 3...</option>
+                        <option value="number-of-total">1 / N</option>
+                    </select>
+                </>
+            );
+        case 'compress':
+            return (
+                <select value={step.preset ?? 'medium'} onChange={e => onChange({ ...step, preset: e.target.value as CompressionPreset })} className={selectClassName}>
+                    <option value="low">Compressão baixa (melhor qualidade)</option>
+                    <option value="medium">Compressão média</option>
+                    <option value="high">Compressão alta (menor arquivo)</option>
+                </select>
+            );
+    }
+};
+
+const RecipeRunner: React.FC = () => {
+    const [recipes, setRecipes] = useState<Recipe[]>(loadRecipes);
+    const [selectedId, setSelectedId] = useState<string | null>(() => recipes[0]?.id ?? null);
+    const [files, setFiles] = useState<File[]>([]);
+    const [error, setError] = useState<string | null>(null);
+    const [isDragging, setIsDragging] = useState(false);
+    const [results, setResults] = useState<WorkspaceDocument[]>([]);
+    const { documents, addDocument } = useWorkspace();
+    const unlockPdf = useUnlockPdf();
+    const recipeTask = usePdfTask();
+
+    const recipe = recipes.find(r => r.id === selectedId) ?? null;
+
+    const persist = (next: Recipe[]) => {
+        setRecipes(next);
+        saveRecipes(next);
+    };
+
+    const updateRecipe = (updates: Partial<Recipe>) => {
+        if (!recipe) return;
+        persist(recipes.map(r => (r.id === recipe.id ? { ...r, ...updates } : r)));
+    };
+
+    const addRecipe = () => {
+        const newRecipe = createRecipe();
+        persist([...recipes, newRecipe]);
+        setSelectedId(newRecipe.id);
+    };
+
+    const deleteRecipe = () => {
+        if (!recipe) return;
+        const remaining = recipes.filter(r => r.id !== recipe.id);
+        persist(remaining);
+        setSelectedId(remaining[0]?.id ?? null);
+    };
+
+    const updateStep = (index: number, step: RecipeStep) => {
+        if (!recipe) return;
+        updateRecipe({ steps: recipe.steps.map((s, i) => (i === index ? step : s)) });
+    };
+
+    const moveStep = (index: number, direction: -1 | 1) => {
+        if (!recipe) return;
+        const target = index + direction;
+        if (target < 0 || target >= recipe.steps.length) return;
+        const steps = [...recipe.steps];
+        [steps[index], steps[target]] = [steps[target], steps[index]];
+        updateRecipe({ steps });
+    };
+
+    const processFiles = async (incoming: FileList | File[] | null) => {
+        if (!incoming) return;
+        const pdfs = Array.from(incoming).filter(file => file.type === 'application/pdf');
+        setError(pdfs.length !== incoming.length ? 'Apenas arquivos PDF são aceitos.' : null);
+        setResults([]);
+        const unlocked: File[] = [];
+        for (const file of pdfs) {
+            try {
+                const result = await unlockPdf(file);
+                if (result) unlocked.push(result);
+            } catch (e) {
+                console.error(e);
+                setError(`Não foi possível abrir ${file.name}.`);
+            }
+        }
+        setFiles(prev => [...prev, ...unlocked.filter(file => !prev.includes(file))]);
+    };
+
+    const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => processFiles(e.target.files);
+
+    const handleDragEvents = (e: React.DragEvent<HTMLDivElement>, action: 'enter' | 'leave' | 'over' | 'drop') => {
+        e.preventDefault();
+        e.stopPropagation();
+        if (action === 'enter' || action === 'over') {
+            setIsDragging(true);
+        } else if (action === 'leave') {
+            setIsDragging(false);
+        } else if (action === 'drop') {
+            setIsDragging(false);
+            processFiles(e.dataTransfer.files);
+        }
+    };
+
+    const run = useCallback(async () => {
+        if (!recipe || files.length === 0) return;
+        setError(null);
+        setResults([]);
+        try {
+            const inputs = await Promise.all(files.map(async file => ({ name: file.name, bytes: await file.arrayBuffer() })));
+            const outputs = await recipeTask.run('recipe', { recipe, inputs });
+            setResults(outputs.map(output => addDocument(toPdfFile(output.bytes, output.name), 'recipes')));
+        } catch (e) {
+            if (isTaskCancelled(e)) return;
+            console.error(e);
+            // Erros vindos do worker chegam como PdfTaskError, então a classe original é identificada pelo nome.
+            setError((e as Error).name === 'PageRangeError' ? (e as Error).message : 'Ocorreu um erro ao executar a receita. Verifique se os arquivos são PDFs válidos.');
+        }
+    }, [recipe, files, addDocument, recipeTask.run]);
+
+    return (
+        <div
+            className="relative bg-slate-800/50 p-6 md:p-8 rounded-2xl shadow-xl w-full mx-auto animate-fade-in"
+            onDragEnter={(e) => handleDragEvents(e, 'enter')} onDragLeave={(e) => handleDragEvents(e, 'leave')} onDragOver={(e) => handleDragEvents(e, 'over')} onDrop={(e) => handleDragEvents(e, 'drop')}
+        >
+            {isDragging && (
+                <div className="absolute inset-0 bg-slate-900/80 backdrop-blur-sm flex items-center justify-center rounded-2xl z-20 pointer-events-none">
+                    <div className="text-center"><UploadIcon className="mx-auto w-16 h-16 text-indigo-400" /><p className="mt-4 text-lg font-semibold text-slate-200">Solte o lote de PDFs aqui</p></div>
+                </div>
+            )}
+            <div className="flex flex-col lg:flex-row gap-6">
+                {/* Receitas salvas */}
+                <div className="lg:w-1/3 space-y-4">
+                    <div className="p-4 bg-slate-700/50 rounded-lg">
+                        <h4 className="font-semibold text-slate-200 mb-3">Receitas Salvas</h4>
+                        <div className="space-y-2">
+                            {recipes.map(r => (
+                                <button key={r.id} onClick={() => setSelectedId(r.id)} className={`w-full text-left p-2 rounded text-sm ${r.id === selectedId ? 'bg-indigo-600' : 'bg-slate-600 hover:bg-slate-500'}`}>
+                                    {r.name}
+                                    <span className="block text-xs text-slate-300">{r.steps.length} passos · {r.outputMode === 'combined' ? 'um arquivo combinado' : 'um arquivo por entrada'}</span>
+                                </button>
+                            ))}
+                        </div>
+                        <button onClick={addRecipe} className="w-full mt-3 p-2 text-sm font-semibold rounded bg-slate-600 hover:bg-slate-500">Nova Receita</button>
+                    </div>
+                </div>
+
+                {/* Editor da receita */}
+                <div className="lg:w-2/3 space-y-4">
+                    {recipe ? (
+                        <div className="p-4 bg-slate-700/50 rounded-lg space-y-3">
+                            <div className="flex gap-2">
+                                <input type="text" value={recipe.name} onChange={e => updateRecipe({ name: e.target.value })} className="flex-grow bg-slate-800 border border-slate-600 rounded-md p-2 text-sm font-semibold" />
+                                <button onClick={deleteRecipe} className="p-2 bg-slate-600 rounded hover:bg-red-600" title="Excluir receita"><TrashIcon className="w-4 h-4" /></button>
+                            </div>
+                            <div>
+                                <label htmlFor="recipe-output" className="block text-sm font-medium text-slate-400 mb-1">Saída</label>
+                                <select id="recipe-output" value={recipe.outputMode} onChange={e => updateRecipe({ outputMode: e.target.value as Recipe['outputMode'] })} className="w-full bg-slate-800 border-slate-600 rounded-md p-2 text-sm">
+                                    <option value="combined">Juntar o lote e gerar um único PDF</option>
+                                    <option value="perInput">Gerar um PDF para cada arquivo</option>
+                                </select>
+                            </div>
+                            <ol className="space-y-2">
+                                {recipe.steps.map((step, index) => (
+                                    <li key={index} className="flex flex-wrap items-center gap-2 p-2 bg-slate-800/60 rounded">
+                                        <span className="text-xs font-bold text-slate-400 w-5">{index + 1}.</span>
+                                        <span className="text-sm text-slate-200 mr-auto">{STEP_LABELS[step.type]}</span>
+                                        <StepOptions step={step} onChange={updated => updateStep(index, updated)} />
+                                        <button onClick={() => moveStep(index, -1)} disabled={index === 0} className="px-2 py-1 text-xs bg-slate-600 rounded hover:bg-slate-500 disabled:opacity-40">↑</button>
+                                        <button onClick={() => moveStep(index, 1)} disabled={index === recipe.steps.length - 1} className="px-2 py-1 text-xs bg-slate-600 rounded hover:bg-slate-500 disabled:opacity-40">↓</button>
+                                        <button onClick={() => updateRecipe({ steps: recipe.steps.filter((_, i) => i !== index) })} className="p-1 text-slate-400 hover:text-red-500"><TrashIcon className="w-4 h-4" /></button>
+                                    </li>
+                                ))}
+                            </ol>
+                            <div className="flex flex-wrap gap-2">
+                                {(Object.keys(STEP_LABELS) as RecipeStepType[]).map(type => (
+                                    <button key={type} onClick={() => updateRecipe({ steps: [...recipe.steps, createStep(type)] })} className="px-3 py-1 bg-slate-600 text-xs font-semibold rounded-md hover:bg-slate-500 transition-colors">
+                                        + {STEP_LABELS[type]}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                    ) : (
+                        <p className="text-slate-400 text-sm">Crie uma receita para começar.</p>
+                    )}
+
+                    {/* Lote de arquivos */}
+                    <div className="p-4 bg-slate-700/50 rounded-lg">
+                        <div className="flex items-center justify-between mb-3">
+                            <h4 className="font-semibold text-slate-200">Lote ({files.length})</h4>
+                            <div className="flex gap-2">
+                                {documents.length > 0 && (
+                                    <button onClick={() => processFiles(documents.map(d => d.file))} className="px-3 py-1 bg-slate-600 text-xs font-semibold rounded-md hover:bg-slate-500">Usar espaço de trabalho</button>
+                                )}
+                                {files.length > 0 && (
+                                    <button onClick={() => { setFiles([]); setResults([]); }} className="px-3 py-1 bg-slate-600 text-xs font-semibold rounded-md hover:bg-slate-500">Limpar</button>
+                                )}
+                            </div>
+                        </div>
+                        <ul className="space-y-1 mb-3">
+                            {files.map((file, index) => (
+                                <li key={file.name + index} className="flex items-center gap-2 text-sm text-slate-300">
+                                    <FileIcon className="w-4 h-4 text-indigo-400 flex-shrink-0" />
+                                    <span className="truncate flex-grow">{file.name}</span>
+                                    <span className="text-xs text-slate-500 font-mono">{formatBytes(file.size)}</span>
+                                    <button onClick={() => setFiles(prev => prev.filter((_, i) => i !== index))} className="p-1 text-slate-400 hover:text-red-500"><TrashIcon className="w-3 h-3" /></button>
+                                </li>
+                            ))}
+                        </ul>
+                        <label htmlFor="recipe-upload" className="block cursor-pointer">
+                            <div className="border-2 border-dashed border-slate-600 rounded-lg p-4 text-center hover:border-indigo-500 hover:bg-slate-800 transition-colors duration-300">
+                                <p className="text-sm text-slate-300"><span className="font-semibold text-indigo-400">Clique para carregar</span> ou arraste e solte os PDFs do lote</p>
+                            </div>
+                        </label>
+                        <input id="recipe-upload" type="file" accept="application/pdf" multiple className="hidden" onChange={handleFileChange} />
+                    </div>
+                </div>
+            </div>
+
+            <div className="flex flex-col items-center mt-6">
+                {error && <p className="text-red-400 mb-4 text-sm">{error}</p>}
+                {recipeTask.isRunning ? (
+                    <TaskProgress label="Executando receita..." progress={recipeTask.progress} onCancel={recipeTask.cancel} />
+                ) : (
+                    <button
+                        onClick={run}
+                        disabled={!recipe || files.length === 0}
+                        className="w-full md:w-auto px-8 py-3 bg-indigo-600 text-white font-bold rounded-lg shadow-lg hover:bg-indigo-700 disabled:bg-slate-600 disabled:cursor-not-allowed transition-all duration-300 flex items-center justify-center gap-2"
+                    >
+                        <RecipeIcon className="w-5 h-5" /> Executar Receita
+                    </button>
+                )}
+                {results.map(result => <WorkspaceResult key={result.id} document={result} />)}
+            </div>
+        </div>
+    );
+};
+
+export default RecipeRunner;
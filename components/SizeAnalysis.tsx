@@ -0,0 +1,147 @@
+import React from 'react';
+import { formatBytes } from '../lib/format';
+import type { SizeCategory, SizeReport } from '../lib/sizeAnalysis';
+
+interface SizeAnalysisProps {
+    report: SizeReport;
+}
+
+const CATEGORY_LABELS: Record<SizeCategory, { label: string; color: string }> = {
+    images: { label: 'Imagens', color: 'bg-indigo-500' },
+    fonts: { label: 'Fontes', color: 'bg-sky-500' },
+    content: { label: 'Conteúdo das páginas', color: 'bg-emerald-500' },
+    attachments: { label: 'Anexos', color: 'bg-amber-500' },
+    metadata: { label: 'Metadados', color: 'bg-fuchsia-500' },
+    unused: { label: 'Objetos não usados', color: 'bg-red-500' },
+    other: { label: 'Estrutura e anotações', color: 'bg-slate-400' },
+    overhead: { label: 'Tabelas e revisões anteriores', color: 'bg-slate-600' },
+};
+
+// Acima disso, vale a pena recomprimir as imagens.
+const HIGH_IMAGE_DPI = 200;
+// Quantas imagens mostrar na lista, das maiores para as menores.
+const LISTED_IMAGES = 10;
+
+// Sugestões do que fazer, a partir do que mais pesa no arquivo.
+const suggestionsFor = (report: SizeReport): string[] => {
+    const { categories, fileSize } = report;
+    const share = (bytes: number) => bytes / Math.max(fileSize, 1);
+    const suggestions: string[] = [];
+
+    if (share(categories.images) > 0.3) {
+        const highResolution = report.images.filter(image => image.dpi !== null && image.dpi > HIGH_IMAGE_DPI).length;
+        suggestions.push(highResolution > 0
+            ? `${highResolution} ${highResolution === 1 ? 'imagem está' : 'imagens estão'} acima de ${HIGH_IMAGE_DPI} dpi: recomprimir as imagens deve reduzir o arquivo.`
+            : 'As imagens já estão em resolução moderada. Se for uma digitalização, rasterizar em tons de cinza ou preto e branco pode reduzir mais.');
+    }
+    const fullFonts = report.fonts.filter(font => font.embedded && !font.subset && font.type !== 'Type3');
+    if (fullFonts.length > 0 && share(categories.fonts) > 0.1) {
+        suggestions.push(`${fullFonts.length === 1 ? '1 fonte está embutida' : `${fullFonts.length} fontes estão embutidas`} por completo. Gerar o PDF de novo no programa de origem, com subconjunto de fontes, reduz o tamanho.`);
+    }
+    if (categories.attachments > 0) {
+        suggestions.push(`Os anexos ocupam ${formatBytes(categories.attachments)}; remova-os se não forem necessários.`);
+    }
+    if (share(categories.overhead) > 0.2) {
+        suggestions.push('Boa parte do arquivo são revisões anteriores (edições salvas de forma incremental). Comprimir regrava o PDF e as descarta.');
+    }
+    if (categories.unused > 0) {
+        suggestions.push(`${report.unusedObjects} ${report.unusedObjects === 1 ? 'objeto não é usado' : 'objetos não são usados'} por nenhuma página (${formatBytes(categories.unused)}).`);
+    }
+    if (suggestions.length === 0) {
+        suggestions.push('Nada se destaca: o arquivo já parece enxuto.');
+    }
+    return suggestions;
+};
+
+// Relatório do que ocupa espaço no PDF, para decidir qual ação de fato reduz o tamanho.
+const SizeAnalysis: React.FC<SizeAnalysisProps> = ({ report }) => {
+    const categories = (Object.keys(CATEGORY_LABELS) as SizeCategory[])
+        .filter(category => report.categories[category] > 0)
+        .sort((a, b) => report.categories[b] - report.categories[a]);
+    const total = categories.reduce((sum, category) => sum + report.categories[category], 0);
+
+    return (
+        <div className="mt-6 bg-slate-700/50 p-4 rounded-lg w-full max-w-2xl text-left animate-fade-in">
+            <h4 className="font-semibold text-slate-200">O que ocupa espaço</h4>
+            <p className="text-xs text-slate-500">Valores aproximados · arquivo de {formatBytes(report.fileSize)}</p>
+
+            <div className="flex h-3 rounded-full overflow-hidden mt-3 bg-slate-800">
+                {categories.map(category => (
+                    <div
+                        key={category}
+                        className={CATEGORY_LABELS[category].color}
+                        style={{ width: `${(report.categories[category] / total) * 100}%` }}
+                        title={CATEGORY_LABELS[category].label}
+                    />
+                ))}
+            </div>
+            <ul className="mt-3 grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-1">
+                {categories.map(category => (
+                    <li key={category} className="flex items-center gap-2 text-xs text-slate-300">
+                        <span className={`w-2 h-2 rounded-full flex-shrink-0 ${CATEGORY_LABELS[category].color}`} />
+                        <span className="flex-grow">{CATEGORY_LABELS[category].label}</span>
+                        <span className="font-mono text-slate-400">{formatBytes(report.categories[category])}</span>
+                        <span className="font-mono text-slate-500 w-10 text-right">{Math.round((report.categories[category] / total) * 100)}%</span>
+                    </li>
+                ))}
+            </ul>
+
+            <ul className="mt-4 space-y-1 list-disc list-inside text-sm text-indigo-300">
+                {suggestionsFor(report).map(suggestion => <li key={suggestion}>{suggestion}</li>)}
+            </ul>
+
+            {report.images.length > 0 && (
+                <div className="mt-4">
+                    <h5 className="text-sm font-semibold text-slate-300">Imagens ({report.images.length})</h5>
+                    <table className="w-full mt-1 text-xs text-slate-400">
+                        <tbody>
+                            {report.images.slice(0, LISTED_IMAGES).map(image => (
+                                <tr key={image.id} className="border-t border-slate-600/50">
+                                    <td className="py-1 font-mono">{image.width} × {image.height}</td>
+                                    <td className="py-1">{image.dpi === null ? 'não exibida' : `${image.dpi} dpi`}</td>
+                                    <td className="py-1">{image.filter}</td>
+                                    <td className="py-1 font-mono text-right">{formatBytes(image.bytes)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    {report.images.length > LISTED_IMAGES && (
+                        <p className="text-xs text-slate-500 mt-1">e mais {report.images.length - LISTED_IMAGES} imagens menores</p>
+                    )}
+                </div>
+            )}
+
+            {report.fonts.length > 0 && (
+                <div className="mt-4">
+                    <h5 className="text-sm font-semibold text-slate-300">Fontes ({report.fonts.length})</h5>
+                    <ul className="mt-1 space-y-1 max-h-40 overflow-y-auto">
+                        {report.fonts.map((font, index) => (
+                            <li key={`${font.name}-${index}`} className="flex justify-between gap-4 text-xs text-slate-400">
+                                <span className="truncate">
+                                    {font.name} <span className="text-slate-500">· {font.type} · {!font.embedded ? 'não embutida' : font.subset ? 'subconjunto' : 'completa'}</span>
+                                </span>
+                                <span className="font-mono flex-shrink-0">{formatBytes(font.bytes)}</span>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
+            {report.attachments.length > 0 && (
+                <div className="mt-4">
+                    <h5 className="text-sm font-semibold text-slate-300">Anexos ({report.attachments.length})</h5>
+                    <ul className="mt-1 space-y-1">
+                        {report.attachments.map((attachment, index) => (
+                            <li key={`${attachment.name}-${index}`} className="flex justify-between gap-4 text-xs text-slate-400">
+                                <span className="truncate">{attachment.name}</span>
+                                <span className="font-mono flex-shrink-0">{formatBytes(attachment.bytes)}</span>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default SizeAnalysis;
@@ -0,0 +1,53 @@
+import React from 'react';
+import type { OperationProgress, ProgressUnit } from '../lib/pdfOperations';
+import { SpinnerIcon } from './Icons';
+
+const UNIT_LABELS: Record<ProgressUnit, string> = {
+    file: 'Arquivo',
+    page: 'Página',
+    image: 'Imagem',
+    step: 'Passo',
+};
+
+export const describeProgress = (progress: OperationProgress | null) => {
+    if (!progress) return 'Preparando...';
+    if (progress.stage === 'saving') return 'Gravando o PDF...';
+    const count = `${UNIT_LABELS[progress.unit]} ${progress.current} de ${progress.total}`;
+    return progress.detail ? `${progress.detail}: ${count}` : count;
+};
+
+interface TaskProgressProps {
+    label: string;
+    progress: OperationProgress | null;
+    onCancel?: () => void;
+}
+
+// Barra de progresso com botão de cancelar, usada enquanto uma tarefa de PDF está em execução.
+const TaskProgress: React.FC<TaskProgressProps> = ({ label, progress, onCancel }) => {
+    const percent = progress && progress.total > 0
+        ? Math.round((progress.stage === 'saving' ? 1 : progress.current / progress.total) * 100)
+        : 0;
+
+    return (
+        <div className="w-full max-w-md mx-auto bg-slate-700/50 p-4 rounded-lg animate-fade-in">
+            <div className="flex items-center gap-2 text-slate-200 font-semibold">
+                <SpinnerIcon />
+                <span className="flex-grow">{label}</span>
+                <span className="text-xs font-mono text-slate-400">{percent}%</span>
+            </div>
+            <div className="w-full h-2 bg-slate-800 rounded-full mt-3 overflow-hidden">
+                <div className="h-full bg-indigo-500 transition-all duration-300" style={{ width: `${percent}%` }} />
+            </div>
+            <div className="flex items-center justify-between mt-2 gap-2">
+                <p className="text-xs text-slate-400 truncate">{describeProgress(progress)}</p>
+                {onCancel && (
+                    <button onClick={onCancel} className="px-3 py-1 bg-slate-600 text-xs font-semibold rounded-md hover:bg-red-600 transition-colors flex-shrink-0">
+                        Cancelar
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default TaskProgress;
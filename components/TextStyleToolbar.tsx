@@ -0,0 +1,87 @@
+import React from 'react';
+import { STANDARD_FONT_FAMILIES, StandardFontFamily, TextAlign, isStandardFontFamily } from '../lib/pageText';
+
+export interface TextStyle {
+    fontSize: number; // pt
+    font: string; // família padrão ou id de uma fonte enviada
+    bold: boolean;
+    italic: boolean;
+    color: string; // #rrggbb
+    align: TextAlign;
+}
+
+// Fonte TTF/OTF enviada no editor; os bytes são lidos do arquivo a cada salvamento.
+export interface UploadedFont {
+    id: string;
+    name: string;
+    file: File;
+}
+
+interface TextStyleToolbarProps {
+    style: TextStyle;
+    fonts: UploadedFont[];
+    hasSelection: boolean; // false: o estilo vale para os próximos textos
+    onChange: (patch: Partial<TextStyle>) => void;
+    onUploadFont: (file: File) => void;
+}
+
+export const DEFAULT_TEXT_STYLE: TextStyle = { fontSize: 12, font: 'helvetica', bold: false, italic: false, color: '#000000', align: 'left' };
+
+const FONT_LABELS: Record<StandardFontFamily, string> = {
+    helvetica: 'Helvetica',
+    times: 'Times',
+    courier: 'Courier',
+};
+
+const CSS_FONT_FAMILIES: Record<StandardFontFamily, string> = {
+    helvetica: 'Helvetica, Arial, sans-serif',
+    times: '"Times New Roman", Times, serif',
+    courier: '"Courier New", Courier, monospace',
+};
+
+const ALIGN_LABELS: Record<TextAlign, string> = { left: 'Esquerda', center: 'Centro', right: 'Direita' };
+
+// Nome com que a fonte enviada é registrada no navegador (FontFace), para o texto aparecer nela na tela.
+export const fontFaceName = (fontId: string) => `rd-pdf-${fontId}`;
+
+export const cssFontFamily = (font: string) => (isStandardFontFamily(font) ? CSS_FONT_FAMILIES[font] : `"${fontFaceName(font)}"`);
+
+const toggleClass = (active: boolean) =>
+    `px-2 py-1 rounded text-sm ${active ? 'bg-indigo-600 text-white' : 'bg-slate-600 hover:bg-slate-500'} disabled:opacity-40 disabled:cursor-not-allowed`;
+
+// Barra de propriedades do texto do editor: fonte, tamanho, cor, negrito/itálico e alinhamento.
+const TextStyleToolbar: React.FC<TextStyleToolbarProps> = ({ style, fonts, hasSelection, onChange, onUploadFont }) => {
+    // Fontes enviadas têm um arquivo por variante; negrito e itálico só existem nas fontes padrão.
+    const isCustomFont = !isStandardFontFamily(style.font);
+
+    return (
+        <div className="w-full flex flex-wrap items-center gap-2 mb-3 text-slate-300">
+            <span className="text-xs text-slate-500">{hasSelection ? 'Texto selecionado:' : 'Próximos textos:'}</span>
+            <select value={style.font} onChange={(e) => onChange({ font: e.target.value })} className="bg-slate-800 border-slate-600 rounded-md p-1 text-sm">
+                {STANDARD_FONT_FAMILIES.map(family => <option key={family} value={family}>{FONT_LABELS[family]}</option>)}
+                {fonts.map(font => <option key={font.id} value={font.id}>{font.name}</option>)}
+            </select>
+            <label className="px-2 py-1 bg-slate-600 rounded text-sm cursor-pointer hover:bg-slate-500" title="Fonte com acentos e símbolos que as fontes padrão não têm">
+                Enviar fonte
+                <input type="file" accept=".ttf,.otf,font/ttf,font/otf" className="hidden" onChange={(e) => { const file = e.target.files?.[0]; if (file) onUploadFont(file); e.target.value = ''; }} />
+            </label>
+            <input
+                type="number"
+                min={4}
+                max={144}
+                value={style.fontSize}
+                onChange={(e) => onChange({ fontSize: Math.max(4, Math.min(144, Number(e.target.value) || DEFAULT_TEXT_STYLE.fontSize)) })}
+                className="w-16 bg-slate-800 border border-slate-600 rounded-md p-1 text-sm"
+                title="Tamanho (pt)"
+            />
+            <input type="color" value={style.color} onChange={(e) => onChange({ color: e.target.value })} className="w-8 h-8 bg-transparent cursor-pointer" title="Cor" />
+            <button onClick={() => onChange({ bold: !style.bold })} disabled={isCustomFont} className={`${toggleClass(style.bold)} font-bold`} title="Negrito">N</button>
+            <button onClick={() => onChange({ italic: !style.italic })} disabled={isCustomFont} className={`${toggleClass(style.italic)} italic`} title="Itálico">I</button>
+            {(Object.keys(ALIGN_LABELS) as TextAlign[]).map(align => (
+                <button key={align} onClick={() => onChange({ align })} className={toggleClass(style.align === align)}>{ALIGN_LABELS[align]}</button>
+            ))}
+        </div>
+    );
+};
+
+export default TextStyleToolbar;
@@ -0,0 +1,26 @@
+import React, { useEffect, useState } from 'react';
+import { applyUpdate, subscribeToUpdates } from '../lib/serviceWorker';
+
+// Aviso fixo exibido quando o service worker baixou uma nova versão do app.
+const UpdatePrompt: React.FC = () => {
+    const [updateAvailable, setUpdateAvailable] = useState(false);
+    const [dismissed, setDismissed] = useState(false);
+
+    useEffect(() => subscribeToUpdates(waiting => setUpdateAvailable(waiting !== null)), []);
+
+    if (!updateAvailable || dismissed) return null;
+
+    return (
+        <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 flex items-center gap-3 bg-slate-800 border border-indigo-500 rounded-lg shadow-xl px-4 py-3 animate-fade-in">
+            <p className="text-sm text-slate-200">Nova versão disponível.</p>
+            <button onClick={applyUpdate} className="px-3 py-1 bg-indigo-600 text-xs font-semibold rounded-md hover:bg-indigo-700 transition-colors">
+                Recarregar
+            </button>
+            <button onClick={() => setDismissed(true)} className="px-3 py-1 bg-slate-600 text-xs font-semibold rounded-md hover:bg-slate-500 transition-colors">
+                Depois
+            </button>
+        </div>
+    );
+};
+
+export default UpdatePrompt;
@@ -0,0 +1,60 @@
+import React, { useState } from 'react';
+import { saveAs } from 'file-saver';
+import { useWorkspace, PDF_TOOLS, TOOL_LABELS } from '../context/WorkspaceContext';
+import { formatBytes } from '../lib/format';
+import { DownloadIcon, FileIcon, TrashIcon } from './Icons';
+import DocumentPropertiesPanel from './DocumentPropertiesPanel';
+
+// Lista os documentos da sessão, permitindo reabri-los na ferramenta ativa sem novo upload.
+const WorkspacePanel: React.FC = () => {
+    const { documents, currentDocumentId, activeTool, openDocument, removeDocument } = useWorkspace();
+    const [isOpen, setIsOpen] = useState(false);
+    const [propertiesId, setPropertiesId] = useState<string | null>(null);
+
+    if (documents.length === 0) return null;
+
+    const canOpenHere = PDF_TOOLS.includes(activeTool);
+
+    return (
+        <div className="bg-slate-800 rounded-xl shadow-md mb-8">
+            <button onClick={() => setIsOpen(prev => !prev)} className="w-full flex items-center justify-between px-4 py-3 text-sm font-semibold text-slate-300 hover:text-white">
+                <span>Espaço de trabalho ({documents.length} {documents.length === 1 ? 'documento' : 'documentos'})</span>
+                <span className="text-xs text-slate-500">{isOpen ? 'Ocultar' : 'Mostrar'}</span>
+            </button>
+            {isOpen && (
+                <ul className="px-4 pb-4 space-y-2">
+                    {documents.map(doc => (
+                        <li key={doc.id} className={`p-2 rounded-lg ${doc.id === currentDocumentId ? 'bg-indigo-600/20 border border-indigo-500/50' : 'bg-slate-700/50'}`}>
+                            <div className="flex items-center gap-3">
+                                <FileIcon />
+                                <div className="min-w-0 flex-grow">
+                                    <p className="text-sm text-slate-200 truncate">{doc.file.name}</p>
+                                    <p className="text-xs text-slate-500 font-mono">
+                                        {formatBytes(doc.file.size)} · {doc.origin === 'upload' ? 'enviado' : TOOL_LABELS[doc.origin]}
+                                    </p>
+                                </div>
+                                {canOpenHere && (
+                                    <button onClick={() => openDocument(doc.id)} className="px-3 py-1 bg-slate-600 text-xs font-semibold rounded-md hover:bg-slate-500 transition-colors flex-shrink-0">
+                                        Abrir em {TOOL_LABELS[activeTool]}
+                                    </button>
+                                )}
+                                <button onClick={() => setPropertiesId(prev => (prev === doc.id ? null : doc.id))} className="px-3 py-1 bg-slate-600 text-xs font-semibold rounded-md hover:bg-slate-500 transition-colors flex-shrink-0">
+                                    Propriedades
+                                </button>
+                                <button onClick={() => saveAs(doc.file, doc.file.name)} className="p-1 text-slate-400 hover:text-indigo-400 flex-shrink-0" title="Baixar">
+                                    <DownloadIcon className="w-4 h-4" />
+                                </button>
+                                <button onClick={() => removeDocument(doc.id)} className="p-1 text-slate-400 hover:text-red-500 flex-shrink-0" title="Remover">
+                                    <TrashIcon className="w-4 h-4" />
+                                </button>
+                            </div>
+                            {propertiesId === doc.id && <DocumentPropertiesPanel document={doc} />}
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+export default WorkspacePanel;
@@ -0,0 +1,48 @@
+import React, { useState } from 'react';
+import { saveAs } from 'file-saver';
+import { useWorkspace, PDF_TOOLS, TOOL_LABELS, WorkspaceDocument } from '../context/WorkspaceContext';
+import { formatBytes } from '../lib/format';
+import { DownloadIcon, FileIcon } from './Icons';
+import DocumentPropertiesPanel from './DocumentPropertiesPanel';
+
+interface WorkspaceResultProps {
+    document: WorkspaceDocument;
+}
+
+// Cartão exibido ao final de cada ferramenta: o resultado fica no espaço de trabalho e pode ser baixado ou levado adiante.
+const WorkspaceResult: React.FC<WorkspaceResultProps> = ({ document: result }) => {
+    const { documents, activeTool, openDocument } = useWorkspace();
+    const [showProperties, setShowProperties] = useState(false);
+    // Versão atual do documento: editar as propriedades troca o arquivo no espaço de trabalho.
+    const document = documents.find(d => d.id === result.id) ?? result;
+    const nextTools = PDF_TOOLS.filter(tool => tool !== activeTool);
+
+    return (
+        <div className="mt-6 bg-slate-700/50 p-4 rounded-lg w-full max-w-xl mx-auto animate-fade-in">
+            <div className="flex items-center gap-3">
+                <FileIcon />
+                <div className="min-w-0 flex-grow">
+                    <p className="text-sm font-semibold text-slate-200 truncate">{document.file.name}</p>
+                    <p className="text-xs text-slate-400 font-mono">{formatBytes(document.file.size)} · mantido no espaço de trabalho</p>
+                </div>
+                <button onClick={() => setShowProperties(prev => !prev)} className="px-3 py-2 bg-slate-600 text-sm font-semibold rounded-md hover:bg-slate-500 transition-colors flex-shrink-0">
+                    Propriedades
+                </button>
+                <button onClick={() => saveAs(document.file, document.file.name)} className="px-3 py-2 bg-indigo-600 text-sm font-semibold rounded-md hover:bg-indigo-700 transition-colors flex items-center gap-2 flex-shrink-0">
+                    <DownloadIcon className="w-4 h-4" /> Baixar
+                </button>
+            </div>
+            {showProperties && <DocumentPropertiesPanel document={document} />}
+            <div className="flex flex-wrap items-center gap-2 mt-3 pt-3 border-t border-slate-600">
+                <span className="text-xs text-slate-400">Continuar em:</span>
+                {nextTools.map(tool => (
+                    <button key={tool} onClick={() => openDocument(document.id, tool)} className="px-3 py-1 bg-slate-600 text-xs font-semibold rounded-md hover:bg-slate-500 transition-colors">
+                        {TOOL_LABELS[tool]}
+                    </button>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default WorkspaceResult;
@@ -0,0 +1,48 @@
+import React from 'react';
+import { saveAs } from 'file-saver';
+import { formatBytes } from '../lib/format';
+import { DownloadIcon, FileIcon } from './Icons';
+
+export interface ZipArchive {
+    file: File;
+    files: Array<{ name: string; size: number }>;
+}
+
+interface ZipResultProps {
+    archive: ZipArchive;
+    limit?: number; // bytes; arquivos acima dele são destacados
+}
+
+// Cartão de resultado para saídas com vários arquivos. O ZIP não entra no espaço de trabalho, que só guarda PDFs.
+const ZipResult: React.FC<ZipResultProps> = ({ archive, limit }) => {
+    const oversized = limit === undefined ? [] : archive.files.filter(({ size }) => size > limit);
+    return (
+        <div className="mt-6 bg-slate-700/50 p-4 rounded-lg w-full max-w-xl mx-auto animate-fade-in">
+            <div className="flex items-center gap-3">
+                <FileIcon />
+                <div className="min-w-0 flex-grow">
+                    <p className="text-sm font-semibold text-slate-200 truncate">{archive.file.name}</p>
+                    <p className="text-xs text-slate-400 font-mono">{archive.files.length} arquivos · {formatBytes(archive.file.size)}</p>
+                </div>
+                <button onClick={() => saveAs(archive.file, archive.file.name)} className="px-3 py-2 bg-indigo-600 text-sm font-semibold rounded-md hover:bg-indigo-700 transition-colors flex items-center gap-2 flex-shrink-0">
+                    <DownloadIcon className="w-4 h-4" /> Baixar ZIP
+                </button>
+            </div>
+            {limit !== undefined && oversized.length > 0 && (
+                <p className="text-xs text-amber-400 mt-3">
+                    {oversized.length === 1 ? '1 arquivo ficou' : `${oversized.length} arquivos ficaram`} acima de {formatBytes(limit)}: são páginas que sozinhas já passam do limite.
+                </p>
+            )}
+            <ul className="mt-3 pt-3 border-t border-slate-600 max-h-40 overflow-y-auto space-y-1">
+                {archive.files.map(({ name, size }) => (
+                    <li key={name} className={`flex justify-between gap-4 text-xs ${limit !== undefined && size > limit ? 'text-amber-400' : 'text-slate-400'}`}>
+                        <span className="truncate">{name}</span>
+                        <span className="font-mono flex-shrink-0">{formatBytes(size)}</span>
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
+
+export default ZipResult;
@@ -0,0 +1,109 @@
+import React, { createContext, useCallback, useContext, useMemo, useRef, useState } from 'react';
+import PasswordPrompt from '../components/PasswordPrompt';
+import { toPdfFile } from '../lib/format';
+import { isPdfEncrypted } from '../lib/pdfSecurity';
+import { runPdfTask } from '../lib/pdfWorkerClient';
+
+interface PasswordRequest {
+    id: number;
+    fileName: string;
+    error: string | null;
+    unsupported: boolean;
+    isChecking: boolean;
+    resolve: (password: string | null) => void;
+}
+
+interface PdfPasswordContextValue {
+    unlockPdf: (file: File) => Promise<File | null>;
+}
+
+const PdfPasswordContext = createContext<PdfPasswordContextValue | null>(null);
+
+// Abre PDFs protegidos por senha: pede a senha quando necessário e devolve uma cópia decifrada,
+// que tanto o pdf.js (miniaturas) quanto o pdf-lib (operações) conseguem ler.
+export const PdfPasswordProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+    const [request, setRequest] = useState<PasswordRequest | null>(null);
+    // Cópias já decifradas, para não pedir a senha de novo quando o mesmo arquivo volta a ser aberto.
+    const unlockedRef = useRef(new WeakMap<File, File>());
+    // Um pedido de senha por vez, mesmo quando vários arquivos protegidos chegam juntos.
+    const queueRef = useRef<Promise<unknown>>(Promise.resolve());
+    const requestIdRef = useRef(0);
+
+    const askPassword = (fileName: string, error: string | null, unsupported = false) =>
+        new Promise<string | null>(resolve => {
+            setRequest({ id: ++requestIdRef.current, fileName, error, unsupported, isChecking: false, resolve });
+        });
+
+    const unlock = async (file: File): Promise<File | null> => {
+        const cached = unlockedRef.current.get(file);
+        if (cached) return cached;
+        if (!(await isPdfEncrypted(await file.arrayBuffer()))) return file;
+
+        // Muitos PDFs são protegidos só contra edição e abrem com a senha vazia, sem perguntar nada.
+        let password = '';
+        try {
+            while (true) {
+                try {
+                    const decrypted = await runPdfTask('decrypt', { bytes: await file.arrayBuffer(), password });
+                    const unlocked = toPdfFile(decrypted, file.name);
+                    unlockedRef.current.set(file, unlocked);
+                    unlockedRef.current.set(unlocked, unlocked);
+                    return unlocked;
+                } catch (e) {
+                    const { name, message } = e as Error;
+                    if (name === 'UnsupportedEncryptionError') {
+                        await askPassword(file.name, message, true);
+                        return null;
+                    }
+                    if (name !== 'PdfPasswordError') throw e;
+                    const next = await askPassword(file.name, password === '' ? null : message);
+                    if (next === null) return null;
+                    password = next;
+                }
+            }
+        } finally {
+            setRequest(null);
+        }
+    };
+
+    // Devolve o próprio arquivo se ele não estiver protegido, a cópia decifrada se estiver,
+    // ou null se o usuário desistir de informar a senha.
+    const unlockPdf = useCallback((file: File) => {
+        const result = queueRef.current.then(() => unlock(file));
+        queueRef.current = result.catch(() => undefined);
+        return result;
+    }, []);
+
+    const value = useMemo<PdfPasswordContextValue>(() => ({ unlockPdf }), [unlockPdf]);
+
+    const submit = (password: string) => {
+        if (!request) return;
+        setRequest({ ...request, isChecking: true });
+        request.resolve(password);
+    };
+
+    return (
+        <PdfPasswordContext.Provider value={value}>
+            {children}
+            {request && (
+                <PasswordPrompt
+                    key={request.id}
+                    fileName={request.fileName}
+                    error={request.error}
+                    unsupported={request.unsupported}
+                    isChecking={request.isChecking}
+                    onSubmit={submit}
+                    onCancel={() => request.resolve(null)}
+                />
+            )}
+        </PdfPasswordContext.Provider>
+    );
+};
+
+export const useUnlockPdf = () => {
+    const context = useContext(PdfPasswordContext);
+    if (!context) {
+        throw new Error('useUnlockPdf must be used within a PdfPasswordProvider');
+    }
+    return context.unlockPdf;
+};
@@ -0,0 +1,174 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import type { Tool } from '../types';
+import { releaseThumbnails } from '../lib/thumbnailCache';
+
+export type DocumentOrigin = Tool | 'upload';
+
+export interface WorkspaceDocument {
+    id: string;
+    file: File;
+    origin: DocumentOrigin;
+    addedAt: number;
+}
+
+// Arquivos a entregar para uma ferramenta: um documento do espaço de trabalho ou arquivos recebidos
+// de fora do app (abrir com / compartilhar).
+interface PendingOpen {
+    tool: Tool;
+    files: File[];
+}
+
+interface WorkspaceContextValue {
+    documents: WorkspaceDocument[];
+    currentDocumentId: string | null;
+    activeTool: Tool;
+    pendingOpen: PendingOpen | null;
+    selectTool: (tool: Tool) => void;
+    addDocument: (file: File, origin?: DocumentOrigin) => WorkspaceDocument;
+    removeDocument: (id: string) => void;
+    replaceDocumentFile: (id: string, file: File) => WorkspaceDocument | null;
+    openDocument: (id: string, tool?: Tool) => void;
+    openFiles: (files: File[], tool: Tool) => void;
+    clearPendingOpen: () => void;
+}
+
+// Ferramentas que trabalham sobre um PDF e podem receber o documento atual do espaço de trabalho.
+export const PDF_TOOLS: Tool[] = ['merge', 'split', 'compress', 'edit', 'protect', 'sanitize'];
+
+export const TOOL_LABELS: Record<Tool, string> = {
+    merge: 'Juntar PDFs',
+    split: 'Dividir PDF',
+    compress: 'Comprimir PDF',
+    edit: 'Editar PDF',
+    protect: 'Proteger PDF',
+    sanitize: 'Limpar PDF',
+    image: 'Imagem para PDF',
+    annotate: 'Anotar Imagem',
+    recipes: 'Receitas',
+};
+
+const WorkspaceContext = createContext<WorkspaceContextValue | null>(null);
+
+export const WorkspaceProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+    const [documents, setDocuments] = useState<WorkspaceDocument[]>([]);
+    const [currentDocumentId, setCurrentDocumentId] = useState<string | null>(null);
+    const [activeTool, setActiveTool] = useState<Tool>('merge');
+    const [pendingOpen, setPendingOpen] = useState<PendingOpen | null>(null);
+
+    // Espelho síncrono da lista, para que addDocument possa deduplicar e devolver o documento na hora.
+    const documentsRef = useRef<WorkspaceDocument[]>([]);
+    const currentDocumentIdRef = useRef<string | null>(null);
+
+    const updateDocuments = (next: WorkspaceDocument[]) => {
+        documentsRef.current = next;
+        setDocuments(next);
+    };
+
+    const updateCurrentDocument = (id: string | null) => {
+        currentDocumentIdRef.current = id;
+        setCurrentDocumentId(id);
+    };
+
+    const addDocument = useCallback((file: File, origin: DocumentOrigin = 'upload') => {
+        const existing = documentsRef.current.find(d => d.file === file);
+        if (existing) {
+            updateCurrentDocument(existing.id);
+            return existing;
+        }
+        const document: WorkspaceDocument = {
+            id: `doc-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+            file,
+            origin,
+            addedAt: Date.now(),
+        };
+        updateDocuments([...documentsRef.current, document]);
+        updateCurrentDocument(document.id);
+        return document;
+    }, []);
+
+    const removeDocument = useCallback((id: string) => {
+        const removed = documentsRef.current.find(d => d.id === id);
+        const remaining = documentsRef.current.filter(d => d.id !== id);
+        updateDocuments(remaining);
+        if (currentDocumentIdRef.current === id) {
+            updateCurrentDocument(remaining.length > 0 ? remaining[remaining.length - 1].id : null);
+        }
+        if (removed) {
+            setPendingOpen(prev => (prev?.files.includes(removed.file) ? null : prev));
+            releaseThumbnails(removed.file);
+        }
+    }, []);
+
+    // Troca o arquivo de um documento por uma nova versão (ex.: com outras propriedades), mantendo o lugar na lista.
+    const replaceDocumentFile = useCallback((id: string, file: File) => {
+        const previous = documentsRef.current.find(d => d.id === id);
+        if (!previous) return null;
+        const updated: WorkspaceDocument = { ...previous, file };
+        updateDocuments(documentsRef.current.map(d => (d.id === id ? updated : d)));
+        releaseThumbnails(previous.file);
+        return updated;
+    }, []);
+
+    const openDocument = useCallback((id: string, tool?: Tool) => {
+        const document = documentsRef.current.find(d => d.id === id);
+        if (!document) return;
+        const target = tool ?? activeTool;
+        updateCurrentDocument(id);
+        setActiveTool(target);
+        setPendingOpen({ tool: target, files: [document.file] });
+    }, [activeTool]);
+
+    const openFiles = useCallback((files: File[], tool: Tool) => {
+        setActiveTool(tool);
+        setPendingOpen({ tool, files });
+    }, []);
+
+    const selectTool = useCallback((tool: Tool) => {
+        setActiveTool(tool);
+        const current = documentsRef.current.find(d => d.id === currentDocumentIdRef.current);
+        setPendingOpen(current && PDF_TOOLS.includes(tool) ? { tool, files: [current.file] } : null);
+    }, []);
+
+    const clearPendingOpen = useCallback(() => setPendingOpen(null), []);
+
+    const value = useMemo<WorkspaceContextValue>(() => ({
+        documents,
+        currentDocumentId,
+        activeTool,
+        pendingOpen,
+        selectTool,
+        addDocument,
+        removeDocument,
+        replaceDocumentFile,
+        openDocument,
+        openFiles,
+        clearPendingOpen,
+    }), [documents, currentDocumentId, activeTool, pendingOpen, selectTool, addDocument, removeDocument, replaceDocumentFile, openDocument, openFiles, clearPendingOpen]);
+
+    return <WorkspaceContext.Provider value={value}>{children}</WorkspaceContext.Provider>;
+};
+
+export const useWorkspace = () => {
+    const context = useContext(WorkspaceContext);
+    if (!context) {
+        throw new Error('useWorkspace must be used within a WorkspaceProvider');
+    }
+    return context;
+};
+
+// Entrega à ferramenta os arquivos enviados para ela: pelo espaço de trabalho (troca de ferramenta ou
+// "Continuar em") ou pelo sistema operacional (abrir com / compartilhar).
+export const useWorkspaceDocument = (tool: Tool, onOpen: (files: File[]) => void) => {
+    const { pendingOpen, clearPendingOpen } = useWorkspace();
+    const onOpenRef = useRef(onOpen);
+    onOpenRef.current = onOpen;
+    // O StrictMode executa os efeitos duas vezes; guardamos o pedido já atendido para não abrir o arquivo em dobro.
+    const handledRef = useRef<PendingOpen | null>(null);
+
+    useEffect(() => {
+        if (!pendingOpen || pendingOpen.tool !== tool || handledRef.current === pendingOpen) return;
+        handledRef.current = pendingOpen;
+        clearPendingOpen();
+        onOpenRef.current(pendingOpen.files);
+    }, [pendingOpen, tool, clearPendingOpen]);
+};
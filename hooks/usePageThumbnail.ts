@@ -0,0 +1,30 @@
+import { useEffect, useState } from 'react';
+import { getCachedThumbnail, getPageThumbnail } from '../lib/thumbnailCache';
+
+// Devolve a URL da página renderizada assim que `enabled` for verdadeiro.
+// Se a página deixar de ser necessária antes de renderizar, o pedido é cancelado.
+export const usePageThumbnail = (file: File, pageNumber: number, scale: number, enabled = true) => {
+    const [url, setUrl] = useState<string | null>(() => getCachedThumbnail(file, pageNumber, scale));
+    const [failed, setFailed] = useState(false);
+
+    useEffect(() => {
+        setFailed(false);
+        const cached = getCachedThumbnail(file, pageNumber, scale);
+        setUrl(cached);
+        if (cached || !enabled) return;
+
+        const controller = new AbortController();
+        getPageThumbnail(file, pageNumber, scale, controller.signal)
+            .then(result => {
+                if (!controller.signal.aborted) setUrl(result);
+            })
+            .catch(e => {
+                if (controller.signal.aborted) return;
+                console.error(e);
+                setFailed(true);
+            });
+        return () => controller.abort();
+    }, [file, pageNumber, scale, enabled]);
+
+    return { url, failed };
+};
@@ -0,0 +1,35 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { OperationProgress } from '../lib/pdfOperations';
+import type { PdfTaskArgs, PdfTaskName, PdfTaskResult } from '../lib/pdfTasks';
+import { runPdfTask } from '../lib/pdfWorkerClient';
+
+// Executa tarefas no worker de PDF expondo progresso e cancelamento para a interface.
+// Desmontar o componente (trocar de ferramenta) cancela a tarefa em andamento.
+export const usePdfTask = () => {
+    const [isRunning, setIsRunning] = useState(false);
+    const [progress, setProgress] = useState<OperationProgress | null>(null);
+    const controllerRef = useRef<AbortController | null>(null);
+
+    const run = useCallback(async <K extends PdfTaskName>(task: K, args: PdfTaskArgs<K>): Promise<PdfTaskResult<K>> => {
+        controllerRef.current?.abort();
+        const controller = new AbortController();
+        controllerRef.current = controller;
+        setIsRunning(true);
+        setProgress(null);
+        try {
+            return await runPdfTask(task, args, { onProgress: setProgress, signal: controller.signal });
+        } finally {
+            if (controllerRef.current === controller) {
+                controllerRef.current = null;
+                setIsRunning(false);
+                setProgress(null);
+            }
+        }
+    }, []);
+
+    const cancel = useCallback(() => controllerRef.current?.abort(), []);
+
+    useEffect(() => () => controllerRef.current?.abort(), []);
+
+    return { run, cancel, isRunning, progress };
+};
@@ -2,6 +2,9 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { WorkspaceProvider } from './context/WorkspaceContext';
+import { PdfPasswordProvider } from './context/PdfPasswordContext';
+import { registerServiceWorker } from './lib/serviceWorker';
 import './index.css';
 
 const rootElement = document.getElementById('root');
@@ -12,6 +15,12 @@ if (!rootElement) {
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    <WorkspaceProvider>
+      <PdfPasswordProvider>
+        <App />
+      </PdfPasswordProvider>
+    </WorkspaceProvider>
   </React.StrictMode>
 );
+
+registerServiceWorker();
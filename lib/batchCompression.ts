@@ -0,0 +1,54 @@
+import { CompressOptions, PdfBytes, compressPdfWithReport } from './pdfOperations';
+import { NamedFile, createZip, uniqueNames } from './zip';
+
+// Compressão de vários PDFs de uma vez, com o resultado entregue em um único ZIP com os nomes originais.
+
+export interface BatchInput {
+    name: string;
+    bytes: PdfBytes;
+}
+
+// 'skipped': a compressão deixaria o arquivo maior, então o original vai para o ZIP sem alterações.
+// 'failed': o arquivo não pôde ser lido e fica de fora do ZIP.
+export type BatchStatus = 'compressed' | 'skipped' | 'failed';
+
+export interface BatchFileResult {
+    name: string;
+    originalSize: number;
+    resultSize: number;
+    status: BatchStatus;
+}
+
+export interface BatchArchive {
+    bytes: Uint8Array;
+    files: BatchFileResult[];
+}
+
+const toUint8Array = (bytes: PdfBytes) => (bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes));
+
+export const compressBatchToZip = async (inputs: BatchInput[], options: CompressOptions = {}): Promise<BatchArchive> => {
+    const { onProgress, ...compressOptions } = options;
+    const names = uniqueNames(inputs.map(input => input.name));
+    const outputs: NamedFile[] = [];
+    const files: BatchFileResult[] = [];
+
+    for (let i = 0; i < inputs.length; i++) {
+        onProgress?.({ stage: 'processing', unit: 'file', current: i + 1, total: inputs.length, detail: names[i] });
+        const original = toUint8Array(inputs[i].bytes);
+        const result: BatchFileResult = { name: names[i], originalSize: original.length, resultSize: 0, status: 'failed' };
+        try {
+            const { bytes } = await compressPdfWithReport(original, compressOptions);
+            const output = bytes.length < original.length ? bytes : original;
+            outputs.push({ name: names[i], bytes: output });
+            result.resultSize = output.length;
+            result.status = output === bytes ? 'compressed' : 'skipped';
+        } catch (e) {
+            // Um arquivo corrompido não interrompe o lote.
+            console.warn('Arquivo ignorado na compressão em lote', names[i], e);
+        }
+        files.push(result);
+    }
+
+    onProgress?.({ stage: 'saving', unit: 'file', current: inputs.length, total: inputs.length });
+    return { bytes: await createZip(outputs), files };
+};
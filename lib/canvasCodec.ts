@@ -0,0 +1,32 @@
+import type { ImageCodec, ImageSource } from './imageCompression';
+
+// Codec de imagens do navegador: decodifica com createImageBitmap e gera o JPEG com OffscreenCanvas,
+// ambos disponíveis também dentro do Web Worker.
+
+const toBitmap = (source: ImageSource) => {
+    if (source.kind === 'jpeg') return createImageBitmap(new Blob([source.bytes as BlobPart], { type: 'image/jpeg' }));
+    const rgba = new Uint8ClampedArray(source.width * source.height * 4);
+    for (let i = 0, j = 0; i < rgba.length; i += 4, j += source.channels) {
+        rgba[i] = source.data[j];
+        rgba[i + 1] = source.data[j + (source.channels === 3 ? 1 : 0)];
+        rgba[i + 2] = source.data[j + (source.channels === 3 ? 2 : 0)];
+        rgba[i + 3] = 255;
+    }
+    return createImageBitmap(new ImageData(rgba, source.width, source.height));
+};
+
+export const canvasImageCodec: ImageCodec = {
+    encodeJpeg: async (source, width, height, quality) => {
+        const bitmap = await toBitmap(source);
+        const canvas = new OffscreenCanvas(width, height);
+        const context = canvas.getContext('2d');
+        if (!context) throw new Error('Canvas 2D indisponível');
+        context.fillStyle = '#fff';
+        context.fillRect(0, 0, width, height);
+        context.imageSmoothingQuality = 'high';
+        context.drawImage(bitmap, 0, 0, width, height);
+        bitmap.close();
+        const blob = await canvas.convertToBlob({ type: 'image/jpeg', quality });
+        return new Uint8Array(await blob.arrayBuffer());
+    },
+};
@@ -0,0 +1,99 @@
+// Leitura mínima de content streams (ISO 32000, seção 7.8.2): só o necessário para acompanhar a matriz de
+// transformação (q, Q, cm) e saber onde cada XObject é desenhado (Do). Strings, arrays e dicionários são
+// reconhecidos apenas para serem pulados; imagens inline (BI ... ID ... EI) são ignoradas.
+
+export type ContentOperand = number | { name: string } | null;
+
+export interface ContentOperation {
+    operator: string;
+    operands: ContentOperand[];
+}
+
+// [a b c d e f], como no operador cm.
+export type Matrix = [number, number, number, number, number, number];
+
+export const IDENTITY_MATRIX: Matrix = [1, 0, 0, 1, 0, 0];
+
+// Concatena m à matriz atual (CTM' = m × CTM).
+export const multiplyMatrix = (m: Matrix, ctm: Matrix): Matrix => [
+    m[0] * ctm[0] + m[1] * ctm[2],
+    m[0] * ctm[1] + m[1] * ctm[3],
+    m[2] * ctm[0] + m[3] * ctm[2],
+    m[2] * ctm[1] + m[3] * ctm[3],
+    m[4] * ctm[0] + m[5] * ctm[2] + ctm[4],
+    m[4] * ctm[1] + m[5] * ctm[3] + ctm[5],
+];
+
+const isWhitespace = (byte: number) => byte === 0x20 || byte === 0x0a || byte === 0x0d || byte === 0x09 || byte === 0x0c || byte === 0x00;
+const isDelimiter = (byte: number) => '()<>[]{}/%'.includes(String.fromCharCode(byte));
+
+export const parseContentOperations = (bytes: Uint8Array): ContentOperation[] => {
+    const operations: ContentOperation[] = [];
+    let operands: ContentOperand[] = [];
+    let i = 0;
+
+    const readRegular = () => {
+        const start = i;
+        while (i < bytes.length && !isWhitespace(bytes[i]) && !isDelimiter(bytes[i])) i++;
+        return String.fromCharCode(...bytes.subarray(start, i));
+    };
+
+    const skipString = () => {
+        let depth = 0;
+        for (; i < bytes.length; i++) {
+            if (bytes[i] === 0x5c) i++; // escape
+            else if (bytes[i] === 0x28) depth++;
+            else if (bytes[i] === 0x29 && --depth === 0) break;
+        }
+        i++;
+    };
+
+    // Dados binários da imagem inline: termina em "EI" cercado de espaços.
+    const skipInlineImage = () => {
+        while (i < bytes.length && !(bytes[i] === 0x49 && bytes[i + 1] === 0x44 && isWhitespace(bytes[i + 2] ?? 0x20) && isWhitespace(bytes[i - 1]))) i++;
+        i += 3;
+        while (i < bytes.length && !(isWhitespace(bytes[i - 1]) && bytes[i] === 0x45 && bytes[i + 1] === 0x49 && isWhitespace(bytes[i + 2] ?? 0x20))) i++;
+        i += 2;
+    };
+
+    while (i < bytes.length) {
+        const byte = bytes[i];
+        if (isWhitespace(byte)) {
+            i++;
+        } else if (byte === 0x25) { // %
+            while (i < bytes.length && bytes[i] !== 0x0a && bytes[i] !== 0x0d) i++;
+        } else if (byte === 0x28) { // (
+            skipString();
+            operands.push(null);
+        } else if (byte === 0x3c && bytes[i + 1] === 0x3c) { // <<
+            i += 2;
+            operands.push(null);
+        } else if (byte === 0x3e && bytes[i + 1] === 0x3e) { // >>
+            i += 2;
+        } else if (byte === 0x3c) { // <hex>
+            while (i < bytes.length && bytes[i] !== 0x3e) i++;
+            i++;
+            operands.push(null);
+        } else if (byte === 0x5b || byte === 0x5d || byte === 0x7b || byte === 0x7d) { // [ ] { }
+            i++;
+            if (byte === 0x5b) operands.push(null);
+        } else if (byte === 0x2f) { // /nome
+            i++;
+            operands.push({ name: readRegular().replace(/#([0-9a-fA-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16))) });
+        } else {
+            const token = readRegular();
+            if (token === '') {
+                i++;
+            } else if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(token)) {
+                operands.push(Number(token));
+            } else if (token === 'true' || token === 'false' || token === 'null') {
+                operands.push(null);
+            } else {
+                if (token === 'BI') skipInlineImage();
+                operations.push({ operator: token, operands });
+                operands = [];
+            }
+        }
+    }
+    return operations;
+};
@@ -0,0 +1,115 @@
+// Primitivas criptográficas usadas pelo handler de segurança padrão do PDF (lib/pdfSecurity.ts).
+// AES e SHA-2 vêm do Web Crypto (disponível no navegador, em workers e no Node); MD5 e RC4 não
+// existem lá e são implementados aqui.
+
+export const concatBytes = (...parts: Uint8Array[]) => {
+    const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        result.set(part, offset);
+        offset += part.length;
+    }
+    return result;
+};
+
+export const bytesEqual = (a: Uint8Array, b: Uint8Array) => a.length === b.length && a.every((value, i) => value === b[i]);
+
+export const randomBytes = (length: number) => crypto.getRandomValues(new Uint8Array(length));
+
+// --- MD5 (RFC 1321) ---
+
+const MD5_SHIFTS = [
+    7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22,
+    5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20,
+    4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23,
+    6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21,
+];
+const MD5_CONSTANTS = Array.from({ length: 64 }, (_, i) => Math.floor(Math.abs(Math.sin(i + 1)) * 2 ** 32) >>> 0);
+
+export const md5 = (data: Uint8Array): Uint8Array => {
+    const paddedLength = (((data.length + 8) >> 6) + 1) << 6;
+    const message = new Uint8Array(paddedLength);
+    message.set(data);
+    message[data.length] = 0x80;
+    const view = new DataView(message.buffer);
+    view.setUint32(paddedLength - 8, (data.length * 8) >>> 0, true);
+    view.setUint32(paddedLength - 4, Math.floor(data.length / 0x20000000), true);
+
+    let a0 = 0x67452301, b0 = 0xefcdab89, c0 = 0x98badcfe, d0 = 0x10325476;
+    const words = new Uint32Array(16);
+    for (let offset = 0; offset < paddedLength; offset += 64) {
+        for (let i = 0; i < 16; i++) words[i] = view.getUint32(offset + i * 4, true);
+        let a = a0, b = b0, c = c0, d = d0;
+        for (let i = 0; i < 64; i++) {
+            let f: number, g: number;
+            if (i < 16) { f = (b & c) | (~b & d); g = i; }
+            else if (i < 32) { f = (d & b) | (~d & c); g = (5 * i + 1) % 16; }
+            else if (i < 48) { f = b ^ c ^ d; g = (3 * i + 5) % 16; }
+            else { f = c ^ (b | ~d); g = (7 * i) % 16; }
+            const sum = (a + f + MD5_CONSTANTS[i] + words[g]) >>> 0;
+            a = d;
+            d = c;
+            c = b;
+            b = (b + ((sum << MD5_SHIFTS[i]) | (sum >>> (32 - MD5_SHIFTS[i])))) >>> 0;
+        }
+        a0 = (a0 + a) >>> 0;
+        b0 = (b0 + b) >>> 0;
+        c0 = (c0 + c) >>> 0;
+        d0 = (d0 + d) >>> 0;
+    }
+
+    const digest = new Uint8Array(16);
+    const digestView = new DataView(digest.buffer);
+    [a0, b0, c0, d0].forEach((word, i) => digestView.setUint32(i * 4, word, true));
+    return digest;
+};
+
+// --- RC4 (simétrico: a mesma função cifra e decifra) ---
+
+export const rc4 = (key: Uint8Array, data: Uint8Array): Uint8Array => {
+    const s = new Uint8Array(256);
+    for (let i = 0; i < 256; i++) s[i] = i;
+    for (let i = 0, j = 0; i < 256; i++) {
+        j = (j + s[i] + key[i % key.length]) & 0xff;
+        [s[i], s[j]] = [s[j], s[i]];
+    }
+    const output = new Uint8Array(data.length);
+    for (let n = 0, i = 0, j = 0; n < data.length; n++) {
+        i = (i + 1) & 0xff;
+        j = (j + s[i]) & 0xff;
+        [s[i], s[j]] = [s[j], s[i]];
+        output[n] = data[n] ^ s[(s[i] + s[j]) & 0xff];
+    }
+    return output;
+};
+
+// --- AES-CBC e SHA-2 (Web Crypto) ---
+
+const importAesKey = (key: Uint8Array, usage: KeyUsage) =>
+    crypto.subtle.importKey('raw', key as BufferSource, 'AES-CBC', false, [usage]);
+
+// Cifra com padding PKCS#7, como o PDF usa para strings e streams.
+export const aesCbcEncrypt = async (key: Uint8Array, iv: Uint8Array, data: Uint8Array) => {
+    const cryptoKey = await importAesKey(key, 'encrypt');
+    return new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-CBC', iv: iv as BufferSource }, cryptoKey, data as BufferSource));
+};
+
+export const aesCbcDecrypt = async (key: Uint8Array, iv: Uint8Array, data: Uint8Array) => {
+    const cryptoKey = await importAesKey(key, 'decrypt');
+    return new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-CBC', iv: iv as BufferSource }, cryptoKey, data as BufferSource));
+};
+
+// Sem padding (dados múltiplos de 16 bytes). O Web Crypto sempre acrescenta o padding; basta descartá-lo.
+export const aesCbcEncryptRaw = async (key: Uint8Array, iv: Uint8Array, data: Uint8Array) =>
+    (await aesCbcEncrypt(key, iv, data)).subarray(0, data.length);
+
+// Sem padding. O Web Crypto exige padding válido, então anexamos um bloco que decifra para um
+// bloco de padding completo: E(k, 0x10... XOR último bloco cifrado).
+export const aesCbcDecryptRaw = async (key: Uint8Array, iv: Uint8Array, data: Uint8Array) => {
+    const lastBlock = data.length >= 16 ? data.subarray(data.length - 16) : iv;
+    const paddingBlock = (await aesCbcEncrypt(key, lastBlock, new Uint8Array(16).fill(16))).subarray(0, 16);
+    return (await aesCbcDecrypt(key, iv, concatBytes(data, paddingBlock))).subarray(0, data.length);
+};
+
+export const sha = async (algorithm: 'SHA-256' | 'SHA-384' | 'SHA-512', data: Uint8Array) =>
+    new Uint8Array(await crypto.subtle.digest(algorithm, data as BufferSource));
@@ -0,0 +1,211 @@
+import {
+    PDFDict,
+    PDFDocument,
+    PDFHexString,
+    PDFName,
+    PDFObject,
+    PDFRawStream,
+    PDFRef,
+    PDFString,
+    decodePDFRawStream,
+} from 'pdf-lib';
+import type { PdfBytes } from './pdfOperations';
+
+// Propriedades do documento (título, autor, datas...). Ficam no dicionário Info e, em muitos PDFs, também
+// no pacote XMP do catálogo; os leitores mais novos preferem o XMP, então as duas cópias precisam bater.
+
+export interface DocumentProperties {
+    title: string;
+    author: string;
+    subject: string;
+    keywords: string;
+    creator: string;
+    producer: string;
+    creationDate: string; // ISO 8601; vazio quando o documento não informa
+    modificationDate: string;
+}
+
+export type DocumentPropertyKey = keyof DocumentProperties;
+
+export const DOCUMENT_PROPERTY_KEYS: DocumentPropertyKey[] = [
+    'title', 'author', 'subject', 'keywords', 'creator', 'producer', 'creationDate', 'modificationDate',
+];
+
+export const EMPTY_DOCUMENT_PROPERTIES: DocumentProperties = {
+    title: '', author: '', subject: '', keywords: '', creator: '', producer: '', creationDate: '', modificationDate: '',
+};
+
+const INFO_KEYS: Record<DocumentPropertyKey, string> = {
+    title: 'Title',
+    author: 'Author',
+    subject: 'Subject',
+    keywords: 'Keywords',
+    creator: 'Creator',
+    producer: 'Producer',
+    creationDate: 'CreationDate',
+    modificationDate: 'ModDate',
+};
+
+const DATE_KEYS = new Set<DocumentPropertyKey>(['creationDate', 'modificationDate']);
+
+// Só os campos preenchidos, para aplicar sobre um documento sem apagar o que foi deixado em branco.
+export const filledProperties = (properties: DocumentProperties): Partial<DocumentProperties> =>
+    Object.fromEntries(DOCUMENT_PROPERTY_KEYS.filter(key => properties[key].trim()).map(key => [key, properties[key].trim()]));
+
+const textOf = (object: PDFObject | undefined) =>
+    object instanceof PDFString || object instanceof PDFHexString ? object.decodeText() : '';
+
+const toIsoDate = (value: string) => {
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? '' : date.toISOString();
+};
+
+// Datas do PDF: D:AAAAMMDDHHmmSS, com fuso opcional (Z, +HH'mm' ou -HH'mm').
+const parsePdfDate = (value: string) => {
+    const match = /^D:(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?(?:([Zz+-])(\d{2})?'?(\d{2})?'?)?/.exec(value.trim());
+    if (!match) return toIsoDate(value);
+    const [, year, month = '01', day = '01', hour = '00', minute = '00', second = '00', sign, offsetHours = '00', offsetMinutes = '00'] = match;
+    const zone = !sign || sign.toUpperCase() === 'Z' ? 'Z' : `${sign}${offsetHours}:${offsetMinutes}`;
+    return toIsoDate(`${year}-${month}-${day}T${hour}:${minute}:${second}${zone}`);
+};
+
+// --- XMP ---
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+const decodeXml = (text: string) =>
+    text.replace(/&(#x?[0-9a-fA-F]+|\w+);/g, (entity, code: string) => {
+        if (code.startsWith('#x')) return String.fromCodePoint(parseInt(code.slice(2), 16));
+        if (code.startsWith('#')) return String.fromCodePoint(parseInt(code.slice(1), 10));
+        return XML_ENTITIES[code] ?? entity;
+    });
+
+const encodeXml = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Valor de uma propriedade XMP, como elemento (<xmp:CreatorTool>...</xmp:CreatorTool>) ou atributo
+// (xmp:CreatorTool="..."). Listas (rdf:Alt, rdf:Seq, rdf:Bag) são unidas com vírgulas.
+const readXmpValue = (xmp: string, name: string) => {
+    const element = new RegExp(`<${name}(?:\\s[^>]*)?>([\\s\\S]*?)</${name}>`).exec(xmp);
+    if (element) {
+        const items = [...element[1].matchAll(/<rdf:li(?:\s[^>]*)?>([\s\S]*?)<\/rdf:li>/g)].map(([, item]) => decodeXml(item.trim()));
+        return items.length > 0 ? items.filter(Boolean).join(', ') : decodeXml(element[1].trim());
+    }
+    const attribute = new RegExp(`\\s${name}="([^"]*)"`).exec(xmp);
+    return attribute ? decodeXml(attribute[1]) : '';
+};
+
+const XMP_NAMES: Record<DocumentPropertyKey, string[]> = {
+    title: ['dc:title'],
+    author: ['dc:creator'],
+    subject: ['dc:description'],
+    keywords: ['pdf:Keywords', 'dc:subject'],
+    creator: ['xmp:CreatorTool'],
+    producer: ['pdf:Producer'],
+    creationDate: ['xmp:CreateDate'],
+    modificationDate: ['xmp:ModifyDate'],
+};
+
+const readXmp = (pdfDoc: PDFDocument) => {
+    const stream = pdfDoc.catalog.lookup(PDFName.of('Metadata'));
+    if (!(stream instanceof PDFRawStream)) return undefined;
+    return new TextDecoder().decode(decodePDFRawStream(stream).decode());
+};
+
+// Pacote XMP novo com as propriedades; a identificação PDF/A do pacote anterior é mantida, o resto do
+// pacote antigo (histórico de edição, extensões de outros programas) fica para trás.
+const buildXmp = (properties: DocumentProperties, previous: string) => {
+    const simple = (name: string, key: DocumentPropertyKey) => (properties[key] ? `<${name}>${encodeXml(properties[key])}</${name}>` : '');
+    const list = (name: string, container: 'Alt' | 'Seq', key: DocumentPropertyKey) => {
+        const language = container === 'Alt' ? ' xml:lang="x-default"' : '';
+        return properties[key] ? `<${name}><rdf:${container}><rdf:li${language}>${encodeXml(properties[key])}</rdf:li></rdf:${container}></${name}>` : '';
+    };
+    const pdfaPart = readXmpValue(previous, 'pdfaid:part');
+    const pdfaConformance = readXmpValue(previous, 'pdfaid:conformance');
+
+    const fields = [
+        list('dc:title', 'Alt', 'title'),
+        list('dc:creator', 'Seq', 'author'),
+        list('dc:description', 'Alt', 'subject'),
+        simple('pdf:Keywords', 'keywords'),
+        simple('xmp:CreatorTool', 'creator'),
+        simple('pdf:Producer', 'producer'),
+        simple('xmp:CreateDate', 'creationDate'),
+        simple('xmp:ModifyDate', 'modificationDate'),
+        pdfaPart ? `<pdfaid:part>${encodeXml(pdfaPart)}</pdfaid:part>` : '',
+        pdfaConformance ? `<pdfaid:conformance>${encodeXml(pdfaConformance)}</pdfaid:conformance>` : '',
+    ].filter(Boolean);
+
+    return [
+        '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+        '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+        '<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+        '<rdf:Description rdf:about="" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:xmp="http://ns.adobe.com/xap/1.0/"'
+            + ' xmlns:pdf="http://ns.adobe.com/pdf/1.3/" xmlns:pdfaid="http://www.aiim.org/pdfa/ns/id/">',
+        ...fields,
+        '</rdf:Description>',
+        '</rdf:RDF>',
+        '</x:xmpmeta>',
+        '<?xpacket end="w"?>',
+    ].join('\n');
+};
+
+// --- Leitura e gravação ---
+
+const infoDictOf = (pdfDoc: PDFDocument, create: boolean) => {
+    const { context } = pdfDoc;
+    const info = context.lookup(context.trailerInfo.Info);
+    if (info instanceof PDFDict || !create) return info instanceof PDFDict ? info : undefined;
+    const created = context.obj({});
+    context.trailerInfo.Info = context.register(created);
+    return created;
+};
+
+// O dicionário Info vale primeiro; o XMP completa o que ele não informa.
+export const getDocumentProperties = (pdfDoc: PDFDocument): DocumentProperties => {
+    const info = infoDictOf(pdfDoc, false);
+    const xmp = readXmp(pdfDoc);
+    const properties = { ...EMPTY_DOCUMENT_PROPERTIES };
+    for (const key of DOCUMENT_PROPERTY_KEYS) {
+        const fromInfo = textOf(info?.lookup(PDFName.of(INFO_KEYS[key]))).trim();
+        const fromXmp = xmp ? XMP_NAMES[key].map(name => readXmpValue(xmp, name)).find(Boolean) ?? '' : '';
+        if (DATE_KEYS.has(key)) properties[key] = (fromInfo && parsePdfDate(fromInfo)) || (fromXmp && toIsoDate(fromXmp));
+        else properties[key] = fromInfo || fromXmp;
+    }
+    return properties;
+};
+
+// Aplica as propriedades informadas: campos ausentes ficam como estão e campos vazios são apagados.
+// O pacote XMP só é regravado quando o documento já tinha um, para não deixar as duas cópias diferentes.
+export const applyDocumentProperties = (pdfDoc: PDFDocument, properties: Partial<DocumentProperties>) => {
+    const keys = DOCUMENT_PROPERTY_KEYS.filter(key => properties[key] !== undefined);
+    if (keys.length === 0) return;
+    const current = getDocumentProperties(pdfDoc);
+    const info = infoDictOf(pdfDoc, true)!;
+    for (const key of keys) {
+        const name = PDFName.of(INFO_KEYS[key]);
+        const value = properties[key]!.trim();
+        current[key] = value;
+        if (!value) info.delete(name);
+        else info.set(name, DATE_KEYS.has(key) ? PDFString.fromDate(new Date(value)) : PDFHexString.fromText(value));
+    }
+
+    const xmp = readXmp(pdfDoc);
+    if (xmp === undefined) return;
+    const { context, catalog } = pdfDoc;
+    // O XMP é UTF-8; uma string passada direto ao pdf-lib seria gravada byte a byte, perdendo os acentos.
+    const stream = context.stream(new TextEncoder().encode(buildXmp(current, xmp)), { Type: 'Metadata', Subtype: 'XML' });
+    const ref = catalog.get(PDFName.of('Metadata'));
+    if (ref instanceof PDFRef) context.assign(ref, stream);
+    else catalog.set(PDFName.of('Metadata'), context.register(stream));
+};
+
+export const readDocumentProperties = async (bytes: PdfBytes): Promise<DocumentProperties> =>
+    getDocumentProperties(await PDFDocument.load(bytes, { updateMetadata: false }));
+
+export const setDocumentProperties = async (bytes: PdfBytes, properties: Partial<DocumentProperties>): Promise<Uint8Array> => {
+    // Sem updateMetadata, o pdf-lib não sobrescreve o produtor e a data de modificação escolhidos.
+    const pdfDoc = await PDFDocument.load(bytes, { updateMetadata: false });
+    applyDocumentProperties(pdfDoc, properties);
+    return pdfDoc.save();
+};
@@ -0,0 +1,31 @@
+// Arquivos soltos em uma área de arrastar, incluindo o conteúdo de pastas (com subpastas).
+// Os itens do DataTransfer só valem durante o evento, então as entradas são lidas antes de qualquer await.
+
+const readFile = (entry: FileSystemFileEntry) => new Promise<File>((resolve, reject) => entry.file(resolve, reject));
+
+const readDirectory = async (entry: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> => {
+    const reader = entry.createReader();
+    const entries: FileSystemEntry[] = [];
+    // readEntries devolve os itens em lotes e termina com um lote vazio.
+    for (;;) {
+        const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+        if (batch.length === 0) return entries;
+        entries.push(...batch);
+    }
+};
+
+const readEntry = async (entry: FileSystemEntry): Promise<File[]> => {
+    if (entry.isFile) return [await readFile(entry as FileSystemFileEntry)];
+    if (!entry.isDirectory) return [];
+    const children = await readDirectory(entry as FileSystemDirectoryEntry);
+    return (await Promise.all(children.map(readEntry))).flat();
+};
+
+export const readDroppedFiles = async (dataTransfer: DataTransfer): Promise<File[]> => {
+    const entries = Array.from(dataTransfer.items)
+        .map(item => item.webkitGetAsEntry())
+        .filter((entry): entry is FileSystemEntry => entry !== null);
+    // Navegadores sem webkitGetAsEntry: só os arquivos soltos diretamente.
+    if (entries.length === 0) return Array.from(dataTransfer.files);
+    return (await Promise.all(entries.map(readEntry))).flat();
+};
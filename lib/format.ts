@@ -0,0 +1,19 @@
+export const formatBytes = (bytes: number, decimals = 2) => {
+    if (bytes === 0) return '0 Bytes';
+    const k = 1024;
+    const dm = decimals < 0 ? 0 : decimals;
+    const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+    const i = Math.floor(Math.log(bytes) / Math.log(k));
+    return `${parseFloat((bytes / Math.pow(k, i)).toFixed(dm))} ${sizes[i]}`;
+};
+
+// Empacota os bytes gerados pelo pdf-lib em um File, para que possam circular entre as ferramentas.
+export const toPdfFile = (bytes: Uint8Array, fileName: string): File =>
+    new File([bytes as BlobPart], fileName, { type: 'application/pdf' });
+
+// Nome de arquivo seguro a partir de um texto livre: sem acentos, espaços ou símbolos.
+export const toFileSlug = (name: string, fallback = 'arquivo') =>
+    name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-zA-Z0-9]+/g, '-').replace(/^-|-$/g, '').toLowerCase() || fallback;
+
+export const toZipFile = (bytes: Uint8Array, fileName: string): File =>
+    new File([bytes as BlobPart], fileName, { type: 'application/zip' });
@@ -0,0 +1,248 @@
+import {
+    PDFArray,
+    PDFBool,
+    PDFDict,
+    PDFDocument,
+    PDFName,
+    PDFNumber,
+    PDFObject,
+    PDFRawStream,
+    PDFRef,
+    PDFStream,
+    decodePDFRawStream,
+} from 'pdf-lib';
+import { IDENTITY_MATRIX, Matrix, multiplyMatrix, parseContentOperations } from './contentStream';
+
+// Recompressão das imagens de um PDF: cada imagem é reduzida à resolução necessária para o tamanho em que
+// aparece na página e regravada como JPEG. A decodificação e a codificação ficam a cargo de um ImageCodec
+// (no navegador, lib/canvasCodec.ts), já que o pdf-lib não sabe trabalhar com pixels.
+
+export type CompressionPreset = 'low' | 'medium' | 'high';
+
+export interface ImageCompressionSettings {
+    dpi: number; // resolução máxima, considerando o tamanho em que a imagem é desenhada
+    quality: number; // qualidade do JPEG, de 0 a 1
+}
+
+export const COMPRESSION_PRESETS: Record<CompressionPreset, ImageCompressionSettings> = {
+    low: { dpi: 200, quality: 0.85 },
+    medium: { dpi: 150, quality: 0.7 },
+    high: { dpi: 100, quality: 0.5 },
+};
+
+// Imagem de origem: um JPEG pronto (DCTDecode) ou pixels já descomprimidos, com 1 (cinza) ou 3 (RGB) canais.
+export type ImageSource =
+    | { kind: 'jpeg'; bytes: Uint8Array; width: number; height: number }
+    | { kind: 'pixels'; data: Uint8Array; width: number; height: number; channels: 1 | 3 };
+
+export interface ImageCodec {
+    // Redimensiona a imagem para width × height e devolve um JPEG (RGB).
+    encodeJpeg: (source: ImageSource, width: number, height: number, quality: number) => Promise<Uint8Array>;
+}
+
+export interface ImageCompressionResult {
+    total: number; // imagens encontradas nas páginas
+    replaced: number; // imagens que ficaram menores e foram trocadas
+}
+
+interface PlacedSize {
+    width: number; // pt
+    height: number; // pt
+}
+
+// Maior tamanho (em pontos) em que cada imagem é desenhada, percorrendo as páginas e os Form XObjects.
+export const findImagePlacements = (pdfDoc: PDFDocument): Map<PDFRef, PlacedSize> => {
+    const placements = new Map<PDFRef, PlacedSize>();
+    const visitedForms = new Set<PDFRef>();
+
+    const walk = (contents: Uint8Array, resources: PDFDict | undefined, initial: Matrix) => {
+        const xObjects = resources?.lookupMaybe(PDFName.of('XObject'), PDFDict);
+        const stack: Matrix[] = [];
+        let ctm = initial;
+        for (const { operator, operands } of parseContentOperations(contents)) {
+            if (operator === 'q') {
+                stack.push(ctm);
+            } else if (operator === 'Q') {
+                ctm = stack.pop() ?? ctm;
+            } else if (operator === 'cm') {
+                const values = operands.slice(-6);
+                if (values.length === 6 && values.every(value => typeof value === 'number')) ctm = multiplyMatrix(values as Matrix, ctm);
+            } else if (operator === 'Do') {
+                const operand = operands[operands.length - 1];
+                if (!operand || typeof operand !== 'object' || !xObjects) continue;
+                const ref = xObjects.get(PDFName.of(operand.name));
+                const xObject = ref instanceof PDFRef ? pdfDoc.context.lookup(ref) : undefined;
+                if (!(ref instanceof PDFRef) || !(xObject instanceof PDFRawStream)) continue;
+
+                const subtype = xObject.dict.lookup(PDFName.of('Subtype'));
+                if (subtype === PDFName.of('Image')) {
+                    // A imagem ocupa o quadrado unitário transformado pela CTM.
+                    const width = Math.hypot(ctm[0], ctm[1]);
+                    const height = Math.hypot(ctm[2], ctm[3]);
+                    const previous = placements.get(ref);
+                    placements.set(ref, { width: Math.max(width, previous?.width ?? 0), height: Math.max(height, previous?.height ?? 0) });
+                } else if (subtype === PDFName.of('Form') && !visitedForms.has(ref)) {
+                    visitedForms.add(ref);
+                    const matrix = xObject.dict.lookupMaybe(PDFName.of('Matrix'), PDFArray)?.asArray().map(value => (value instanceof PDFNumber ? value.asNumber() : 0));
+                    const formMatrix = matrix?.length === 6 ? (matrix as Matrix) : IDENTITY_MATRIX;
+                    const formResources = xObject.dict.lookupMaybe(PDFName.of('Resources'), PDFDict) ?? resources;
+                    walk(decodeStream(xObject), formResources, multiplyMatrix(formMatrix, ctm));
+                    visitedForms.delete(ref);
+                }
+            }
+        }
+    };
+
+    for (const page of pdfDoc.getPages()) {
+        const contents = page.node.Contents();
+        const streams = contents instanceof PDFArray
+            ? contents.asArray().map(ref => pdfDoc.context.lookup(ref))
+            : [contents];
+        try {
+            const decoded = streams.flatMap(stream => (stream instanceof PDFRawStream ? [decodeStream(stream), new Uint8Array([0x0a])] : []));
+            walk(concat(decoded), page.node.Resources(), IDENTITY_MATRIX);
+        } catch (e) {
+            // Conteúdo com filtro que o pdf-lib não decodifica: as imagens desta página ficam como estão.
+            console.warn('Página ignorada na recompressão', e);
+        }
+    }
+    return placements;
+};
+
+const concat = (parts: Uint8Array[]) => {
+    const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        result.set(part, offset);
+        offset += part.length;
+    }
+    return result;
+};
+
+const decodeStream = (stream: PDFRawStream) => decodePDFRawStream(stream).decode();
+
+export const filtersOf = (dict: PDFDict) => {
+    const filter = dict.lookup(PDFName.of('Filter'));
+    if (filter instanceof PDFName) return [filter.decodeText()];
+    if (filter instanceof PDFArray) return filter.asArray().map(item => (item instanceof PDFName ? item.decodeText() : ''));
+    return [];
+};
+
+// Desfaz os preditores PNG (Predictor >= 10), comuns em imagens FlateDecode.
+const undoPngPredictor = (data: Uint8Array, rowLength: number, bytesPerPixel: number) => {
+    const rows = Math.floor(data.length / (rowLength + 1));
+    const output = new Uint8Array(rows * rowLength);
+    for (let row = 0; row < rows; row++) {
+        const type = data[row * (rowLength + 1)];
+        const input = data.subarray(row * (rowLength + 1) + 1, (row + 1) * (rowLength + 1));
+        const offset = row * rowLength;
+        for (let x = 0; x < rowLength; x++) {
+            const left = x >= bytesPerPixel ? output[offset + x - bytesPerPixel] : 0;
+            const up = row > 0 ? output[offset - rowLength + x] : 0;
+            const upLeft = row > 0 && x >= bytesPerPixel ? output[offset - rowLength + x - bytesPerPixel] : 0;
+            let predicted = 0;
+            if (type === 1) predicted = left;
+            else if (type === 2) predicted = up;
+            else if (type === 3) predicted = (left + up) >> 1;
+            else if (type === 4) {
+                const p = left + up - upLeft;
+                const [pa, pb, pc] = [Math.abs(p - left), Math.abs(p - up), Math.abs(p - upLeft)];
+                predicted = pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft;
+            }
+            output[offset + x] = (input[x] + predicted) & 0xff;
+        }
+    }
+    return output;
+};
+
+const channelsOf = (colorSpace: PDFObject | undefined, dict: PDFDict): 1 | 3 | null => {
+    if (colorSpace === PDFName.of('DeviceGray')) return 1;
+    if (colorSpace === PDFName.of('DeviceRGB')) return 3;
+    // ICCBased com 1 ou 3 componentes: os pixels são tratados como cinza/RGB do dispositivo.
+    if (colorSpace instanceof PDFArray && colorSpace.lookup(0) === PDFName.of('ICCBased')) {
+        const n = dict.context.lookup(colorSpace.get(1));
+        const components = n instanceof PDFStream ? n.dict.lookup(PDFName.of('N')) : undefined;
+        if (components instanceof PDFNumber && (components.asNumber() === 1 || components.asNumber() === 3)) return components.asNumber() as 1 | 3;
+    }
+    return null;
+};
+
+// Converte o XObject em algo que o codec entende, ou null para imagens que são mantidas como estão
+// (máscaras, CMYK, paletas, JPEG 2000, profundidades diferentes de 8 bits...).
+const readImageSource = (stream: PDFRawStream): ImageSource | null => {
+    const { dict } = stream;
+    const width = dict.lookupMaybe(PDFName.of('Width'), PDFNumber)?.asNumber() ?? 0;
+    const height = dict.lookupMaybe(PDFName.of('Height'), PDFNumber)?.asNumber() ?? 0;
+    if (width <= 0 || height <= 0) return null;
+    if (dict.lookupMaybe(PDFName.of('ImageMask'), PDFBool)?.asBoolean() || dict.has(PDFName.of('Decode')) || dict.has(PDFName.of('Mask'))) return null;
+    if (dict.lookupMaybe(PDFName.of('BitsPerComponent'), PDFNumber)?.asNumber() !== 8) return null;
+    const channels = channelsOf(dict.lookup(PDFName.of('ColorSpace')), dict);
+    if (channels === null) return null;
+
+    const filters = filtersOf(dict);
+    if (filters.length === 1 && filters[0] === 'DCTDecode') {
+        return { kind: 'jpeg', bytes: stream.contents, width, height };
+    }
+    if (filters.some(filter => filter === 'DCTDecode' || filter === 'JPXDecode' || filter === 'JBIG2Decode' || filter === 'CCITTFaxDecode')) return null;
+
+    let data = decodeStream(stream);
+    const params = dict.lookupMaybe(PDFName.of('DecodeParms'), PDFDict);
+    const predictor = params?.lookupMaybe(PDFName.of('Predictor'), PDFNumber)?.asNumber() ?? 1;
+    if (predictor >= 10) data = undoPngPredictor(data, width * channels, channels);
+    else if (predictor !== 1) return null;
+    if (data.length < width * height * channels) return null;
+    return { kind: 'pixels', data, width, height, channels };
+};
+
+// Troca cada imagem por um JPEG na resolução pedida, quando isso a deixa menor. Imagens que não aparecem
+// em nenhuma página, ou que já estão abaixo da resolução, são mantidas.
+export const recompressImages = async (
+    pdfDoc: PDFDocument,
+    codec: ImageCodec,
+    settings: ImageCompressionSettings,
+    onImage?: (current: number, total: number) => void,
+): Promise<ImageCompressionResult> => {
+    const placements = Array.from(findImagePlacements(pdfDoc));
+    let replaced = 0;
+    for (let i = 0; i < placements.length; i++) {
+        onImage?.(i + 1, placements.length);
+        const [ref, placed] = placements[i];
+        const stream = pdfDoc.context.lookup(ref);
+        if (!(stream instanceof PDFRawStream)) continue;
+
+        // Uma imagem que não pode ser lida ou recodificada é simplesmente mantida.
+        let source: ImageSource | null;
+        let jpeg: Uint8Array;
+        let width: number;
+        let height: number;
+        try {
+            source = readImageSource(stream);
+            if (!source) continue;
+            // Pixels necessários para o tamanho desenhado (72 pt por polegada), sem nunca ampliar.
+            const scale = Math.min(1, (placed.width / 72) * settings.dpi / source.width, (placed.height / 72) * settings.dpi / source.height);
+            width = Math.max(1, Math.round(source.width * scale));
+            height = Math.max(1, Math.round(source.height * scale));
+            jpeg = await codec.encodeJpeg(source, width, height, settings.quality);
+        } catch (e) {
+            console.warn('Imagem mantida sem recompressão', ref.toString(), e);
+            continue;
+        }
+        if (jpeg.length >= stream.contents.length) continue;
+
+        const replacement = pdfDoc.context.stream(jpeg, {
+            Type: 'XObject',
+            Subtype: 'Image',
+            Width: width,
+            Height: height,
+            ColorSpace: 'DeviceRGB',
+            BitsPerComponent: 8,
+            Filter: 'DCTDecode',
+        });
+        // A máscara de transparência pode ter resolução própria, então continua valendo.
+        const softMask = stream.dict.get(PDFName.of('SMask'));
+        if (softMask) replacement.dict.set(PDFName.of('SMask'), softMask);
+        pdfDoc.context.assign(ref, replacement);
+        replaced++;
+    }
+    return { total: placements.length, replaced };
+};
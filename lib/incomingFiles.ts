@@ -0,0 +1,88 @@
+import type { Tool } from '../types';
+
+// Arquivos que chegam de fora do app quando ele está instalado como PWA:
+// "Abrir com RD PDF" (file_handlers + launchQueue) e "Compartilhar" (share_target via service worker).
+
+export interface IncomingFilesRoute {
+    tool: Tool;
+    files: File[];
+}
+
+// Mesmo nome usado em service-worker.js, que guarda ali os arquivos recebidos pelo POST do share_target.
+const SHARE_TARGET_CACHE = 'rd-pdf-share-target';
+const SHARE_TARGET_PARAM = 'share-target';
+
+const isPdf = (file: File) => file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf');
+const isImage = (file: File) => file.type === 'image/jpeg' || file.type === 'image/png';
+
+// O compartilhamento do Android costuma mandar PDFs sem tipo ou como application/octet-stream; as ferramentas
+// conferem file.type, então o PDF reconhecido pela extensão é reembalado com o tipo certo.
+const asPdf = (file: File) => (file.type === 'application/pdf' ? file : new File([file], file.name, { type: 'application/pdf', lastModified: file.lastModified }));
+
+// Vários PDFs vão para a junção, um PDF para o editor e imagens para a conversão.
+// Quando chegam PDFs e imagens juntos, os PDFs têm prioridade.
+export const routeIncomingFiles = (files: File[]): IncomingFilesRoute | null => {
+    const pdfs = files.filter(isPdf).map(asPdf);
+    if (pdfs.length > 1) return { tool: 'merge', files: pdfs };
+    if (pdfs.length === 1) return { tool: 'edit', files: pdfs };
+    const images = files.filter(isImage);
+    return images.length > 0 ? { tool: 'image', files: images } : null;
+};
+
+// Tipos mínimos da File Handling API, que ainda não fazem parte do lib.dom do TypeScript.
+interface LaunchParams {
+    files: FileSystemFileHandle[];
+}
+
+interface LaunchQueue {
+    setConsumer: (consumer: (params: LaunchParams) => void) => void;
+}
+
+const readSharedFiles = async () => {
+    const url = new URL(window.location.href);
+    if (!url.searchParams.has(SHARE_TARGET_PARAM) || !('caches' in window)) return [];
+    url.searchParams.delete(SHARE_TARGET_PARAM);
+    window.history.replaceState(null, '', url);
+
+    const cache = await caches.open(SHARE_TARGET_CACHE);
+    const requests = await cache.keys();
+    const files = await Promise.all(requests.map(async request => {
+        const response = (await cache.match(request))!;
+        const name = decodeURIComponent(response.headers.get('X-File-Name') ?? 'arquivo');
+        return new File([await response.blob()], name, { type: response.headers.get('Content-Type') ?? '' });
+    }));
+    await caches.delete(SHARE_TARGET_CACHE);
+    return files;
+};
+
+// Os arquivos compartilhados e o launchQueue só podem ser lidos uma vez por carregamento da página,
+// então são consumidos aqui uma única vez e guardados até haver quem os receba.
+let listener: ((files: File[]) => void) | null = null;
+const queued: File[][] = [];
+let started = false;
+
+const dispatch = (files: File[]) => {
+    if (files.length === 0) return;
+    if (listener) listener(files);
+    else queued.push(files);
+};
+
+const start = () => {
+    if (started) return;
+    started = true;
+    readSharedFiles().then(dispatch, e => console.error('Falha ao ler os arquivos compartilhados', e));
+    const launchQueue = (window as Window & { launchQueue?: LaunchQueue }).launchQueue;
+    launchQueue?.setConsumer(params => {
+        Promise.all(params.files.map(handle => handle.getFile()))
+            .then(dispatch, e => console.error('Falha ao abrir os arquivos recebidos', e));
+    });
+};
+
+export const listenForIncomingFiles = (onFiles: (files: File[]) => void) => {
+    start();
+    listener = onFiles;
+    queued.splice(0).forEach(onFiles);
+    return () => {
+        if (listener === onFiles) listener = null;
+    };
+};
@@ -0,0 +1,44 @@
+import { PDFArray, PDFContext, PDFDict, PDFName, PDFObject, PDFRef, PDFStream } from 'pdf-lib';
+
+// Navegação pelo grafo de objetos indiretos de um PDF, a partir do trailer.
+
+// Acrescenta a refs as referências contidas no objeto (em dicionários, arrays e no dicionário de streams).
+export const collectRefs = (object: PDFObject | undefined, refs: PDFRef[], skipKeys?: Set<PDFName>) => {
+    if (object instanceof PDFRef) {
+        refs.push(object);
+    } else if (object instanceof PDFDict) {
+        for (const [key, value] of object.entries()) {
+            if (!skipKeys?.has(key)) collectRefs(value, refs, skipKeys);
+        }
+    } else if (object instanceof PDFArray) {
+        object.asArray().forEach(item => collectRefs(item, refs, skipKeys));
+    } else if (object instanceof PDFStream) {
+        collectRefs(object.dict, refs, skipKeys);
+    }
+};
+
+// Objetos alcançáveis a partir do trailer (catálogo, Info e Encrypt); os demais não são usados por nada.
+export const findReachableRefs = (context: PDFContext): Set<PDFRef> => {
+    const reachable = new Set<PDFRef>();
+    const pending: PDFRef[] = [];
+    const { Root, Info, Encrypt } = context.trailerInfo;
+    [Root, Info, Encrypt].forEach(object => collectRefs(object, pending));
+    while (pending.length > 0) {
+        const ref = pending.pop()!;
+        const object = context.lookup(ref);
+        if (reachable.has(ref) || object === undefined) continue;
+        reachable.add(ref);
+        collectRefs(object, pending);
+    }
+    return reachable;
+};
+
+// Apaga do documento os objetos que nada referencia; o pdf-lib grava todos os objetos do contexto.
+export const removeUnreachableObjects = (context: PDFContext) => {
+    const reachable = findReachableRefs(context);
+    let removed = 0;
+    for (const [ref] of context.enumerateIndirectObjects()) {
+        if (!reachable.has(ref) && context.delete(ref)) removed++;
+    }
+    return removed;
+};
@@ -0,0 +1,218 @@
+import {
+    PDFArray,
+    PDFDict,
+    PDFDocument,
+    PDFFont,
+    PDFHexString,
+    PDFName,
+    PDFNull,
+    PDFNumber,
+    PDFObject,
+    PDFPage,
+    PDFRef,
+    PDFString,
+    StandardFonts,
+    rgb,
+} from 'pdf-lib';
+
+// Marcadores (/Outlines) e sumário. O pdf-lib não tem API para isso, então a árvore é lida e escrita
+// diretamente nos dicionários do PDF (ISO 32000, seções 12.3.2 e 12.3.3).
+
+export interface OutlineNode {
+    title: string;
+    pageIndex: number | null; // página de destino (base 0) ou null para um marcador só de agrupamento
+    children: OutlineNode[];
+}
+
+export interface TableOfContentsEntry {
+    title: string;
+    pageIndex: number;
+}
+
+// Limite de segurança contra árvores malformadas (ciclos em /Next ou /First).
+const MAX_OUTLINE_ITEMS = 10000;
+
+const textOf = (object: PDFObject | undefined) =>
+    object instanceof PDFString || object instanceof PDFHexString ? object.decodeText() : '';
+
+// Procura um destino nomeado no dicionário /Dests (PDF 1.1) ou na árvore de nomes /Names/Dests.
+const lookupNamedDestination = (pdfDoc: PDFDocument, name: string): PDFObject | undefined => {
+    const { catalog, context } = pdfDoc;
+    const legacy = catalog.lookupMaybe(PDFName.of('Dests'), PDFDict)?.get(PDFName.of(name));
+    if (legacy) return context.lookup(legacy);
+
+    const visited = new Set<PDFDict>();
+    const search = (node: PDFDict | undefined): PDFObject | undefined => {
+        if (!node || visited.has(node)) return undefined;
+        visited.add(node);
+        const names = node.lookupMaybe(PDFName.of('Names'), PDFArray);
+        if (names) {
+            for (let i = 0; i + 1 < names.size(); i += 2) {
+                if (textOf(names.lookup(i)) === name) return names.lookup(i + 1);
+            }
+        }
+        const kids = node.lookupMaybe(PDFName.of('Kids'), PDFArray);
+        for (let i = 0; kids && i < kids.size(); i++) {
+            const found = search(kids.lookupMaybe(i, PDFDict));
+            if (found) return found;
+        }
+        return undefined;
+    };
+    return search(catalog.lookupMaybe(PDFName.of('Names'), PDFDict)?.lookupMaybe(PDFName.of('Dests'), PDFDict));
+};
+
+// Resolve /Dest ou a ação /A (GoTo) de um marcador até a referência da página de destino.
+const destinationPage = (pdfDoc: PDFDocument, item: PDFDict): PDFRef | undefined => {
+    let destination: PDFObject | undefined = item.lookup(PDFName.of('Dest'));
+    if (!destination) {
+        const action = item.lookupMaybe(PDFName.of('A'), PDFDict);
+        if (action?.lookup(PDFName.of('S')) === PDFName.of('GoTo')) destination = action.lookup(PDFName.of('D'));
+    }
+    if (destination instanceof PDFName) destination = lookupNamedDestination(pdfDoc, destination.decodeText());
+    else if (destination instanceof PDFString || destination instanceof PDFHexString) destination = lookupNamedDestination(pdfDoc, destination.decodeText());
+    if (destination instanceof PDFDict) destination = destination.lookup(PDFName.of('D'));
+    if (!(destination instanceof PDFArray)) return undefined;
+    const page = destination.get(0);
+    return page instanceof PDFRef ? page : undefined;
+};
+
+// Lê os marcadores do documento, com o destino expresso como índice de página.
+export const readOutline = (pdfDoc: PDFDocument): OutlineNode[] => {
+    const pageIndexByRef = new Map(pdfDoc.getPages().map((page, index) => [page.ref, index]));
+    const visited = new Set<PDFDict>();
+
+    const readSiblings = (first: PDFDict | undefined): OutlineNode[] => {
+        const nodes: OutlineNode[] = [];
+        for (let item = first; item && !visited.has(item) && visited.size < MAX_OUTLINE_ITEMS; item = item.lookupMaybe(PDFName.of('Next'), PDFDict)) {
+            visited.add(item);
+            const page = destinationPage(pdfDoc, item);
+            nodes.push({
+                title: textOf(item.lookup(PDFName.of('Title'))),
+                pageIndex: page ? pageIndexByRef.get(page) ?? null : null,
+                children: readSiblings(item.lookupMaybe(PDFName.of('First'), PDFDict)),
+            });
+        }
+        return nodes;
+    };
+
+    const outlines = pdfDoc.catalog.lookupMaybe(PDFName.of('Outlines'), PDFDict);
+    return readSiblings(outlines?.lookupMaybe(PDFName.of('First'), PDFDict));
+};
+
+// Reaproveita a árvore de outro documento: troca os índices de página pelos do novo documento e descarta
+// marcadores cujas páginas não foram copiadas (a menos que ainda tenham filhos válidos).
+export const remapOutline = (nodes: OutlineNode[], mapPage: (pageIndex: number) => number | undefined): OutlineNode[] =>
+    nodes.flatMap(node => {
+        const pageIndex = node.pageIndex === null ? null : mapPage(node.pageIndex) ?? null;
+        const children = remapOutline(node.children, mapPage);
+        return pageIndex === null && children.length === 0 ? [] : [{ title: node.title, pageIndex, children }];
+    });
+
+const pageDestination = (pdfDoc: PDFDocument, pageIndex: number) =>
+    pdfDoc.context.obj([pdfDoc.getPage(pageIndex).ref, PDFName.of('XYZ'), PDFNull, PDFNull, PDFNull]);
+
+// Substitui os marcadores do documento. Os itens de primeiro nível ficam abertos e os demais fechados,
+// para que o painel mostre de início um marcador por documento e o primeiro nível de cada um.
+export const writeOutline = (pdfDoc: PDFDocument, nodes: OutlineNode[]) => {
+    const { context, catalog } = pdfDoc;
+    if (nodes.length === 0) {
+        catalog.delete(PDFName.of('Outlines'));
+        return;
+    }
+
+    // Escreve uma lista de irmãos e devolve quantos itens ela mostra no painel (/Count do pai aberto).
+    // Só o primeiro nível fica aberto; um item fechado guarda em /Count o negativo do que mostraria.
+    const writeSiblings = (siblings: OutlineNode[], parentRef: PDFRef, open: boolean) => {
+        const refs = siblings.map(() => context.nextRef());
+        let visible = 0;
+        siblings.forEach((node, i) => {
+            const item = context.obj({ Title: PDFHexString.fromText(node.title), Parent: parentRef });
+            if (i > 0) item.set(PDFName.of('Prev'), refs[i - 1]);
+            if (i < siblings.length - 1) item.set(PDFName.of('Next'), refs[i + 1]);
+            if (node.pageIndex !== null) item.set(PDFName.of('Dest'), pageDestination(pdfDoc, node.pageIndex));
+            visible += 1;
+            if (node.children.length > 0) {
+                const children = writeSiblings(node.children, refs[i], false);
+                item.set(PDFName.of('First'), children.first);
+                item.set(PDFName.of('Last'), children.last);
+                item.set(PDFName.of('Count'), PDFNumber.of(open ? children.visible : -children.visible));
+                if (open) visible += children.visible;
+            }
+            context.assign(refs[i], item);
+        });
+        return { first: refs[0], last: refs[refs.length - 1], visible };
+    };
+
+    const outlinesRef = context.nextRef();
+    const { first, last, visible } = writeSiblings(nodes, outlinesRef, true);
+    context.assign(outlinesRef, context.obj({ Type: 'Outlines', First: first, Last: last, Count: visible }));
+    catalog.set(PDFName.of('Outlines'), outlinesRef);
+    catalog.set(PDFName.of('PageMode'), PDFName.of('UseOutlines'));
+};
+
+// --- Sumário ---
+
+const TOC_PAGE_SIZE: [number, number] = [595.28, 841.89]; // A4
+const TOC_MARGIN = 56;
+const TOC_TITLE_SIZE = 20;
+const TOC_ENTRY_SIZE = 11;
+const TOC_LINE_HEIGHT = 22;
+
+const entriesPerPage = () => Math.floor((TOC_PAGE_SIZE[1] - TOC_MARGIN * 2 - TOC_TITLE_SIZE * 2) / TOC_LINE_HEIGHT);
+
+export const tableOfContentsPageCount = (entryCount: number) => Math.max(1, Math.ceil(entryCount / entriesPerPage()));
+
+// As fontes padrão só codificam WinAnsi; os demais caracteres viram "?" (o marcador mantém o título original).
+const encodable = (font: PDFFont, text: string) => {
+    const supported = new Set(font.getCharacterSet());
+    return Array.from(text, char => (supported.has(char.codePointAt(0)!) ? char : '?')).join('');
+};
+
+const fitText = (font: PDFFont, text: string, size: number, maxWidth: number) => {
+    if (font.widthOfTextAtSize(text, size) <= maxWidth) return text;
+    let fitted = text;
+    while (fitted.length > 1 && font.widthOfTextAtSize(`${fitted}…`, size) > maxWidth) fitted = fitted.slice(0, -1);
+    return `${fitted}…`;
+};
+
+// Insere no início do documento as páginas de sumário, com links para o início de cada entrada.
+// Os índices das entradas se referem ao documento já com o sumário.
+export const insertTableOfContents = async (pdfDoc: PDFDocument, entries: TableOfContentsEntry[], heading = 'Sumário') => {
+    const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+    const boldFont = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+    const pageCount = tableOfContentsPageCount(entries.length);
+    const perPage = entriesPerPage();
+    const pages: PDFPage[] = Array.from({ length: pageCount }, (_, i) => pdfDoc.insertPage(i, TOC_PAGE_SIZE));
+    const [width, height] = TOC_PAGE_SIZE;
+
+    pages.forEach((page, pageNumber) => {
+        let y = height - TOC_MARGIN - TOC_TITLE_SIZE;
+        if (pageNumber === 0) page.drawText(encodable(boldFont, heading), { x: TOC_MARGIN, y, size: TOC_TITLE_SIZE, font: boldFont, color: rgb(0, 0, 0) });
+        y -= TOC_TITLE_SIZE * 2;
+
+        const annotations = pdfDoc.context.obj([]);
+        for (const entry of entries.slice(pageNumber * perPage, (pageNumber + 1) * perPage)) {
+            const label = `${entry.pageIndex + 1}`;
+            const labelWidth = font.widthOfTextAtSize(label, TOC_ENTRY_SIZE);
+            const title = fitText(font, encodable(font, entry.title), TOC_ENTRY_SIZE, width - TOC_MARGIN * 2 - labelWidth - 24);
+            page.drawText(title, { x: TOC_MARGIN, y, size: TOC_ENTRY_SIZE, font, color: rgb(0.1, 0.1, 0.1) });
+            page.drawText(label, { x: width - TOC_MARGIN - labelWidth, y, size: TOC_ENTRY_SIZE, font, color: rgb(0.1, 0.1, 0.1) });
+            page.drawLine({
+                start: { x: TOC_MARGIN, y: y - 6 },
+                end: { x: width - TOC_MARGIN, y: y - 6 },
+                thickness: 0.5,
+                color: rgb(0.8, 0.8, 0.8),
+            });
+            annotations.push(pdfDoc.context.register(pdfDoc.context.obj({
+                Type: 'Annot',
+                Subtype: 'Link',
+                Rect: [TOC_MARGIN, y - 6, width - TOC_MARGIN, y + TOC_ENTRY_SIZE + 4],
+                Border: [0, 0, 0],
+                Dest: pageDestination(pdfDoc, entry.pageIndex),
+            })));
+            y -= TOC_LINE_HEIGHT;
+        }
+        page.node.set(PDFName.of('Annots'), annotations);
+    });
+    return pageCount;
+};
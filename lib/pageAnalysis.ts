@@ -0,0 +1,75 @@
+import { loadPdfDocument } from './pdfjs';
+import { getPageThumbnail } from './thumbnailCache';
+
+// Leitura do conteúdo das páginas pelo pdf.js, para dividir documentos pelo que está escrito ou desenhado nelas.
+
+// Escala das miniaturas da grade (PageThumbnail): a análise reaproveita as que já foram renderizadas.
+const THUMBNAIL_SCALE = 0.5;
+
+// Pixels mais escuros que isso (0-255) contam como tinta.
+const INK_THRESHOLD = 200;
+// Fração da borda ignorada, onde digitalizações costumam ter sombras e marcas do scanner.
+const IGNORED_BORDER = 0.05;
+// Abaixo desta fração de tinta, a página é considerada em branco.
+export const BLANK_INK_RATIO = 0.002;
+
+// Texto de cada página, na ordem do pdf.js. Digitalizações sem OCR resultam em textos vazios.
+export const getPageTexts = async (file: File, onProgress?: (current: number, total: number) => void): Promise<string[]> => {
+    const pdf = await loadPdfDocument(file);
+    const texts: string[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+        onProgress?.(pageNumber, pdf.numPages);
+        const page = await pdf.getPage(pageNumber);
+        const content = await page.getTextContent();
+        texts.push(content.items.map(item => ('str' in item ? item.str : '')).join(' ').replace(/\s+/g, ' ').trim());
+        page.cleanup();
+    }
+    return texts;
+};
+
+const loadImage = (url: string) =>
+    new Promise<HTMLImageElement>((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => resolve(img);
+        img.onerror = () => reject(new Error('Failed to load thumbnail'));
+        img.src = url;
+    });
+
+// Fração de pixels com tinta em uma imagem RGBA, desconsiderando a borda.
+export const inkRatio = (pixels: Uint8ClampedArray, width: number, height: number) => {
+    const marginX = Math.floor(width * IGNORED_BORDER);
+    const marginY = Math.floor(height * IGNORED_BORDER);
+    let ink = 0;
+    let total = 0;
+    for (let y = marginY; y < height - marginY; y++) {
+        for (let x = marginX; x < width - marginX; x++) {
+            const i = (y * width + x) * 4;
+            const luminance = 0.299 * pixels[i] + 0.587 * pixels[i + 1] + 0.114 * pixels[i + 2];
+            total++;
+            if (luminance < INK_THRESHOLD) ink++;
+        }
+    }
+    return total === 0 ? 0 : ink / total;
+};
+
+// Indica, para cada página, se ela está (quase) em branco, medindo a tinta na miniatura renderizada.
+export const findBlankPages = async (file: File, pageCount: number, onProgress?: (current: number, total: number) => void): Promise<boolean[]> => {
+    const canvas = document.createElement('canvas');
+    const context = canvas.getContext('2d', { willReadFrequently: true });
+    if (!context) throw new Error('Canvas 2D indisponível');
+
+    const blankPages: boolean[] = [];
+    for (let pageNumber = 1; pageNumber <= pageCount; pageNumber++) {
+        onProgress?.(pageNumber, pageCount);
+        const img = await loadImage(await getPageThumbnail(file, pageNumber, THUMBNAIL_SCALE));
+        canvas.width = img.naturalWidth;
+        canvas.height = img.naturalHeight;
+        // Fundo branco: áreas transparentes da renderização não devem contar como tinta.
+        context.fillStyle = '#fff';
+        context.fillRect(0, 0, canvas.width, canvas.height);
+        context.drawImage(img, 0, 0);
+        const { data } = context.getImageData(0, 0, canvas.width, canvas.height);
+        blankPages.push(inkRatio(data, canvas.width, canvas.height) < BLANK_INK_RATIO);
+    }
+    return blankPages;
+};
@@ -0,0 +1,71 @@
+export class PageRangeError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'PageRangeError';
+    }
+}
+
+const range = (start: number, end: number) => {
+    const step = start <= end ? 1 : -1;
+    const indices: number[] = [];
+    for (let page = start; page !== end + step; page += step) {
+        indices.push(page - 1);
+    }
+    return indices;
+};
+
+// Interpreta um trecho da expressão: palavra-chave, página, intervalo ou intervalo aberto.
+const parsePart = (part: string, totalPages: number): number[] => {
+    const keyword = part.toLowerCase();
+    const allIndices = Array.from({ length: totalPages }, (_, i) => i);
+    if (keyword === 'odd' || keyword === 'ímpares' || keyword === 'impares') {
+        return allIndices.filter(index => index % 2 === 0);
+    }
+    if (keyword === 'even' || keyword === 'pares') {
+        return allIndices.filter(index => index % 2 === 1);
+    }
+
+    const last = keyword.match(/^(?:last|últimas?|ultimas?)(?:\s+(\d+))?$/);
+    if (last) {
+        const count = last[1] !== undefined ? Number(last[1]) : 1;
+        if (count < 1 || count > totalPages) {
+            throw new PageRangeError(`"${part}" está fora do documento (1-${totalPages}).`);
+        }
+        return range(totalPages - count + 1, totalPages);
+    }
+
+    // "11-" vai até a última página e "-5" começa na primeira.
+    const match = part.match(/^(\d+)?\s*(-)?\s*(\d+)?$/);
+    if (!match || (match[1] === undefined && match[3] === undefined) || (match[2] === undefined && match[3] !== undefined)) {
+        throw new PageRangeError(`Intervalo inválido: "${part}".`);
+    }
+    const start = match[1] !== undefined ? Number(match[1]) : 1;
+    const end = match[3] !== undefined ? Number(match[3]) : match[2] !== undefined ? totalPages : start;
+    if (start < 1 || end < 1 || start > totalPages || end > totalPages) {
+        throw new PageRangeError(`"${part}" está fora do documento (1-${totalPages}).`);
+    }
+    return range(start, end);
+};
+
+// Converte expressões como "1-3, 7", "11-", "ímpares" ou "últimas 3" em índices de página (base 0),
+// na ordem em que foram escritas.
+export const parsePageRange = (expression: string, totalPages: number): number[] => {
+    const parts = expression.split(',').map(part => part.trim()).filter(Boolean);
+    if (parts.length === 0) {
+        throw new PageRangeError('Informe pelo menos uma página.');
+    }
+    return parts.flatMap(part => parsePart(part, totalPages));
+};
+
+// Operação inversa: escreve números de página (base 1) como expressão compacta, ex.: [1, 4, 5, 6] → "1, 4-6".
+export const formatPageRange = (pageNumbers: number[]): string => {
+    const parts: string[] = [];
+    let start = pageNumbers[0];
+    for (let i = 1; i <= pageNumbers.length; i++) {
+        const previous = pageNumbers[i - 1];
+        if (pageNumbers[i] === previous + 1) continue;
+        parts.push(start === previous ? `${start}` : `${start}-${previous}`);
+        start = pageNumbers[i];
+    }
+    return parts.join(', ');
+};
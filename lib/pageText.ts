@@ -0,0 +1,105 @@
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, rgb } from 'pdf-lib';
+import fontkit from '@pdf-lib/fontkit';
+import type { PageText, PdfBytes } from './pdfOperations';
+
+// Texto desenhado pelo editor: bloco de uma ou mais linhas, com fonte, cor e alinhamento.
+
+export type TextAlign = 'left' | 'center' | 'right';
+export type StandardFontFamily = 'helvetica' | 'times' | 'courier';
+
+// Mesma altura de linha do textarea do editor, para que as quebras fiquem onde o usuário viu.
+export const TEXT_LINE_HEIGHT = 1.1;
+
+export const STANDARD_FONT_FAMILIES: StandardFontFamily[] = ['helvetica', 'times', 'courier'];
+
+// Fonte TTF/OTF enviada pelo usuário; é incorporada só com os glifos usados.
+export interface CustomFont {
+    id: string;
+    name: string;
+    bytes: PdfBytes;
+}
+
+export class UnsupportedCharactersError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'UnsupportedCharactersError';
+    }
+}
+
+// [normal, negrito, itálico, negrito itálico]
+const STANDARD_FONTS: Record<StandardFontFamily, [StandardFonts, StandardFonts, StandardFonts, StandardFonts]> = {
+    helvetica: [StandardFonts.Helvetica, StandardFonts.HelveticaBold, StandardFonts.HelveticaOblique, StandardFonts.HelveticaBoldOblique],
+    times: [StandardFonts.TimesRoman, StandardFonts.TimesRomanBold, StandardFonts.TimesRomanItalic, StandardFonts.TimesRomanBoldItalic],
+    courier: [StandardFonts.Courier, StandardFonts.CourierBold, StandardFonts.CourierOblique, StandardFonts.CourierBoldOblique],
+};
+
+export const isStandardFontFamily = (font: string | undefined): font is StandardFontFamily =>
+    STANDARD_FONT_FAMILIES.includes(font as StandardFontFamily);
+
+const parseColor = (color: string | undefined) => {
+    const match = /^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(color ?? '');
+    if (!match) return rgb(0, 0, 0);
+    const [r, g, b] = match.slice(1).map(hex => parseInt(hex, 16) / 255);
+    return rgb(r, g, b);
+};
+
+// Incorpora cada fonte uma única vez por documento, na variante pedida pelo texto. Fontes enviadas não têm
+// variantes: negrito e itálico valem só para as fontes padrão.
+export const createFontResolver = (pdfDoc: PDFDocument, customFonts: CustomFont[] = []) => {
+    const embedded = new Map<string, Promise<PDFFont>>();
+    let fontkitRegistered = false;
+
+    return (text: PageText): Promise<PDFFont> => {
+        const custom = customFonts.find(font => font.id === text.font);
+        const family = isStandardFontFamily(text.font) ? text.font : 'helvetica';
+        const key = custom ? `custom:${custom.id}` : STANDARD_FONTS[family][(text.bold ? 1 : 0) + (text.italic ? 2 : 0)];
+        let font = embedded.get(key);
+        if (!font) {
+            if (custom && !fontkitRegistered) {
+                pdfDoc.registerFontkit(fontkit);
+                fontkitRegistered = true;
+            }
+            font = custom ? pdfDoc.embedFont(custom.bytes, { subset: true }) : pdfDoc.embedFont(key);
+            embedded.set(key, font);
+        }
+        return font;
+    };
+};
+
+// As fontes padrão só cobrem o WinAnsi; sem essa checagem o pdf-lib falharia com uma mensagem sobre codificação.
+const assertSupportedCharacters = (text: string, font: PDFFont) => {
+    const supported = new Set(font.getCharacterSet());
+    const missing = [...new Set([...text.replace(/\n/g, '')])].filter(char => !supported.has(char.codePointAt(0)!));
+    if (missing.length > 0) {
+        throw new UnsupportedCharactersError(`A fonte ${font.name} não tem estes caracteres: ${missing.join(' ')}. Envie uma fonte TTF/OTF que os inclua.`);
+    }
+};
+
+// Desenha o bloco centralizado em (x, y), como o textarea aparece na tela; o alinhamento vale entre as linhas.
+export const drawTextBlock = (page: PDFPage, text: PageText, font: PDFFont) => {
+    assertSupportedCharacters(text.text, font);
+    const { width, height } = page.getSize();
+    const size = text.fontSize;
+    const lines = text.text.split('\n');
+    const lineHeight = size * TEXT_LINE_HEIGHT;
+    const lineWidths = lines.map(line => font.widthOfTextAtSize(line, size));
+    const blockWidth = Math.max(0, ...lineWidths);
+    const centerX = (text.x / 100) * width;
+    const centerY = height - (text.y / 100) * height;
+    const left = centerX - blockWidth / 2;
+    const top = centerY + (lines.length * lineHeight) / 2;
+
+    // Como no CSS, a sobra da altura da linha (half-leading) fica metade acima e metade abaixo do glifo.
+    const glyphHeight = font.heightAtSize(size);
+    const ascent = font.heightAtSize(size, { descender: false });
+    const baselineOffset = (lineHeight - glyphHeight) / 2 + ascent;
+    const color = parseColor(text.color);
+
+    lines.forEach((line, i) => {
+        if (!line) return;
+        const x = text.align === 'center' ? left + (blockWidth - lineWidths[i]) / 2
+            : text.align === 'right' ? left + blockWidth - lineWidths[i]
+            : left;
+        page.drawText(line, { x, y: top - i * lineHeight - baselineOffset, font, size, color });
+    });
+};
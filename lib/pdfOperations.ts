@@ -0,0 +1,390 @@
+import { PDFDocument, PDFImage, PDFPage, StandardFonts, degrees, rgb } from 'pdf-lib';
+import { OutlineNode, insertTableOfContents, readOutline, remapOutline, tableOfContentsPageCount, writeOutline } from './outline';
+import { ImageCodec, ImageCompressionResult, ImageCompressionSettings, recompressImages } from './imageCompression';
+import { DocumentProperties, applyDocumentProperties } from './documentProperties';
+import { CustomFont, StandardFontFamily, TextAlign, createFontResolver, drawTextBlock } from './pageText';
+
+// Operações PDF sem dependência de React ou do DOM: recebem bytes (e opções) e devolvem bytes.
+// São usadas pelos componentes, pelas receitas e pelos testes em Node.
+
+export type PdfBytes = Uint8Array | ArrayBuffer;
+
+export type PageSize = 'A4' | 'Letter';
+export type Orientation = 'portrait' | 'landscape';
+export type ImageFormat = 'png' | 'jpg';
+
+export type ProgressUnit = 'file' | 'page' | 'image' | 'step';
+
+// Progresso reportado pelas operações longas; 'saving' indica a gravação final do PDF.
+export interface OperationProgress {
+    stage: 'processing' | 'saving';
+    unit: ProgressUnit;
+    current: number;
+    total: number;
+    detail?: string;
+}
+
+export interface ProgressOptions {
+    onProgress?: (progress: OperationProgress) => void;
+}
+
+export type PageOrientationFilter = 'all' | 'landscape' | 'portrait';
+export type PageNumberPosition = 'bottom-center' | 'bottom-right' | 'top-right';
+export type PageNumberFormat = 'number' | 'number-of-total';
+
+export interface RotatePagesOptions {
+    angle: 90 | 180 | 270;
+    target?: PageOrientationFilter;
+}
+
+export interface PageNumberOptions {
+    position?: PageNumberPosition;
+    format?: PageNumberFormat;
+    startAt?: number;
+    fontSize?: number;
+}
+
+export interface PageText {
+    text: string; // pode ter várias linhas
+    x: number; // percentage, from the left (center of the text block)
+    y: number; // percentage, from the top (center of the text block)
+    fontSize: number; // pt
+    font?: StandardFontFamily | string; // família padrão ou id de uma das fontes enviadas (EditOptions.fonts)
+    bold?: boolean;
+    italic?: boolean;
+    color?: string; // #rrggbb
+    align?: TextAlign;
+}
+
+export interface EditedPage {
+    sourceIndex: number;
+    rotation: number; // 0, 90, 180, 270
+    texts: PageText[];
+}
+
+// Documento de entrada da junção; sem pageIndices (base 0), todas as páginas são copiadas.
+export interface MergeInput {
+    bytes: PdfBytes;
+    pageIndices?: number[];
+    title?: string; // nome do marcador e da entrada no sumário
+    reverse?: boolean; // inverte a ordem das páginas, como no verso de uma digitalização frente e verso
+}
+
+// 'concatenate' junta os arquivos um após o outro; 'interleave' alterna as páginas (A1, B1, A2, B2...).
+export type MergeMode = 'concatenate' | 'interleave';
+
+export interface MergeOptions extends ProgressOptions {
+    mode?: MergeMode;
+    // Na concatenação, insere uma página em branco após documentos com número ímpar de páginas.
+    padToEven?: boolean;
+    // Um marcador por arquivo, com os marcadores originais de cada um aninhados.
+    bookmarks?: boolean;
+    // Página(s) de sumário no início, com links para o começo de cada arquivo.
+    tableOfContents?: boolean;
+    // Página das imagens da lista (mesmo layout da conversão de imagens para PDF).
+    imageLayout?: ImageLayoutOptions;
+    // Título, autor etc. do resultado; sem elas, fica o que o pdf-lib grava num documento novo.
+    properties?: Partial<DocumentProperties>;
+}
+
+// Imagem na lista de junção: ocupa uma página própria.
+export interface MergeImageInput {
+    image: ImageInput;
+    title?: string;
+}
+
+export interface ImageInput {
+    bytes: PdfBytes;
+    format?: ImageFormat;
+}
+
+export interface ImageLayoutOptions {
+    pageSize?: PageSize;
+    orientation?: Orientation;
+    margin?: number; // pt
+}
+
+export const PAGE_SIZES: Record<PageSize, [number, number]> = {
+    A4: [595.28, 841.89],
+    Letter: [612, 792],
+};
+
+const PAGE_NUMBER_MARGIN = 24;
+const DEFAULT_IMAGE_MARGIN = 36;
+
+// Tamanho da página como aparece na tela, já considerando a rotação (/Rotate).
+const getVisualSize = (page: PDFPage) => {
+    const { width, height } = page.getSize();
+    const rotation = ((page.getRotation().angle % 360) + 360) % 360;
+    return rotation === 90 || rotation === 270 ? { width: height, height: width, rotation } : { width, height, rotation };
+};
+
+// Converte um ponto visual (origem no canto inferior esquerdo da página exibida) para o espaço não rotacionado do pdf-lib.
+const toUnrotatedPoint = (page: PDFPage, x: number, y: number) => {
+    const { width, height } = page.getSize();
+    switch (getVisualSize(page).rotation) {
+        case 90: return { x: width - y, y: x };
+        case 180: return { x: width - x, y: height - y };
+        case 270: return { x: y, y: height - x };
+        default: return { x, y };
+    }
+};
+
+const matchesOrientation = (page: PDFPage, target: PageOrientationFilter) => {
+    if (target === 'all') return true;
+    const { width, height } = getVisualSize(page);
+    return target === 'landscape' ? width > height : height >= width;
+};
+
+// Identifica PNG pela assinatura do arquivo; qualquer outro formato é tratado como JPEG.
+export const detectImageFormat = (bytes: PdfBytes): ImageFormat => {
+    const header = bytes instanceof Uint8Array ? bytes.subarray(0, 4) : new Uint8Array(bytes, 0, 4);
+    return header[0] === 0x89 && header[1] === 0x50 && header[2] === 0x4e && header[3] === 0x47 ? 'png' : 'jpg';
+};
+
+// Cria, sem inserir no documento, uma página com a imagem centralizada e ajustada à área útil
+// (tamanho, orientação e margem).
+export const createImagePage = (pdfDoc: PDFDocument, image: PDFImage, options: ImageLayoutOptions = {}): PDFPage => {
+    const { pageSize = 'A4', orientation = 'portrait', margin = DEFAULT_IMAGE_MARGIN } = options;
+    const [width, height] = PAGE_SIZES[pageSize];
+
+    const page = PDFPage.create(pdfDoc);
+    if (orientation === 'landscape') page.setSize(height, width);
+    else page.setSize(width, height);
+    const { width: pageWidth, height: pageHeight } = page.getSize();
+
+    const contentWidth = pageWidth - margin * 2;
+    const contentHeight = pageHeight - margin * 2;
+
+    const imageAspectRatio = image.width / image.height;
+    let finalWidth = contentWidth;
+    let finalHeight = contentWidth / imageAspectRatio;
+
+    if (finalHeight > contentHeight) {
+        finalHeight = contentHeight;
+        finalWidth = contentHeight * imageAspectRatio;
+    }
+
+    page.drawImage(image, {
+        x: (pageWidth - finalWidth) / 2,
+        y: (pageHeight - finalHeight) / 2,
+        width: finalWidth,
+        height: finalHeight,
+    });
+    return page;
+};
+
+export const addImagePage = (pdfDoc: PDFDocument, image: PDFImage, options: ImageLayoutOptions = {}): PDFPage =>
+    pdfDoc.addPage(createImagePage(pdfDoc, image, options));
+
+export const embedImage = async (pdfDoc: PDFDocument, { bytes, format }: ImageInput): Promise<PDFImage> =>
+    (format ?? detectImageFormat(bytes)) === 'png' ? pdfDoc.embedPng(bytes) : pdfDoc.embedJpg(bytes);
+
+const saveWithProgress = (pdfDoc: PDFDocument, unit: ProgressUnit, total: number, { onProgress }: ProgressOptions) => {
+    onProgress?.({ stage: 'saving', unit, current: total, total });
+    return pdfDoc.save();
+};
+
+const toMergeInput = (input: PdfBytes | MergeInput | MergeImageInput): MergeInput | MergeImageInput =>
+    input instanceof Uint8Array || input instanceof ArrayBuffer ? { bytes: input } : input;
+
+export const mergePdfs = async (inputs: Array<PdfBytes | MergeInput | MergeImageInput>, options: MergeOptions = {}): Promise<Uint8Array> => {
+    const { mode = 'concatenate' } = options;
+    const mergedPdf = await PDFDocument.create();
+
+    // Copia as páginas de cada arquivo de uma vez, para que recursos compartilhados sejam copiados uma só vez.
+    // Imagens não têm documento de origem (nem marcadores): viram uma página nova.
+    const sources: Array<{ title: string; source?: PDFDocument; indices: number[]; pages: PDFPage[] }> = [];
+    for (let i = 0; i < inputs.length; i++) {
+        options.onProgress?.({ stage: 'processing', unit: 'file', current: i + 1, total: inputs.length });
+        const input = toMergeInput(inputs[i]);
+        if ('image' in input) {
+            const page = createImagePage(mergedPdf, await embedImage(mergedPdf, input.image), options.imageLayout);
+            sources.push({ title: input.title ?? `Imagem ${i + 1}`, indices: [0], pages: [page] });
+            continue;
+        }
+        const { bytes, pageIndices, title, reverse } = input;
+        const source = await PDFDocument.load(bytes);
+        const indices = [...(pageIndices ?? source.getPageIndices())];
+        if (reverse) indices.reverse();
+        sources.push({ title: title ?? `Documento ${i + 1}`, source, indices, pages: await mergedPdf.copyPages(source, indices) });
+    }
+
+    // Posição de cada página copiada no resultado, por arquivo, na ordem do modo escolhido.
+    const positions = sources.map(() => [] as number[]);
+    if (mode === 'interleave') {
+        const longest = Math.max(0, ...sources.map(({ pages }) => pages.length));
+        for (let j = 0; j < longest; j++) {
+            sources.forEach(({ pages }, i) => {
+                if (j >= pages.length) return;
+                positions[i].push(mergedPdf.getPageCount());
+                mergedPdf.addPage(pages[j]);
+            });
+        }
+    } else {
+        sources.forEach(({ pages }, i) => {
+            pages.forEach(page => {
+                positions[i].push(mergedPdf.getPageCount());
+                mergedPdf.addPage(page);
+            });
+            // Página em branco do mesmo tamanho, para que o próximo documento comece na frente da folha.
+            // Depois do último não há próximo documento, então o arquivo não termina numa página em branco.
+            if (options.padToEven && pages.length % 2 === 1 && i < sources.length - 1) {
+                const last = pages[pages.length - 1];
+                mergedPdf.addPage([last.getWidth(), last.getHeight()]).setRotation(last.getRotation());
+            }
+        });
+    }
+
+    if (options.properties) applyDocumentProperties(mergedPdf, options.properties);
+    if (!options.bookmarks && !options.tableOfContents) {
+        return saveWithProgress(mergedPdf, 'file', inputs.length, options);
+    }
+
+    const outline: OutlineNode[] = sources.map(({ title, source, indices }, i) => {
+        // Página de origem → primeira posição em que ela aparece no resultado.
+        const targets = new Map<number, number>();
+        indices.forEach((sourceIndex, j) => { if (!targets.has(sourceIndex)) targets.set(sourceIndex, positions[i][j]); });
+        return {
+            title,
+            pageIndex: positions[i].length > 0 ? Math.min(...positions[i]) : null,
+            children: source ? remapOutline(readOutline(source), sourceIndex => targets.get(sourceIndex)) : [],
+        };
+    });
+
+    if (options.tableOfContents) {
+        const tocPages = tableOfContentsPageCount(outline.filter(node => node.pageIndex !== null).length);
+        outline.splice(0, outline.length, ...remapOutline(outline, pageIndex => pageIndex + tocPages));
+        const entries = outline.flatMap(node => (node.pageIndex === null ? [] : [{ title: node.title, pageIndex: node.pageIndex }]));
+        await insertTableOfContents(mergedPdf, entries);
+        outline.unshift({ title: 'Sumário', pageIndex: 0, children: [] });
+    }
+    if (options.bookmarks) writeOutline(mergedPdf, outline);
+    return saveWithProgress(mergedPdf, 'file', inputs.length, options);
+};
+
+export const extractPages = async (bytes: PdfBytes, pageIndices: number[], options: ProgressOptions = {}): Promise<Uint8Array> => {
+    options.onProgress?.({ stage: 'processing', unit: 'page', current: 0, total: pageIndices.length });
+    const pdfDoc = await PDFDocument.load(bytes);
+    const newPdf = await PDFDocument.create();
+    const copiedPages = await newPdf.copyPages(pdfDoc, pageIndices);
+    copiedPages.forEach(page => newPdf.addPage(page));
+    return saveWithProgress(newPdf, 'page', pageIndices.length, options);
+};
+
+export interface EditOptions extends ProgressOptions {
+    fonts?: CustomFont[];
+}
+
+export const editPdf = async (bytes: PdfBytes, pages: EditedPage[], options: EditOptions = {}): Promise<Uint8Array> => {
+    const pdfDoc = await PDFDocument.load(bytes);
+    const newPdfDoc = await PDFDocument.create();
+    const resolveFont = createFontResolver(newPdfDoc, options.fonts);
+
+    const copiedPages = await newPdfDoc.copyPages(pdfDoc, pages.map(p => p.sourceIndex));
+    for (let i = 0; i < copiedPages.length; i++) {
+        options.onProgress?.({ stage: 'processing', unit: 'page', current: i + 1, total: pages.length });
+        const page = copiedPages[i];
+        newPdfDoc.addPage(page);
+        const { rotation, texts } = pages[i];
+        page.setRotation(degrees(rotation));
+        for (const textEl of texts) {
+            drawTextBlock(page, textEl, await resolveFont(textEl));
+        }
+    }
+    return saveWithProgress(newPdfDoc, 'page', pages.length, options);
+};
+
+export interface ImagesToPdfOptions extends ImageLayoutOptions, ProgressOptions {
+    properties?: Partial<DocumentProperties>;
+}
+
+export const imagesToPdf = async (images: ImageInput[], options: ImagesToPdfOptions = {}): Promise<Uint8Array> => {
+    const pdfDoc = await PDFDocument.create();
+    for (let i = 0; i < images.length; i++) {
+        options.onProgress?.({ stage: 'processing', unit: 'image', current: i + 1, total: images.length });
+        addImagePage(pdfDoc, await embedImage(pdfDoc, images[i]), options);
+    }
+    if (options.properties) applyDocumentProperties(pdfDoc, options.properties);
+    return saveWithProgress(pdfDoc, 'image', images.length, options);
+};
+
+export const rotatePages = async (bytes: PdfBytes, { angle, target = 'all' }: RotatePagesOptions): Promise<Uint8Array> => {
+    const pdfDoc = await PDFDocument.load(bytes);
+    for (const page of pdfDoc.getPages()) {
+        if (!matchesOrientation(page, target)) continue;
+        page.setRotation(degrees((page.getRotation().angle + angle) % 360));
+    }
+    return pdfDoc.save();
+};
+
+export const addPageNumbers = async (bytes: PdfBytes, options: PageNumberOptions = {}): Promise<Uint8Array> => {
+    const { position = 'bottom-center', format = 'number', startAt = 1, fontSize = 10 } = options;
+    const pdfDoc = await PDFDocument.load(bytes);
+    const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+    const pages = pdfDoc.getPages();
+    const lastNumber = startAt + pages.length - 1;
+
+    pages.forEach((page, index) => {
+        const number = startAt + index;
+        const label = format === 'number-of-total' ? `${number} / ${lastNumber}` : `${number}`;
+        const textWidth = font.widthOfTextAtSize(label, fontSize);
+        const { width, height, rotation } = getVisualSize(page);
+
+        const visualX = position === 'bottom-center' ? (width - textWidth) / 2 : width - PAGE_NUMBER_MARGIN - textWidth;
+        const visualY = position === 'top-right' ? height - PAGE_NUMBER_MARGIN - fontSize : PAGE_NUMBER_MARGIN;
+        const { x, y } = toUnrotatedPoint(page, visualX, visualY);
+
+        page.drawText(label, { x, y, size: fontSize, font, color: rgb(0, 0, 0), rotate: degrees(rotation) });
+    });
+    return pdfDoc.save();
+};
+
+export interface CompressOptions extends ProgressOptions {
+    // Recompressão das imagens; sem um codec (em Node, por exemplo), só a estrutura do arquivo é otimizada.
+    images?: ImageCompressionSettings;
+    codec?: ImageCodec;
+}
+
+export interface CompressionReport {
+    bytes: Uint8Array;
+    images: ImageCompressionResult;
+}
+
+export const compressPdfWithReport = async (bytes: PdfBytes, options: CompressOptions = {}): Promise<CompressionReport> => {
+    const { onProgress, images: settings, codec } = options;
+    const pdfDoc = await PDFDocument.load(bytes);
+    let images: ImageCompressionResult = { total: 0, replaced: 0 };
+    if (settings && codec) {
+        images = await recompressImages(pdfDoc, codec, settings, (current, total) =>
+            onProgress?.({ stage: 'processing', unit: 'image', current, total }));
+    } else {
+        onProgress?.({ stage: 'processing', unit: 'file', current: 1, total: 1 });
+    }
+    // Fluxos de objetos agrupam os objetos pequenos em streams comprimidos.
+    onProgress?.({ stage: 'saving', unit: 'file', current: 1, total: 1 });
+    return { bytes: await pdfDoc.save({ useObjectStreams: true }), images };
+};
+
+export const compressPdf = async (bytes: PdfBytes, options: CompressOptions = {}): Promise<Uint8Array> =>
+    (await compressPdfWithReport(bytes, options)).bytes;
+
+// Página já renderizada como imagem (JPEG), com o tamanho visual da página original em pontos.
+export interface RasterPage {
+    image: PdfBytes;
+    width: number;
+    height: number;
+}
+
+// Reconstrói o documento com uma imagem por página, ocupando a página inteira. É o último passo da
+// compressão por rasterização: a renderização em si acontece no navegador (lib/rasterize.ts).
+export const rebuildFromPageImages = async (pages: RasterPage[], options: ProgressOptions = {}): Promise<Uint8Array> => {
+    const pdfDoc = await PDFDocument.create();
+    for (let i = 0; i < pages.length; i++) {
+        options.onProgress?.({ stage: 'processing', unit: 'page', current: i + 1, total: pages.length });
+        const { image, width, height } = pages[i];
+        const embedded = await pdfDoc.embedJpg(image);
+        pdfDoc.addPage([width, height]).drawImage(embedded, { x: 0, y: 0, width, height });
+    }
+    return saveWithProgress(pdfDoc, 'page', pages.length, options);
+};
@@ -0,0 +1,506 @@
+import {
+    PDFArray,
+    PDFBool,
+    PDFContext,
+    PDFDict,
+    PDFHexString,
+    PDFInvalidObject,
+    PDFName,
+    PDFNumber,
+    PDFObject,
+    PDFObjectParser,
+    PDFObjectStreamParser,
+    PDFParser,
+    PDFRawStream,
+    PDFRef,
+    PDFString,
+    PDFWriter,
+} from 'pdf-lib';
+import {
+    aesCbcDecrypt,
+    aesCbcDecryptRaw,
+    aesCbcEncrypt,
+    aesCbcEncryptRaw,
+    bytesEqual,
+    concatBytes,
+    md5,
+    randomBytes,
+    rc4,
+    sha,
+} from './crypto';
+import type { PdfBytes } from './pdfOperations';
+
+// Handler de segurança padrão do PDF (ISO 32000, seção 7.6): RC4 40/128 bits, AES-128 e AES-256.
+// O pdf-lib não sabe abrir nem gravar PDFs criptografados, então aqui geramos uma cópia decifrada que ele
+// consegue editar e, no caminho inverso, criptografamos o PDF que ele salvou.
+
+export class PdfPasswordError extends Error {
+    constructor(message = 'Senha incorreta.') {
+        super(message);
+        this.name = 'PdfPasswordError';
+    }
+}
+
+export class UnsupportedEncryptionError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'UnsupportedEncryptionError';
+    }
+}
+
+type CryptMethod = 'none' | 'rc4' | 'aes128' | 'aes256';
+
+interface SecurityHandler {
+    revision: number;
+    keyLength: number; // em bytes
+    owner: Uint8Array;
+    user: Uint8Array;
+    ownerEncryption?: Uint8Array;
+    userEncryption?: Uint8Array;
+    permissions: number;
+    encryptMetadata: boolean;
+    documentId: Uint8Array;
+    streamMethod: CryptMethod;
+    stringMethod: CryptMethod;
+}
+
+const PASSWORD_PADDING = new Uint8Array([
+    0x28, 0xbf, 0x4e, 0x5e, 0x4e, 0x75, 0x8a, 0x41, 0x64, 0x00, 0x4e, 0x56, 0xff, 0xfa, 0x01, 0x08,
+    0x2e, 0x2e, 0x00, 0xb6, 0xd0, 0x68, 0x3e, 0x80, 0x2f, 0x0c, 0xa9, 0xfe, 0x64, 0x53, 0x69, 0x7a,
+]);
+
+const toBytes = (bytes: PdfBytes) => (bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes));
+
+const int32LittleEndian = (value: number) => new Uint8Array([value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff, (value >>> 24) & 0xff]);
+
+// Até a revisão 4 a senha é codificada em PDFDocEncoding (aproximada aqui por Latin-1); a partir da 5, em UTF-8.
+const encodePassword = (password: string, revision: number) => {
+    if (revision >= 5) return new TextEncoder().encode(password.normalize('NFKC')).subarray(0, 127);
+    return new Uint8Array(Array.from(password, char => char.charCodeAt(0)).filter(code => code < 256));
+};
+
+const padPassword = (password: Uint8Array) => concatBytes(password.subarray(0, 32), PASSWORD_PADDING).subarray(0, 32);
+
+const xorKey = (key: Uint8Array, value: number) => key.map(byte => byte ^ value);
+
+// --- Revisões 2 a 4 (RC4 e AES-128) ---
+
+// Algoritmo 2: chave do arquivo a partir da senha do usuário.
+const computeLegacyFileKey = (handler: SecurityHandler, password: Uint8Array) => {
+    let key = md5(concatBytes(
+        padPassword(password),
+        handler.owner.subarray(0, 32),
+        int32LittleEndian(handler.permissions),
+        handler.documentId,
+        handler.revision >= 4 && !handler.encryptMetadata ? new Uint8Array([0xff, 0xff, 0xff, 0xff]) : new Uint8Array(0),
+    ));
+    if (handler.revision >= 3) {
+        for (let i = 0; i < 50; i++) key = md5(key.subarray(0, handler.keyLength));
+    }
+    return key.subarray(0, handler.keyLength);
+};
+
+// Algoritmos 4 e 5: valor /U correspondente a uma chave de arquivo.
+const computeLegacyUserValue = (handler: SecurityHandler, fileKey: Uint8Array) => {
+    if (handler.revision === 2) return rc4(fileKey, PASSWORD_PADDING);
+    let value = rc4(fileKey, md5(concatBytes(PASSWORD_PADDING, handler.documentId)));
+    for (let i = 1; i <= 19; i++) value = rc4(xorKey(fileKey, i), value);
+    return concatBytes(value, new Uint8Array(16));
+};
+
+// Algoritmo 3, passos a-d: chave RC4 derivada da senha do proprietário.
+const computeLegacyOwnerKey = (handler: SecurityHandler, ownerPassword: Uint8Array) => {
+    let hash = md5(padPassword(ownerPassword));
+    if (handler.revision >= 3) {
+        for (let i = 0; i < 50; i++) hash = md5(hash);
+    }
+    return hash.subarray(0, handler.keyLength);
+};
+
+const authenticateLegacyUser = (handler: SecurityHandler, password: Uint8Array) => {
+    const fileKey = computeLegacyFileKey(handler, password);
+    const expected = computeLegacyUserValue(handler, fileKey);
+    const compareLength = handler.revision === 2 ? 32 : 16;
+    return bytesEqual(expected.subarray(0, compareLength), handler.user.subarray(0, compareLength)) ? fileKey : null;
+};
+
+// Algoritmo 3: valor /O, a senha do usuário cifrada com a chave do proprietário.
+const computeLegacyOwnerValue = (handler: SecurityHandler, ownerPassword: Uint8Array, userPassword: Uint8Array) => {
+    const ownerKey = computeLegacyOwnerKey(handler, ownerPassword);
+    let value = rc4(ownerKey, padPassword(userPassword));
+    if (handler.revision >= 3) {
+        for (let i = 1; i <= 19; i++) value = rc4(xorKey(ownerKey, i), value);
+    }
+    return value;
+};
+
+// Algoritmo 7: a senha do proprietário decifra /O e revela a senha do usuário.
+const authenticateLegacyOwner = (handler: SecurityHandler, password: Uint8Array) => {
+    const ownerKey = computeLegacyOwnerKey(handler, password);
+    let userPassword = handler.owner.subarray(0, 32);
+    if (handler.revision === 2) {
+        userPassword = rc4(ownerKey, userPassword);
+    } else {
+        for (let i = 19; i >= 0; i--) userPassword = rc4(xorKey(ownerKey, i), userPassword);
+    }
+    return authenticateLegacyUser(handler, userPassword);
+};
+
+// --- Revisões 5 e 6 (AES-256) ---
+
+// Algoritmo 2.B (revisão 6); a revisão 5 (extensão do Acrobat 9) usa só o SHA-256 inicial.
+const computeHash = async (revision: number, password: Uint8Array, salt: Uint8Array, userKey: Uint8Array = new Uint8Array(0)) => {
+    let key = await sha('SHA-256', concatBytes(password, salt, userKey));
+    if (revision === 5) return key;
+
+    for (let round = 0; ; round++) {
+        const block = concatBytes(password, key, userKey);
+        const repeated = new Uint8Array(block.length * 64);
+        for (let i = 0; i < 64; i++) repeated.set(block, i * block.length);
+        const encrypted = await aesCbcEncryptRaw(key.subarray(0, 16), key.subarray(16, 32), repeated);
+        const remainder = encrypted.subarray(0, 16).reduce((sum, byte) => sum + byte, 0) % 3;
+        key = await sha(remainder === 0 ? 'SHA-256' : remainder === 1 ? 'SHA-384' : 'SHA-512', encrypted);
+        if (round >= 63 && encrypted[encrypted.length - 1] <= round - 31) break;
+    }
+    return key.subarray(0, 32);
+};
+
+const authenticateAes256 = async (handler: SecurityHandler, password: Uint8Array) => {
+    const { revision, owner, user } = handler;
+    const ownerHash = await computeHash(revision, password, owner.subarray(32, 40), user.subarray(0, 48));
+    if (bytesEqual(ownerHash, owner.subarray(0, 32))) {
+        const key = await computeHash(revision, password, owner.subarray(40, 48), user.subarray(0, 48));
+        return aesCbcDecryptRaw(key, new Uint8Array(16), handler.ownerEncryption!);
+    }
+    const userHash = await computeHash(revision, password, user.subarray(32, 40));
+    if (bytesEqual(userHash, user.subarray(0, 32))) {
+        const key = await computeHash(revision, password, user.subarray(40, 48));
+        return aesCbcDecryptRaw(key, new Uint8Array(16), handler.userEncryption!);
+    }
+    return null;
+};
+
+// --- Leitura do dicionário /Encrypt ---
+
+const bytesOf = (object: PDFObject | undefined) =>
+    object instanceof PDFString || object instanceof PDFHexString ? object.asBytes() : new Uint8Array(0);
+
+const cryptMethodOf = (encrypt: PDFDict, filterKey: 'StmF' | 'StrF'): CryptMethod => {
+    const filterName = encrypt.lookupMaybe(PDFName.of(filterKey), PDFName);
+    if (!filterName || filterName === PDFName.of('Identity')) return 'none';
+    const filter = encrypt.lookupMaybe(PDFName.of('CF'), PDFDict)?.lookupMaybe(filterName, PDFDict);
+    const method = filter?.lookupMaybe(PDFName.of('CFM'), PDFName)?.asString();
+    if (method === '/V2') return 'rc4';
+    if (method === '/AESV2') return 'aes128';
+    if (method === '/AESV3') return 'aes256';
+    if (method === '/None' || !method) return 'none';
+    throw new UnsupportedEncryptionError(`Método de criptografia não suportado: ${method}.`);
+};
+
+const readSecurityHandler = (context: PDFContext): SecurityHandler => {
+    const encrypt = context.lookup(context.trailerInfo.Encrypt, PDFDict);
+    const filter = encrypt.lookupMaybe(PDFName.of('Filter'), PDFName);
+    if (filter !== PDFName.of('Standard')) {
+        throw new UnsupportedEncryptionError('Este PDF é protegido por certificado digital, o que não é suportado.');
+    }
+
+    const number = (key: string, fallback: number) => encrypt.lookupMaybe(PDFName.of(key), PDFNumber)?.asNumber() ?? fallback;
+    const version = number('V', 0);
+    const revision = number('R', 2);
+    if (![1, 2, 4, 5].includes(version) || revision < 2 || revision > 6) {
+        throw new UnsupportedEncryptionError(`Versão de criptografia não suportada (V${version}, R${revision}).`);
+    }
+
+    const id = context.lookupMaybe(context.trailerInfo.ID, PDFArray);
+    const legacyMethod: CryptMethod = version === 5 ? 'aes256' : 'rc4';
+    return {
+        revision,
+        keyLength: version === 1 ? 5 : version === 5 ? 32 : number('Length', version === 4 ? 128 : 40) / 8,
+        owner: bytesOf(encrypt.get(PDFName.of('O'))),
+        user: bytesOf(encrypt.get(PDFName.of('U'))),
+        ownerEncryption: bytesOf(encrypt.get(PDFName.of('OE'))),
+        userEncryption: bytesOf(encrypt.get(PDFName.of('UE'))),
+        permissions: number('P', 0),
+        encryptMetadata: encrypt.lookupMaybe(PDFName.of('EncryptMetadata'), PDFBool)?.asBoolean() ?? true,
+        documentId: bytesOf(id?.get(0)),
+        streamMethod: version >= 4 ? cryptMethodOf(encrypt, 'StmF') : legacyMethod,
+        stringMethod: version >= 4 ? cryptMethodOf(encrypt, 'StrF') : legacyMethod,
+    };
+};
+
+const authenticate = async (handler: SecurityHandler, password: string) => {
+    const passwordBytes = encodePassword(password, handler.revision);
+    const fileKey = handler.revision >= 5
+        ? await authenticateAes256(handler, passwordBytes)
+        : authenticateLegacyUser(handler, passwordBytes) ?? authenticateLegacyOwner(handler, passwordBytes);
+    if (!fileKey) throw new PdfPasswordError();
+    return fileKey;
+};
+
+// --- Decifragem dos objetos ---
+
+// Chave por objeto (Algoritmo 1); no AES-256 a chave do arquivo é usada diretamente.
+const objectKey = (fileKey: Uint8Array, ref: PDFRef, method: CryptMethod) => {
+    if (method === 'aes256') return fileKey;
+    const key = md5(concatBytes(
+        fileKey,
+        new Uint8Array([ref.objectNumber & 0xff, (ref.objectNumber >> 8) & 0xff, (ref.objectNumber >> 16) & 0xff]),
+        new Uint8Array([ref.generationNumber & 0xff, (ref.generationNumber >> 8) & 0xff]),
+        method === 'aes128' ? new Uint8Array([0x73, 0x41, 0x6c, 0x54]) : new Uint8Array(0), // "sAlT"
+    ));
+    return key.subarray(0, Math.min(fileKey.length + 5, 16));
+};
+
+const decryptData = async (method: CryptMethod, key: Uint8Array, data: Uint8Array) => {
+    if (method === 'none') return data;
+    if (method === 'rc4') return rc4(key, data);
+    // AES: os 16 primeiros bytes são o vetor de inicialização.
+    if (data.length < 32 || data.length % 16 !== 0) return new Uint8Array(0);
+    try {
+        return await aesCbcDecrypt(key, data.subarray(0, 16), data.subarray(16));
+    } catch {
+        // Padding inválido: alguns geradores gravam strings vazias sem cifrar.
+        return new Uint8Array(0);
+    }
+};
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+
+type ByteTransform = (data: Uint8Array) => Promise<Uint8Array>;
+
+// Percorre o objeto trocando todas as strings (diretas) pela versão transformada.
+const transformStrings = async (object: PDFObject, transform: ByteTransform): Promise<PDFObject> => {
+    if (object instanceof PDFString || object instanceof PDFHexString) {
+        return PDFHexString.of(toHex(await transform(object.asBytes())));
+    }
+    if (object instanceof PDFDict) {
+        for (const [key, value] of object.entries()) {
+            object.set(key, await transformStrings(value, transform));
+        }
+    } else if (object instanceof PDFArray) {
+        for (let i = 0; i < object.size(); i++) {
+            object.set(i, await transformStrings(object.get(i), transform));
+        }
+    } else if (object instanceof PDFRawStream) {
+        await transformStrings(object.dict, transform);
+    }
+    return object;
+};
+
+// Objetos dentro de object streams não são cifrados individualmente: o stream inteiro é.
+// Como o pdf-lib tenta ler o object stream ainda cifrado, ele fica registrado como objeto inválido;
+// aqui ele é relido, decifrado e expandido.
+const expandObjectStream = async (context: PDFContext, ref: PDFRef, object: PDFInvalidObject, decrypt: ByteTransform) => {
+    const raw = new Uint8Array(object.sizeInBytes());
+    object.copyBytesInto(raw, 0);
+    let stream: PDFObject;
+    try {
+        stream = PDFObjectParser.forBytes(raw, context).parseObject();
+    } catch {
+        return;
+    }
+    if (!(stream instanceof PDFRawStream) || stream.dict.lookup(PDFName.of('Type')) !== PDFName.of('ObjStm')) return;
+
+    // Expande num contexto separado para não sobrescrever versões mais novas dos mesmos objetos.
+    const scratch = PDFContext.create();
+    const decrypted = PDFRawStream.of(stream.dict.clone(scratch), await decrypt(stream.contents));
+    await PDFObjectStreamParser.forStream(decrypted).parseIntoContext();
+    context.delete(ref);
+    for (const [objectRef, value] of scratch.enumerateIndirectObjects()) {
+        if (!context.lookup(objectRef)) context.assign(objectRef, value);
+    }
+};
+
+// Verifica se o PDF está criptografado sem carregá-lo inteiro no pdf-lib quando não há indício de /Encrypt.
+export const isPdfEncrypted = async (bytes: PdfBytes) => {
+    const data = toBytes(bytes);
+    const marker = [0x2f, 0x45, 0x6e, 0x63, 0x72, 0x79, 0x70, 0x74]; // "/Encrypt"
+    let found = false;
+    for (let i = data.length - marker.length; i >= 0 && !found; i--) {
+        found = marker.every((byte, j) => data[i + j] === byte);
+    }
+    if (!found) return false;
+    const context = await PDFParser.forBytesWithOptions(data).parseDocument();
+    return !!context.lookup(context.trailerInfo.Encrypt);
+};
+
+// Gera uma cópia sem criptografia. Aceita a senha do usuário ou a do proprietário;
+// PDFs protegidos só contra edição (senha de abertura vazia) abrem com a senha ''.
+export const decryptPdf = async (bytes: PdfBytes, password: string): Promise<Uint8Array> => {
+    const context = await PDFParser.forBytesWithOptions(toBytes(bytes)).parseDocument();
+    const encryptRef = context.trailerInfo.Encrypt;
+    if (!context.lookup(encryptRef)) return toBytes(bytes);
+
+    const handler = readSecurityHandler(context);
+    const fileKey = await authenticate(handler, password);
+
+    const invalidObjects: Array<[PDFRef, PDFInvalidObject]> = [];
+    for (const [ref, object] of context.enumerateIndirectObjects()) {
+        if (ref === encryptRef) continue;
+        if (object instanceof PDFInvalidObject) {
+            invalidObjects.push([ref, object]);
+            continue;
+        }
+
+        const decryptString = (data: Uint8Array) => decryptData(handler.stringMethod, objectKey(fileKey, ref, handler.stringMethod), data);
+        await transformStrings(object, decryptString);
+        if (object instanceof PDFRawStream) {
+            const isMetadata = object.dict.lookup(PDFName.of('Type')) === PDFName.of('Metadata');
+            if (isMetadata && !handler.encryptMetadata) continue;
+            const method = handler.streamMethod;
+            const contents = await decryptData(method, objectKey(fileKey, ref, method), object.contents);
+            context.assign(ref, PDFRawStream.of(object.dict, contents));
+        }
+    }
+
+    for (const [ref, object] of invalidObjects) {
+        const method = handler.streamMethod;
+        await expandObjectStream(context, ref, object, data => decryptData(method, objectKey(fileKey, ref, method), data));
+    }
+
+    if (encryptRef instanceof PDFRef) context.delete(encryptRef);
+    context.trailerInfo.Encrypt = undefined;
+    return PDFWriter.forContext(context, 50).serializeToBuffer();
+};
+
+// --- Criptografia ---
+
+export type EncryptionAlgorithm = 'aes128' | 'aes256';
+
+export interface PdfPermissions {
+    printing: 'none' | 'lowResolution' | 'highResolution';
+    copying: boolean;
+    modifying: boolean;
+    annotating: boolean;
+    fillingForms: boolean;
+    contentAccessibility: boolean;
+    documentAssembly: boolean;
+}
+
+export interface EncryptionOptions {
+    algorithm: EncryptionAlgorithm;
+    // Senha de abertura; vazia permite abrir o PDF sem senha, mantendo só as restrições.
+    userPassword: string;
+    // Senha que libera as restrições; vazia gera uma aleatória, para que a senha de abertura não as libere.
+    ownerPassword: string;
+    permissions: PdfPermissions;
+}
+
+export const ALL_PERMISSIONS: PdfPermissions = {
+    printing: 'highResolution',
+    copying: true,
+    modifying: true,
+    annotating: true,
+    fillingForms: true,
+    contentAccessibility: true,
+    documentAssembly: true,
+};
+
+// Valor /P (tabela 22 da ISO 32000): bit n ligado concede a permissão; os bits reservados 7-8 e 13-32 ficam ligados.
+export const permissionFlags = (permissions: PdfPermissions) => {
+    let flags = 0xfffff0c0 | 0;
+    if (permissions.printing !== 'none') flags |= 1 << 2;
+    if (permissions.modifying) flags |= 1 << 3;
+    if (permissions.copying) flags |= 1 << 4;
+    if (permissions.annotating) flags |= 1 << 5;
+    if (permissions.fillingForms) flags |= 1 << 8;
+    if (permissions.contentAccessibility) flags |= 1 << 9;
+    if (permissions.documentAssembly) flags |= 1 << 10;
+    if (permissions.printing === 'highResolution') flags |= 1 << 11;
+    return flags;
+};
+
+const encryptData = async (method: CryptMethod, key: Uint8Array, data: Uint8Array) => {
+    if (method === 'rc4') return rc4(key, data);
+    const iv = randomBytes(16);
+    return concatBytes(iv, await aesCbcEncrypt(key, iv, data));
+};
+
+// Revisão 4 (AES-128): chave derivada da senha do usuário (Algoritmos 2, 3 e 5).
+const createAes128Handler = (context: PDFContext, userPassword: string, ownerPassword: string, permissions: number, documentId: Uint8Array) => {
+    const handler: SecurityHandler = {
+        revision: 4,
+        keyLength: 16,
+        owner: new Uint8Array(0),
+        user: new Uint8Array(0),
+        permissions,
+        encryptMetadata: true,
+        documentId,
+        streamMethod: 'aes128',
+        stringMethod: 'aes128',
+    };
+    const userBytes = encodePassword(userPassword, 4);
+    handler.owner = computeLegacyOwnerValue(handler, encodePassword(ownerPassword, 4), userBytes);
+    const fileKey = computeLegacyFileKey(handler, userBytes);
+    handler.user = computeLegacyUserValue(handler, fileKey);
+
+    const dict = context.obj({
+        Filter: 'Standard', V: 4, R: 4, Length: 128, P: permissions,
+        CF: { StdCF: { CFM: 'AESV2', AuthEvent: 'DocOpen', Length: 16 } }, StmF: 'StdCF', StrF: 'StdCF',
+    });
+    dict.set(PDFName.of('O'), PDFHexString.of(toHex(handler.owner)));
+    dict.set(PDFName.of('U'), PDFHexString.of(toHex(handler.user)));
+    return { dict, fileKey };
+};
+
+// Revisão 6 (AES-256): chave aleatória guardada cifrada em /UE e /OE (Algoritmos 8, 9 e 10).
+const createAes256Handler = async (context: PDFContext, userPassword: string, ownerPassword: string, permissions: number) => {
+    const fileKey = randomBytes(32);
+    const zeroIv = new Uint8Array(16);
+    const userBytes = encodePassword(userPassword, 6);
+    const ownerBytes = encodePassword(ownerPassword, 6);
+    const [userValidationSalt, userKeySalt, ownerValidationSalt, ownerKeySalt] = [randomBytes(8), randomBytes(8), randomBytes(8), randomBytes(8)];
+
+    const user = concatBytes(await computeHash(6, userBytes, userValidationSalt), userValidationSalt, userKeySalt);
+    const userEncryption = await aesCbcEncryptRaw(await computeHash(6, userBytes, userKeySalt), zeroIv, fileKey);
+    const owner = concatBytes(await computeHash(6, ownerBytes, ownerValidationSalt, user), ownerValidationSalt, ownerKeySalt);
+    const ownerEncryption = await aesCbcEncryptRaw(await computeHash(6, ownerBytes, ownerKeySalt, user), zeroIv, fileKey);
+    // "T" = metadados cifrados, "adb" é fixo; os 4 últimos bytes são aleatórios.
+    const perms = await aesCbcEncryptRaw(fileKey, zeroIv, concatBytes(
+        int32LittleEndian(permissions),
+        new Uint8Array([0xff, 0xff, 0xff, 0xff, 0x54, 0x61, 0x64, 0x62]),
+        randomBytes(4),
+    ));
+
+    const dict = context.obj({
+        Filter: 'Standard', V: 5, R: 6, Length: 256, P: permissions,
+        CF: { StdCF: { CFM: 'AESV3', AuthEvent: 'DocOpen', Length: 32 } }, StmF: 'StdCF', StrF: 'StdCF',
+    });
+    const entries: Array<[string, Uint8Array]> = [['O', owner], ['U', user], ['OE', ownerEncryption], ['UE', userEncryption], ['Perms', perms]];
+    for (const [key, value] of entries) dict.set(PDFName.of(key), PDFHexString.of(toHex(value)));
+    return { dict, fileKey };
+};
+
+// Criptografa um PDF sem criptografia (por exemplo, a saída de PDFDocument.save).
+export const encryptPdf = async (bytes: PdfBytes, options: EncryptionOptions): Promise<Uint8Array> => {
+    const context = await PDFParser.forBytesWithOptions(toBytes(bytes)).parseDocument();
+    if (context.lookup(context.trailerInfo.Encrypt)) {
+        throw new UnsupportedEncryptionError('O PDF já está criptografado. Abra-o com a senha antes de protegê-lo de novo.');
+    }
+
+    // O /ID entra na derivação da chave no AES-128; o pdf-lib não o grava, então criamos um quando falta.
+    let documentId = bytesOf(context.lookupMaybe(context.trailerInfo.ID, PDFArray)?.get(0));
+    if (documentId.length === 0) {
+        documentId = randomBytes(16);
+        context.trailerInfo.ID = context.obj([PDFHexString.of(toHex(documentId)), PDFHexString.of(toHex(documentId))]);
+    }
+
+    const ownerPassword = options.ownerPassword || toHex(randomBytes(16));
+    const permissions = permissionFlags(options.permissions);
+    const method: CryptMethod = options.algorithm;
+    const { dict, fileKey } = options.algorithm === 'aes256'
+        ? await createAes256Handler(context, options.userPassword, ownerPassword, permissions)
+        : createAes128Handler(context, options.userPassword, ownerPassword, permissions, documentId);
+
+    for (const [ref, object] of context.enumerateIndirectObjects()) {
+        if (object instanceof PDFInvalidObject) continue;
+        const key = objectKey(fileKey, ref, method);
+        await transformStrings(object, data => encryptData(method, key, data));
+        if (object instanceof PDFRawStream) {
+            context.assign(ref, PDFRawStream.of(object.dict, await encryptData(method, key, object.contents)));
+        }
+    }
+
+    context.trailerInfo.Encrypt = context.register(dict);
+    return PDFWriter.forContext(context, 50).serializeToBuffer();
+};
@@ -0,0 +1,59 @@
+import {
+    EditedPage,
+    ImageInput,
+    ImageLayoutOptions,
+    MergeImageInput,
+    MergeInput,
+    MergeOptions,
+    PdfBytes,
+    ProgressOptions,
+    RasterPage,
+    compressPdfWithReport,
+    editPdf,
+    extractPages,
+    imagesToPdf,
+    mergePdfs,
+    rebuildFromPageImages,
+} from './pdfOperations';
+import { EncryptionOptions, decryptPdf, encryptPdf } from './pdfSecurity';
+import { Recipe, RecipeInput, runRecipe } from './recipes';
+import { SplitMode, splitPdfToZip } from './split';
+import { COMPRESSION_PRESETS, CompressionPreset } from './imageCompression';
+import { canvasImageCodec } from './canvasCodec';
+import { analyzePdfSize } from './sizeAnalysis';
+import { BatchInput, compressBatchToZip } from './batchCompression';
+import { SanitizeItem, inspectPdf, sanitizePdf } from './sanitize';
+import { DocumentProperties, readDocumentProperties, setDocumentProperties } from './documentProperties';
+import type { CustomFont } from './pageText';
+
+// Tarefas que podem ser executadas no Web Worker (workers/pdfTask.worker.ts).
+// Cada tarefa recebe um único objeto de argumentos, que precisa ser clonável por postMessage.
+export const pdfTasks = {
+    merge: (args: { inputs: Array<MergeInput | MergeImageInput>; options?: Omit<MergeOptions, keyof ProgressOptions> }, progress: ProgressOptions) =>
+        mergePdfs(args.inputs, { ...args.options, ...progress }),
+    extract: (args: { bytes: PdfBytes; pageIndices: number[] }, options: ProgressOptions) =>
+        extractPages(args.bytes, args.pageIndices, options),
+    split: (args: { bytes: PdfBytes; mode: SplitMode; baseName?: string }, options: ProgressOptions) =>
+        splitPdfToZip(args.bytes, args.mode, { baseName: args.baseName, ...options }),
+    edit: (args: { bytes: PdfBytes; pages: EditedPage[]; fonts?: CustomFont[] }, options: ProgressOptions) =>
+        editPdf(args.bytes, args.pages, { fonts: args.fonts, ...options }),
+    imagesToPdf: (args: { images: ImageInput[]; layout: ImageLayoutOptions; properties?: Partial<DocumentProperties> }, options: ProgressOptions) =>
+        imagesToPdf(args.images, { ...args.layout, properties: args.properties, ...options }),
+    compress: (args: { bytes: PdfBytes; preset: CompressionPreset }, options: ProgressOptions) =>
+        compressPdfWithReport(args.bytes, { images: COMPRESSION_PRESETS[args.preset], codec: canvasImageCodec, ...options }),
+    compressBatch: (args: { files: BatchInput[]; preset: CompressionPreset }, options: ProgressOptions) =>
+        compressBatchToZip(args.files, { images: COMPRESSION_PRESETS[args.preset], codec: canvasImageCodec, ...options }),
+    rasterize: (args: { pages: RasterPage[] }, options: ProgressOptions) => rebuildFromPageImages(args.pages, options),
+    analyzeSize: (args: { bytes: PdfBytes }) => analyzePdfSize(args.bytes),
+    recipe: (args: { recipe: Recipe; inputs: RecipeInput[] }, options: ProgressOptions) => runRecipe(args.recipe, args.inputs, { codec: canvasImageCodec, ...options }),
+    inspect: (args: { bytes: PdfBytes }) => inspectPdf(args.bytes),
+    sanitize: (args: { bytes: PdfBytes; items: SanitizeItem[] }) => sanitizePdf(args.bytes, args.items),
+    readProperties: (args: { bytes: PdfBytes }) => readDocumentProperties(args.bytes),
+    setProperties: (args: { bytes: PdfBytes; properties: Partial<DocumentProperties> }) => setDocumentProperties(args.bytes, args.properties),
+    decrypt: (args: { bytes: PdfBytes; password: string }) => decryptPdf(args.bytes, args.password),
+    encrypt: (args: { bytes: PdfBytes; options: EncryptionOptions }) => encryptPdf(args.bytes, args.options),
+};
+
+export type PdfTaskName = keyof typeof pdfTasks;
+export type PdfTaskArgs<K extends PdfTaskName> = Parameters<(typeof pdfTasks)[K]>[0];
+export type PdfTaskResult<K extends PdfTaskName> = Awaited<ReturnType<(typeof pdfTasks)[K]>>;
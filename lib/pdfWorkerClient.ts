@@ -0,0 +1,61 @@
+import type { OperationProgress } from './pdfOperations';
+import type { PdfTaskArgs, PdfTaskName, PdfTaskResult } from './pdfTasks';
+import { collectTransferables, RunTaskMessage, WorkerResponse } from '../workers/protocol';
+
+export interface RunTaskOptions {
+    onProgress?: (progress: OperationProgress) => void;
+    signal?: AbortSignal;
+}
+
+// Erro reconstruído a partir da mensagem do worker, preservando o nome original (ex.: PageRangeError).
+export class PdfTaskError extends Error {
+    constructor(message: string, name: string) {
+        super(message);
+        this.name = name;
+    }
+}
+
+export const isTaskCancelled = (e: unknown) => e instanceof DOMException && e.name === 'AbortError';
+
+// Cada tarefa ganha seu próprio worker; cancelar encerra o worker imediatamente,
+// mesmo no meio de um load/copyPages/save síncrono do pdf-lib.
+export const runPdfTask = <K extends PdfTaskName>(task: K, args: PdfTaskArgs<K>, options: RunTaskOptions = {}): Promise<PdfTaskResult<K>> => {
+    const { onProgress, signal } = options;
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new DOMException('Tarefa cancelada', 'AbortError'));
+            return;
+        }
+
+        const worker = new Worker(new URL('../workers/pdfTask.worker.ts', import.meta.url), { type: 'module' });
+        const finish = () => {
+            worker.terminate();
+            signal?.removeEventListener('abort', handleAbort);
+        };
+        const handleAbort = () => {
+            finish();
+            reject(new DOMException('Tarefa cancelada', 'AbortError'));
+        };
+        signal?.addEventListener('abort', handleAbort);
+
+        worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+            const message = event.data;
+            if (message.type === 'progress') {
+                onProgress?.(message.progress);
+            } else if (message.type === 'result') {
+                finish();
+                resolve(message.result as PdfTaskResult<K>);
+            } else {
+                finish();
+                reject(new PdfTaskError(message.message, message.name));
+            }
+        };
+        worker.onerror = (event) => {
+            finish();
+            reject(new Error(event.message || 'Falha no worker de PDF'));
+        };
+
+        const message: RunTaskMessage = { type: 'run', task, args };
+        worker.postMessage(message, { transfer: collectTransferables(args) });
+    });
+};
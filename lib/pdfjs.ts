@@ -0,0 +1,26 @@
+import * as pdfjsLib from 'pdfjs-dist';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import pdfjsWorker from 'pdfjs-dist/build/pdf.worker.js?url';
+
+// Configura o Vite para usar o worker local, resolvendo problemas de CORS/CSP da CDN
+pdfjsLib.GlobalWorkerOptions.workerSrc = pdfjsWorker;
+
+// Um único PDFDocumentProxy por arquivo, compartilhado entre as ferramentas que exibem páginas.
+const documents = new WeakMap<File, Promise<PDFDocumentProxy>>();
+
+export const loadPdfDocument = (file: File): Promise<PDFDocumentProxy> => {
+    let pdf = documents.get(file);
+    if (!pdf) {
+        pdf = file.arrayBuffer().then(buffer => pdfjsLib.getDocument(new Uint8Array(buffer)).promise);
+        // Uma falha não deve ficar em cache, para que uma nova tentativa volte a ler o arquivo.
+        pdf.catch(() => documents.delete(file));
+        documents.set(file, pdf);
+    }
+    return pdf;
+};
+
+export const releasePdfDocument = (file: File) => {
+    const pdf = documents.get(file);
+    documents.delete(file);
+    pdf?.then(doc => doc.destroy(), () => undefined);
+};
@@ -0,0 +1,72 @@
+import { loadPdfDocument } from './pdfjs';
+
+// Renderização de páginas inteiras com o pdf.js, para reconstruir documentos digitalizados como uma
+// imagem JPEG por página (rebuildFromPageImages). Roda na thread principal, onde há canvas.
+
+export type ColorMode = 'color' | 'grayscale' | 'bw';
+
+export interface RasterSettings {
+    dpi: number;
+    colorMode: ColorMode;
+    quality: number; // JPEG, de 0 a 1
+}
+
+export interface RenderedPage {
+    bytes: Uint8Array; // JPEG
+    width: number; // pt, já com a rotação da página aplicada
+    height: number; // pt
+}
+
+// Luminância abaixo da qual o pixel vira preto no modo preto e branco.
+const BW_THRESHOLD = 160;
+
+// Converte os pixels RGBA no lugar.
+export const applyColorMode = (pixels: Uint8ClampedArray, colorMode: ColorMode) => {
+    if (colorMode === 'color') return;
+    for (let i = 0; i < pixels.length; i += 4) {
+        const luminance = 0.299 * pixels[i] + 0.587 * pixels[i + 1] + 0.114 * pixels[i + 2];
+        const value = colorMode === 'bw' ? (luminance < BW_THRESHOLD ? 0 : 255) : luminance;
+        pixels[i] = pixels[i + 1] = pixels[i + 2] = value;
+    }
+};
+
+const renderToCanvas = async (file: File, pageNumber: number, dpi: number) => {
+    const pdf = await loadPdfDocument(file);
+    const page = await pdf.getPage(pageNumber);
+    const { width, height } = page.getViewport({ scale: 1 });
+    const viewport = page.getViewport({ scale: dpi / 72 });
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(viewport.width));
+    canvas.height = Math.max(1, Math.round(viewport.height));
+    const context = canvas.getContext('2d', { willReadFrequently: true });
+    if (!context) throw new Error('Canvas 2D indisponível');
+
+    // Fundo branco: o JPEG não tem transparência.
+    context.fillStyle = '#fff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    await page.render({ canvasContext: context, viewport }).promise;
+    page.cleanup();
+    return { canvas, context, width, height };
+};
+
+const toBlob = (canvas: HTMLCanvasElement, type: string, quality?: number) =>
+    new Promise<Blob>((resolve, reject) =>
+        canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Falha ao gerar a imagem da página'))), type, quality));
+
+// Renderiza a página (base 1) com as configurações escolhidas e a codifica como JPEG.
+export const renderPageAsJpeg = async (file: File, pageNumber: number, settings: RasterSettings): Promise<RenderedPage> => {
+    const { canvas, context, width, height } = await renderToCanvas(file, pageNumber, settings.dpi);
+    if (settings.colorMode !== 'color') {
+        const imageData = context.getImageData(0, 0, canvas.width, canvas.height);
+        applyColorMode(imageData.data, settings.colorMode);
+        context.putImageData(imageData, 0, 0);
+    }
+    const blob = await toBlob(canvas, 'image/jpeg', settings.quality);
+    return { bytes: new Uint8Array(await blob.arrayBuffer()), width, height };
+};
+
+// Renderização sem perdas da página original, para comparar com o resultado na pré-visualização.
+export const renderPageAsPng = async (file: File, pageNumber: number, dpi: number): Promise<Blob> => {
+    const { canvas } = await renderToCanvas(file, pageNumber, dpi);
+    return toBlob(canvas, 'image/png');
+};
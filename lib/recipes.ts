@@ -0,0 +1,148 @@
+import { PDFDocument } from 'pdf-lib';
+import {
+    PdfBytes,
+    PageNumberFormat,
+    PageNumberPosition,
+    PageOrientationFilter,
+    ProgressOptions,
+    addPageNumbers,
+    compressPdf,
+    extractPages,
+    mergePdfs,
+    rotatePages,
+} from './pdfOperations';
+import { parsePageRange } from './pageRanges';
+import { COMPRESSION_PRESETS, CompressionPreset, ImageCodec } from './imageCompression';
+import { toFileSlug } from './format';
+
+export type RecipeStep =
+    | { type: 'extract'; pages: string }
+    | { type: 'rotate'; angle: 90 | 180 | 270; target: PageOrientationFilter }
+    | { type: 'pageNumbers'; position: PageNumberPosition; format: PageNumberFormat }
+    | { type: 'compress'; preset?: CompressionPreset }; // receitas salvas antes dos níveis não têm preset
+
+export type RecipeStepType = RecipeStep['type'];
+
+// 'combined' junta todos os arquivos do lote antes dos passos; 'perInput' aplica os passos a cada arquivo.
+export type RecipeOutputMode = 'combined' | 'perInput';
+
+export interface Recipe {
+    id: string;
+    name: string;
+    outputMode: RecipeOutputMode;
+    steps: RecipeStep[];
+}
+
+export interface RecipeInput {
+    name: string;
+    bytes: PdfBytes;
+}
+
+export interface RecipeOptions extends ProgressOptions {
+    // Codec das imagens do passo de compressão; sem ele (em Node), o passo só otimiza a estrutura do arquivo.
+    codec?: ImageCodec;
+}
+
+const DEFAULT_COMPRESSION_PRESET: CompressionPreset = 'medium';
+
+export interface RecipeOutput {
+    name: string;
+    bytes: Uint8Array;
+}
+
+export const STEP_LABELS: Record<RecipeStepType, string> = {
+    extract: 'Extrair páginas',
+    rotate: 'Rotacionar páginas',
+    pageNumbers: 'Numerar páginas',
+    compress: 'Comprimir',
+};
+
+export const createStep = (type: RecipeStepType): RecipeStep => {
+    switch (type) {
+        case 'extract':
+            return { type, pages: '1' };
+        case 'rotate':
+            return { type, angle: 90, target: 'landscape' };
+        case 'pageNumbers':
+            return { type, position: 'bottom-center', format: 'number' };
+        case 'compress':
+            return { type, preset: DEFAULT_COMPRESSION_PRESET };
+    }
+};
+
+export const createRecipe = (name = 'Nova receita'): Recipe => ({
+    id: `recipe-${Date.now()}`,
+    name,
+    outputMode: 'perInput',
+    steps: [],
+});
+
+export const DEFAULT_RECIPES: Recipe[] = [
+    {
+        id: 'recipe-pranchas',
+        name: 'Pranchas recebidas',
+        outputMode: 'combined',
+        steps: [
+            { type: 'rotate', angle: 90, target: 'landscape' },
+            { type: 'pageNumbers', position: 'bottom-right', format: 'number-of-total' },
+            { type: 'compress', preset: DEFAULT_COMPRESSION_PRESET },
+        ],
+    },
+];
+
+const STORAGE_KEY = 'rd-pdf-recipes';
+
+export const loadRecipes = (): Recipe[] => {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        return stored ? (JSON.parse(stored) as Recipe[]) : DEFAULT_RECIPES;
+    } catch (e) {
+        console.error('Failed to load recipes', e);
+        return DEFAULT_RECIPES;
+    }
+};
+
+export const saveRecipes = (recipes: Recipe[]) => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(recipes));
+};
+
+const runStep = async (bytes: PdfBytes, step: RecipeStep, codec?: ImageCodec): Promise<Uint8Array> => {
+    switch (step.type) {
+        case 'extract': {
+            const pdfDoc = await PDFDocument.load(bytes);
+            return extractPages(bytes, parsePageRange(step.pages, pdfDoc.getPageCount()));
+        }
+        case 'rotate':
+            return rotatePages(bytes, { angle: step.angle, target: step.target });
+        case 'pageNumbers':
+            return addPageNumbers(bytes, { position: step.position, format: step.format });
+        case 'compress':
+            return compressPdf(bytes, { images: COMPRESSION_PRESETS[step.preset ?? DEFAULT_COMPRESSION_PRESET], codec });
+    }
+};
+
+const stripExtension = (fileName: string) => fileName.replace(/\.pdf$/i, '');
+
+export const runRecipe = async (
+    recipe: Recipe,
+    inputs: RecipeInput[],
+    options: RecipeOptions = {},
+): Promise<RecipeOutput[]> => {
+    if (inputs.length === 0) return [];
+    const slug = toFileSlug(recipe.name, 'receita');
+
+    const jobs: RecipeInput[] = recipe.outputMode === 'combined'
+        ? [{ name: `${slug}.pdf`, bytes: await mergePdfs(inputs.map(input => input.bytes), options) }]
+        : inputs.map(input => ({ name: `${stripExtension(input.name)}-${slug}.pdf`, bytes: input.bytes }));
+
+    const outputs: RecipeOutput[] = [];
+    for (const job of jobs) {
+        let bytes: PdfBytes = job.bytes;
+        for (let i = 0; i < recipe.steps.length; i++) {
+            options.onProgress?.({ stage: 'processing', unit: 'step', current: i + 1, total: recipe.steps.length, detail: job.name });
+            bytes = await runStep(bytes, recipe.steps[i], options.codec);
+        }
+        outputs.push({ name: job.name, bytes: bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes) });
+    }
+    return outputs;
+};
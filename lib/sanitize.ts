@@ -0,0 +1,248 @@
+import {
+    PDFArray,
+    PDFDict,
+    PDFDocument,
+    PDFHexString,
+    PDFName,
+    PDFObject,
+    PDFStream,
+    PDFString,
+} from 'pdf-lib';
+import type { PdfBytes } from './pdfOperations';
+import { removeUnreachableObjects } from './objectGraph';
+
+// Limpeza de PDFs antes de enviá-los para fora: cada categoria é procurada direto nos objetos do documento
+// e, se marcada, removida. Os objetos que ficam sem referência (o arquivo anexado, o stream XMP...) são
+// apagados no final, senão o pdf-lib continuaria gravando-os.
+
+export type SanitizeItem = 'metadata' | 'xmp' | 'attachments' | 'javascript' | 'formActions' | 'comments';
+
+export const SANITIZE_ITEMS: SanitizeItem[] = ['metadata', 'xmp', 'attachments', 'javascript', 'formActions', 'comments'];
+
+export interface SanitizeFinding {
+    count: number;
+    details: string[]; // descrições legíveis do que foi encontrado (autor, nome do anexo...)
+    removed: boolean;
+}
+
+export type SanitizeReport = Record<SanitizeItem, SanitizeFinding>;
+
+export interface SanitizeResult {
+    bytes: Uint8Array;
+    report: SanitizeReport;
+}
+
+interface Finding {
+    item: SanitizeItem;
+    detail?: string;
+    remove: () => void;
+}
+
+const INFO_LABELS: Record<string, string> = {
+    Title: 'Título',
+    Author: 'Autor',
+    Subject: 'Assunto',
+    Keywords: 'Palavras-chave',
+    Creator: 'Criado com',
+    Producer: 'Produtor',
+    CreationDate: 'Data de criação',
+    ModDate: 'Data de modificação',
+};
+
+// Anotações de comentário (ISO 32000, 12.5.6): notas, marcações de texto, desenhos e carimbos.
+// Links, campos de formulário e anexos (tratados à parte) não entram.
+const COMMENT_SUBTYPES = new Set([
+    'Text', 'FreeText', 'Popup', 'Highlight', 'Underline', 'StrikeOut', 'Squiggly', 'Caret',
+    'Ink', 'Square', 'Circle', 'Line', 'Polygon', 'PolyLine', 'Stamp', 'Sound',
+]);
+
+const SCRIPT_ACTIONS = new Set(['JavaScript', 'Launch']);
+const FORM_ACTIONS = new Set(['SubmitForm', 'ResetForm', 'ImportData', 'JavaScript']);
+
+const MAX_DETAIL_LENGTH = 80;
+
+const textOf = (object: PDFObject | undefined) =>
+    object instanceof PDFString || object instanceof PDFHexString ? object.decodeText() : '';
+
+const nameOf = (object: PDFObject | undefined) => (object instanceof PDFName ? object.decodeText() : '');
+
+const truncate = (text: string) => (text.length > MAX_DETAIL_LENGTH ? `${text.slice(0, MAX_DETAIL_LENGTH - 1)}…` : text);
+
+const dictOf = (object: PDFObject | undefined) =>
+    object instanceof PDFDict ? object : object instanceof PDFStream ? object.dict : undefined;
+
+// Tipos (/S) de uma ação e das que vêm depois dela em /Next (um dicionário ou um array de ações).
+// Guarda as já visitadas, porque nada impede um /Next de apontar de volta para o começo da cadeia.
+const actionChainTypes = (action: PDFObject | undefined, visited = new Set<PDFObject>()): string[] => {
+    if (!(action instanceof PDFDict) || visited.has(action)) return [];
+    visited.add(action);
+    const next = action.lookup(PDFName.of('Next'));
+    const following = next instanceof PDFArray
+        ? next.asArray().flatMap(entry => actionChainTypes(action.context.lookup(entry), visited))
+        : actionChainTypes(next, visited);
+    return [nameOf(action.lookup(PDFName.of('S'))), ...following];
+};
+
+// Campos de formulário e seus widgets.
+const isFormObject = (dict: PDFDict) =>
+    dict.has(PDFName.of('FT')) || dict.lookup(PDFName.of('Subtype')) === PDFName.of('Widget');
+
+// Procura tudo o que pode ser limpo, sem alterar nada; cada achado sabe se remover.
+const findSensitiveContent = (pdfDoc: PDFDocument): Finding[] => {
+    const { context, catalog } = pdfDoc;
+    const findings: Finding[] = [];
+    const key = (name: string) => PDFName.of(name);
+
+    // Dicionário Info: uma entrada por campo preenchido.
+    const info = context.lookup(context.trailerInfo.Info);
+    if (info instanceof PDFDict) {
+        for (const [name, value] of info.entries()) {
+            const text = textOf(value);
+            if (!text) continue;
+            const label = INFO_LABELS[name.decodeText()] ?? name.decodeText();
+            findings.push({ item: 'metadata', detail: truncate(`${label}: ${text}`), remove: () => info.delete(name) });
+        }
+    }
+
+    const names = catalog.lookupMaybe(key('Names'), PDFDict);
+    const embeddedFiles = names?.lookupMaybe(key('EmbeddedFiles'), PDFDict);
+    // /AF (PDF 2.0) costuma repetir os mesmos anexos da árvore de nomes, então sai junto com ela.
+    const removeAttachments = () => {
+        names?.delete(key('EmbeddedFiles'));
+        catalog.delete(key('AF'));
+    };
+    if (embeddedFiles) {
+        const fileNames: string[] = [];
+        const walk = (node: PDFDict) => {
+            const pairs = node.lookupMaybe(key('Names'), PDFArray);
+            for (let i = 1; pairs && i < pairs.size(); i += 2) {
+                const spec = pairs.lookupMaybe(i, PDFDict);
+                fileNames.push(textOf(spec?.lookup(key('UF'))) || textOf(spec?.lookup(key('F'))) || textOf(pairs.lookup(i - 1)));
+            }
+            node.lookupMaybe(key('Kids'), PDFArray)?.asArray().forEach(kid => {
+                const child = context.lookup(kid);
+                if (child instanceof PDFDict) walk(child);
+            });
+        };
+        walk(embeddedFiles);
+        findings.push(...fileNames.map(name => ({ item: 'attachments' as const, detail: name, remove: removeAttachments })));
+        if (fileNames.length === 0) findings.push({ item: 'attachments', remove: removeAttachments });
+    } else if (catalog.has(key('AF'))) {
+        findings.push({ item: 'attachments', detail: 'Arquivos associados ao documento', remove: removeAttachments });
+    }
+
+    if (names?.has(key('JavaScript'))) {
+        findings.push({ item: 'javascript', detail: 'Scripts do documento', remove: () => names.delete(key('JavaScript')) });
+    }
+    // Uma OpenAction comum só escolhe a página inicial (um destino ou GoTo); só conta se executar algo.
+    const openAction = catalog.lookup(key('OpenAction'));
+    if (actionChainTypes(openAction).some(type => SCRIPT_ACTIONS.has(type))) {
+        findings.push({ item: 'javascript', detail: 'Ação ao abrir o documento', remove: () => catalog.delete(key('OpenAction')) });
+    }
+    if (catalog.has(key('AA'))) {
+        findings.push({ item: 'javascript', detail: 'Ações do documento (ao fechar, salvar, imprimir)', remove: () => catalog.delete(key('AA')) });
+    }
+
+    const acroForm = catalog.lookupMaybe(key('AcroForm'), PDFDict);
+    for (const formKey of ['XFA', 'CO']) {
+        if (acroForm?.has(key(formKey))) {
+            findings.push({
+                item: 'formActions',
+                detail: formKey === 'XFA' ? 'Formulário XFA' : 'Ordem de cálculo dos campos',
+                remove: () => acroForm.delete(key(formKey)),
+            });
+        }
+    }
+
+    pdfDoc.getPages().forEach((page, pageIndex) => {
+        const pageLabel = `Página ${pageIndex + 1}`;
+        if (page.node.has(key('AA'))) {
+            findings.push({ item: 'javascript', detail: `${pageLabel}: ações ao abrir ou fechar`, remove: () => page.node.delete(key('AA')) });
+        }
+        const annots = page.node.lookupMaybe(key('Annots'), PDFArray);
+        if (!annots) return;
+        for (const entry of annots.asArray()) {
+            const annot = context.lookup(entry);
+            if (!(annot instanceof PDFDict)) continue;
+            const subtype = nameOf(annot.lookup(key('Subtype')));
+            // Remove pela identidade, já que outras remoções podem mudar as posições no array. O popup que
+            // exibe o texto da anotação sai junto com ela.
+            const popup = annot.get(key('Popup'));
+            const removeAnnot = () => [entry, popup].forEach(object => {
+                const index = object && annots.indexOf(object);
+                if (index !== undefined) annots.remove(index);
+            });
+            if (subtype === 'Popup' && annot.has(key('Parent'))) continue;
+            if (subtype === 'FileAttachment') {
+                const spec = annot.lookupMaybe(key('FS'), PDFDict);
+                findings.push({ item: 'attachments', detail: `${pageLabel}: ${textOf(spec?.lookup(key('UF'))) || textOf(spec?.lookup(key('F'))) || 'anexo'}`, remove: removeAnnot });
+            } else if (COMMENT_SUBTYPES.has(subtype)) {
+                const contents = textOf(annot.lookup(key('Contents')));
+                const author = textOf(annot.lookup(key('T')));
+                const description = [author, contents].filter(Boolean).join(': ') || subtype;
+                findings.push({ item: 'comments', detail: truncate(`${pageLabel}: ${description}`), remove: removeAnnot });
+            }
+        }
+    });
+
+    // Ações soltas pelo documento (links, marcadores, campos): scripts e comandos externos, e ações de formulário.
+    for (const [, object] of context.enumerateIndirectObjects()) {
+        const dict = dictOf(object);
+        if (!dict || dict === catalog) continue;
+        const isForm = isFormObject(dict);
+        if (isForm && dict.has(key('AA'))) {
+            const fieldName = textOf(dict.lookup(key('T')));
+            findings.push({ item: 'formActions', detail: fieldName ? `Campo ${fieldName}: ações` : undefined, remove: () => dict.delete(key('AA')) });
+        }
+        // A cadeia inteira sai junto com /A, inclusive as ações inofensivas que vinham antes da perigosa.
+        const actionTypes = actionChainTypes(dict.lookup(key('A')));
+        const removeAction = () => dict.delete(key('A'));
+        const formActionType = actionTypes.find(type => FORM_ACTIONS.has(type));
+        if (actionTypes.includes('Launch')) {
+            findings.push({ item: 'javascript', detail: isForm ? 'Botão que abre um programa ou arquivo' : 'Link que abre um programa ou arquivo', remove: removeAction });
+        } else if (isForm && formActionType) {
+            findings.push({ item: 'formActions', detail: `Ação ${formActionType}`, remove: removeAction });
+        } else if (!isForm && actionTypes.includes('JavaScript')) {
+            findings.push({ item: 'javascript', detail: 'Link com script', remove: removeAction });
+        }
+    }
+
+    if (catalog.has(key('Metadata'))) findings.push({ item: 'xmp', detail: 'Metadados XMP do documento', remove: () => catalog.delete(key('Metadata')) });
+    for (const [, object] of context.enumerateIndirectObjects()) {
+        const dict = dictOf(object);
+        if (!dict || dict === catalog || !dict.has(key('Metadata'))) continue;
+        findings.push({ item: 'xmp', remove: () => dict.delete(key('Metadata')) });
+    }
+
+    return findings;
+};
+
+const buildReport = (findings: Finding[], removed: Set<SanitizeItem>): SanitizeReport => {
+    const report = Object.fromEntries(SANITIZE_ITEMS.map(item => [item, { count: 0, details: [] as string[], removed: false }])) as SanitizeReport;
+    for (const { item, detail } of findings) {
+        report[item].count++;
+        if (detail) report[item].details.push(detail);
+        report[item].removed = removed.has(item);
+    }
+    return report;
+};
+
+// Lista o que o documento contém, sem alterá-lo.
+export const inspectPdf = async (bytes: PdfBytes): Promise<SanitizeReport> => {
+    const pdfDoc = await PDFDocument.load(bytes, { updateMetadata: false });
+    return buildReport(findSensitiveContent(pdfDoc), new Set());
+};
+
+export const sanitizePdf = async (bytes: PdfBytes, items: SanitizeItem[]): Promise<SanitizeResult> => {
+    // Sem updateMetadata, o pdf-lib não grava o próprio nome e datas no dicionário Info.
+    const pdfDoc = await PDFDocument.load(bytes, { updateMetadata: false });
+    const selected = new Set(items);
+    const findings = findSensitiveContent(pdfDoc);
+    findings.filter(({ item }) => selected.has(item)).forEach(finding => finding.remove());
+
+    // O dicionário Info sai do trailer inteiro, com o que não é texto (Trapped, chaves de outros programas).
+    if (selected.has('metadata')) pdfDoc.context.trailerInfo.Info = undefined;
+    removeUnreachableObjects(pdfDoc.context);
+
+    return { bytes: await pdfDoc.save(), report: buildReport(findings, selected) };
+};
@@ -0,0 +1,60 @@
+// Registro do service worker gerado no build (plugins/serviceWorker.ts) e aviso de nova versão.
+// Só é registrado em produção: no `vite dev` os arquivos não têm hash e o cache atrapalharia.
+
+type UpdateListener = (waiting: ServiceWorker | null) => void;
+
+let waitingWorker: ServiceWorker | null = null;
+let isApplyingUpdate = false;
+const listeners = new Set<UpdateListener>();
+
+const setWaitingWorker = (worker: ServiceWorker | null) => {
+    waitingWorker = worker;
+    listeners.forEach(listener => listener(worker));
+};
+
+export const subscribeToUpdates = (listener: UpdateListener) => {
+    listeners.add(listener);
+    listener(waitingWorker);
+    return () => {
+        listeners.delete(listener);
+    };
+};
+
+// Ativa a versão que está esperando; a página recarrega quando ela assumir o controle.
+export const applyUpdate = () => {
+    if (!waitingWorker) return;
+    isApplyingUpdate = true;
+    waitingWorker.postMessage({ type: 'SKIP_WAITING' });
+};
+
+export const registerServiceWorker = () => {
+    if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+    navigator.serviceWorker.addEventListener('controllerchange', () => {
+        // Na primeira instalação o worker também assume o controle, mas aí não há o que recarregar.
+        if (isApplyingUpdate) window.location.reload();
+    });
+
+    window.addEventListener('load', async () => {
+        try {
+            const registration = await navigator.serviceWorker.register(`${import.meta.env.BASE_URL}service-worker.js`);
+            if (registration.waiting && navigator.serviceWorker.controller) {
+                setWaitingWorker(registration.waiting);
+            }
+            registration.addEventListener('updatefound', () => {
+                const installing = registration.installing;
+                installing?.addEventListener('statechange', () => {
+                    if (installing.state === 'installed' && navigator.serviceWorker.controller) {
+                        setWaitingWorker(installing);
+                    }
+                });
+            });
+
+            // Guarda o modelo de remoção de fundo para uso offline, sem atrasar a instalação do app.
+            const ready = await navigator.serviceWorker.ready;
+            ready.active?.postMessage({ type: 'PRECACHE_MODELS' });
+        } catch (error) {
+            console.log('ServiceWorker registration failed: ', error);
+        }
+    });
+};
@@ -0,0 +1,199 @@
+import {
+    PDFArray,
+    PDFDict,
+    PDFDocument,
+    PDFHexString,
+    PDFName,
+    PDFNumber,
+    PDFObject,
+    PDFRef,
+    PDFStream,
+    PDFString,
+} from 'pdf-lib';
+import { filtersOf, findImagePlacements } from './imageCompression';
+import type { PdfBytes } from './pdfOperations';
+import { collectRefs, findReachableRefs } from './objectGraph';
+
+// Relatório do que ocupa espaço em um PDF. Cada objeto indireto é atribuído a uma única categoria, na ordem
+// metadados → anexos → imagens → fontes → conteúdo das páginas, levando junto os objetos que só ele alcança
+// (a máscara de uma imagem, o arquivo de uma fonte...). Os tamanhos são os dos objetos serializados sem
+// compressão de object streams, então a soma pode passar um pouco do tamanho do arquivo.
+
+export type SizeCategory = 'images' | 'fonts' | 'content' | 'attachments' | 'metadata' | 'unused' | 'other' | 'overhead';
+
+export interface ImageUsage {
+    id: string; // "12 0 R"
+    width: number; // pixels
+    height: number;
+    dpi: number | null; // no maior tamanho em que aparece; null se não é desenhada em nenhuma página
+    filter: string;
+    bytes: number;
+}
+
+export interface FontUsage {
+    name: string;
+    type: string;
+    embedded: boolean;
+    subset: boolean;
+    bytes: number;
+}
+
+export interface AttachmentUsage {
+    name: string;
+    bytes: number;
+}
+
+export interface SizeReport {
+    fileSize: number;
+    categories: Record<SizeCategory, number>;
+    images: ImageUsage[];
+    fonts: FontUsage[];
+    attachments: AttachmentUsage[];
+    unusedObjects: number;
+}
+
+// Chaves que apontam de volta para a estrutura (página, pai na árvore): não são seguidas ao atribuir
+// objetos a uma imagem, fonte ou anexo.
+const BACK_REFERENCES = new Set([PDFName.of('Parent'), PDFName.of('P')]);
+
+const FONT_FILES = ['FontFile', 'FontFile2', 'FontFile3'].map(key => PDFName.of(key));
+
+// Fontes subconjunto têm um prefixo de seis maiúsculas no nome (ABCDEF+Helvetica).
+const SUBSET_PREFIX = /^[A-Z]{6}\+/;
+
+const textOf = (object: PDFObject | undefined) =>
+    object instanceof PDFString || object instanceof PDFHexString ? object.decodeText() : '';
+
+const nameOf = (object: PDFObject | undefined) => (object instanceof PDFName ? object.decodeText() : '');
+
+const dictOf = (object: PDFObject | undefined) =>
+    object instanceof PDFDict ? object : object instanceof PDFStream ? object.dict : undefined;
+
+export const analyzePdfSize = async (bytes: PdfBytes): Promise<SizeReport> => {
+    const pdfDoc = await PDFDocument.load(bytes);
+    const { context } = pdfDoc;
+    const objects = new Map(context.enumerateIndirectObjects());
+    // Como o pdf-lib grava: "12 0 obj\n" + objeto + "\nendobj\n\n".
+    const sizeOf = (ref: PDFRef) => {
+        const object = objects.get(ref);
+        return object ? ref.sizeInBytes() + object.sizeInBytes() + 11 : 0;
+    };
+
+    const reachable = findReachableRefs(context);
+    const { Info } = context.trailerInfo;
+
+    const owners = new Map<PDFRef, SizeCategory>();
+    // Atribui o objeto (e, com follow, o que ele alcança e ainda não tem dono) à categoria; devolve os bytes.
+    const claim = (root: PDFRef, category: SizeCategory, follow: boolean) => {
+        let total = 0;
+        const queue = [root];
+        while (queue.length > 0) {
+            const ref = queue.pop()!;
+            if (owners.has(ref) || !reachable.has(ref)) continue;
+            owners.set(ref, category);
+            total += sizeOf(ref);
+            if (follow) collectRefs(objects.get(ref), queue, BACK_REFERENCES);
+        }
+        return total;
+    };
+
+    const reachableOfType = (test: (dict: PDFDict, object: PDFObject) => boolean) =>
+        Array.from(reachable).filter(ref => {
+            const object = objects.get(ref)!;
+            const dict = dictOf(object);
+            return dict !== undefined && test(dict, object);
+        });
+    const typeOf = (dict: PDFDict, key = 'Type') => nameOf(dict.lookup(PDFName.of(key)));
+
+    const categories: Record<SizeCategory, number> = { images: 0, fonts: 0, content: 0, attachments: 0, metadata: 0, unused: 0, other: 0, overhead: 0 };
+
+    if (Info instanceof PDFRef) categories.metadata += claim(Info, 'metadata', true);
+    for (const ref of reachableOfType((dict, object) => object instanceof PDFStream && typeOf(dict) === 'Metadata')) {
+        categories.metadata += claim(ref, 'metadata', false);
+    }
+
+    const attachments: AttachmentUsage[] = [];
+    for (const ref of reachableOfType(dict => typeOf(dict) === 'Filespec' && dict.has(PDFName.of('EF')))) {
+        const dict = dictOf(objects.get(ref))!;
+        const size = claim(ref, 'attachments', true);
+        categories.attachments += size;
+        attachments.push({ name: textOf(dict.lookup(PDFName.of('UF'))) || textOf(dict.lookup(PDFName.of('F'))) || ref.toString(), bytes: size });
+    }
+
+    const placements = findImagePlacements(pdfDoc);
+    const images: ImageUsage[] = [];
+    const imageRefs = reachableOfType((dict, object) => object instanceof PDFStream && typeOf(dict, 'Subtype') === 'Image');
+    // Máscaras entram no tamanho da imagem que as usa, não como imagens separadas.
+    const masks = new Set<PDFRef>();
+    imageRefs.forEach(ref => ['SMask', 'Mask'].forEach(key => {
+        const mask = dictOf(objects.get(ref))!.get(PDFName.of(key));
+        if (mask instanceof PDFRef) masks.add(mask);
+    }));
+    for (const ref of imageRefs) {
+        if (masks.has(ref) || owners.has(ref)) continue;
+        const dict = dictOf(objects.get(ref))!;
+        const width = dict.lookupMaybe(PDFName.of('Width'), PDFNumber)?.asNumber() ?? 0;
+        const height = dict.lookupMaybe(PDFName.of('Height'), PDFNumber)?.asNumber() ?? 0;
+        const placed = placements.get(ref);
+        const size = claim(ref, 'images', true);
+        categories.images += size;
+        images.push({
+            id: ref.toString(),
+            width,
+            height,
+            dpi: placed && placed.width > 0 ? Math.round(width / (placed.width / 72)) : null,
+            filter: filtersOf(dict).join(', ') || 'nenhum',
+            bytes: size,
+        });
+    }
+
+    // Fontes Type0 primeiro, para que a fonte descendente conte junto com a fonte composta.
+    const fonts: FontUsage[] = [];
+    const isComposite = (ref: PDFRef) => typeOf(dictOf(objects.get(ref))!, 'Subtype') === 'Type0';
+    const fontRefs = reachableOfType(dict => typeOf(dict) === 'Font');
+    for (const ref of [...fontRefs.filter(isComposite), ...fontRefs.filter(ref => !isComposite(ref))]) {
+        if (owners.has(ref)) continue;
+        const dict = dictOf(objects.get(ref))!;
+        const type = typeOf(dict, 'Subtype');
+        const descendant = dict.lookupMaybe(PDFName.of('DescendantFonts'), PDFArray)?.lookup(0);
+        const descriptor = (dictOf(descendant) ?? dict).lookupMaybe(PDFName.of('FontDescriptor'), PDFDict);
+        const name = nameOf(dict.lookup(PDFName.of('BaseFont'))) || ref.toString();
+        const size = claim(ref, 'fonts', true);
+        categories.fonts += size;
+        fonts.push({
+            name,
+            type,
+            embedded: type === 'Type3' || FONT_FILES.some(key => descriptor?.has(key)),
+            subset: SUBSET_PREFIX.test(name),
+            bytes: size,
+        });
+    }
+
+    for (const page of pdfDoc.getPages()) {
+        const contents: PDFRef[] = [];
+        collectRefs(page.node.get(PDFName.of('Contents')), contents);
+        contents.forEach(ref => (categories.content += claim(ref, 'content', false)));
+    }
+    for (const ref of reachableOfType((dict, object) => object instanceof PDFStream && typeOf(dict, 'Subtype') === 'Form')) {
+        categories.content += claim(ref, 'content', false);
+    }
+
+    let unusedObjects = 0;
+    for (const ref of objects.keys()) {
+        if (owners.has(ref)) continue;
+        if (reachable.has(ref)) {
+            categories.other += sizeOf(ref);
+        } else {
+            categories.unused += sizeOf(ref);
+            unusedObjects++;
+        }
+    }
+
+    // O que sobra do arquivo: cabeçalho, tabela xref, trailer e objetos de revisões anteriores.
+    const fileSize = bytes.byteLength;
+    const counted = Object.values(categories).reduce((sum, value) => sum + value, 0);
+    categories.overhead = Math.max(0, fileSize - counted);
+
+    const bySize = <T extends { bytes: number }>(a: T, b: T) => b.bytes - a.bytes;
+    return { fileSize, categories, images: images.sort(bySize), fonts: fonts.sort(bySize), attachments: attachments.sort(bySize), unusedObjects };
+};
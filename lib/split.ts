@@ -0,0 +1,228 @@
+import { PDFDocument } from 'pdf-lib';
+import { OutlineNode, readOutline } from './outline';
+import { PdfBytes, ProgressOptions } from './pdfOperations';
+import { toFileSlug } from './format';
+import { NamedFile, createZip, uniqueNames } from './zip';
+
+// Divisão de um PDF em vários arquivos, entregues juntos em um ZIP.
+
+export class SplitError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'SplitError';
+    }
+}
+
+export type SplitMode =
+    | { type: 'pages' } // um arquivo por página
+    | { type: 'every'; size: number } // blocos de N páginas
+    | { type: 'markers'; breaks: number[] } // índices (base 0) das páginas que começam um novo arquivo
+    | { type: 'bookmarks' } // um arquivo por marcador de primeiro nível
+    | { type: 'size'; maxBytes: number } // o menor número de blocos consecutivos que cabem no limite
+    | { type: 'custom'; parts: SplitPart[] }; // partes já calculadas na página (por texto ou páginas em branco)
+
+export interface SplitPart {
+    name: string;
+    pageIndices: number[];
+}
+
+export interface SplitOptions extends ProgressOptions {
+    baseName?: string; // prefixo dos arquivos gerados, sem extensão
+}
+
+export interface SplitArchive {
+    bytes: Uint8Array; // o ZIP
+    files: Array<{ name: string; size: number }>;
+}
+
+const pageSequence = (start: number, end: number) => Array.from({ length: end - start }, (_, i) => start + i);
+
+// Números com a mesma largura, para que os arquivos fiquem em ordem também no explorador de arquivos.
+const padded = (value: number, max: number) => String(value).padStart(String(max).length, '0');
+
+const rangePart = (baseName: string, start: number, end: number, totalPages: number): SplitPart => ({
+    name: end - start === 1
+        ? `${baseName}-pagina-${padded(start + 1, totalPages)}.pdf`
+        : `${baseName}-paginas-${padded(start + 1, totalPages)}-${padded(end, totalPages)}.pdf`,
+    pageIndices: pageSequence(start, end),
+});
+
+// Cortes (índices das páginas iniciais) → partes consecutivas que cobrem o documento inteiro.
+const partsFromStarts = (starts: number[], totalPages: number) =>
+    starts.map((start, i) => [start, starts[i + 1] ?? totalPages] as const);
+
+// Primeira página a que um marcador leva, olhando os filhos quando ele só agrupa outros marcadores.
+const firstPageOf = (node: OutlineNode): number | null =>
+    node.pageIndex ?? node.children.map(firstPageOf).find(pageIndex => pageIndex !== null) ?? null;
+
+const bookmarkParts = (pdfDoc: PDFDocument, baseName: string): SplitPart[] => {
+    const totalPages = pdfDoc.getPageCount();
+    const chapters: Array<{ title: string; start: number }> = [];
+    for (const node of readOutline(pdfDoc)) {
+        const start = firstPageOf(node);
+        if (start !== null && !chapters.some(chapter => chapter.start === start)) chapters.push({ title: node.title, start });
+    }
+    if (chapters.length === 0) {
+        throw new SplitError('O documento não tem marcadores para servir de divisão.');
+    }
+    chapters.sort((a, b) => a.start - b.start);
+    // Páginas antes do primeiro marcador (capa, por exemplo) viram um arquivo próprio.
+    if (chapters[0].start > 0) chapters.unshift({ title: 'Início', start: 0 });
+
+    return partsFromStarts(chapters.map(chapter => chapter.start), totalPages).map(([start, end], i) => ({
+        name: `${baseName}-${padded(i + 1, chapters.length)}-${toFileSlug(chapters[i].title, 'secao')}.pdf`,
+        pageIndices: pageSequence(start, end),
+    }));
+};
+
+// Define quais páginas vão para cada arquivo, sem ainda copiá-las. A divisão por tamanho depende
+// de gravar os blocos para medi-los, por isso é feita em splitPdf.
+export const planSplit = (pdfDoc: PDFDocument, mode: Exclude<SplitMode, { type: 'size' }>, baseName = 'documento'): SplitPart[] => {
+    const totalPages = pdfDoc.getPageCount();
+    switch (mode.type) {
+        case 'pages':
+            return pageSequence(0, totalPages).map(index => rangePart(baseName, index, index + 1, totalPages));
+        case 'every': {
+            if (!Number.isInteger(mode.size) || mode.size < 1) {
+                throw new SplitError('Informe quantas páginas cada arquivo deve ter.');
+            }
+            const starts = pageSequence(0, Math.ceil(totalPages / mode.size)).map(i => i * mode.size);
+            return partsFromStarts(starts, totalPages).map(([start, end]) => rangePart(baseName, start, end, totalPages));
+        }
+        case 'markers': {
+            const breaks = Array.from(new Set(mode.breaks)).filter(index => index > 0 && index < totalPages).sort((a, b) => a - b);
+            if (breaks.length === 0) {
+                throw new SplitError('Marque pelo menos um ponto de divisão entre as páginas.');
+            }
+            return partsFromStarts([0, ...breaks], totalPages).map(([start, end]) => rangePart(baseName, start, end, totalPages));
+        }
+        case 'bookmarks':
+            return bookmarkParts(pdfDoc, baseName);
+        case 'custom':
+            if (mode.parts.length === 0) {
+                throw new SplitError('Nenhum arquivo a gerar.');
+            }
+            return mode.parts;
+    }
+};
+
+// Um novo arquivo começa em cada página em que o padrão aparece, com o nome tirado do primeiro grupo capturado.
+// Se o grupo se repete na página seguinte (o cabeçalho da mesma nota em todas as páginas), ela continua no mesmo arquivo.
+export const partsByPattern = (pageTexts: string[], pattern: RegExp, baseName = 'documento'): SplitPart[] => {
+    const groups: Array<{ matched: boolean; key?: string; pageIndices: number[] }> = [];
+    pageTexts.forEach((text, index) => {
+        const match = text.match(pattern);
+        const current = groups[groups.length - 1];
+        const key = match?.[1];
+        if (match && !(current?.matched && key !== undefined && current.key === key)) {
+            groups.push({ matched: true, key, pageIndices: [index] });
+        } else if (current) {
+            current.pageIndices.push(index);
+        } else {
+            groups.push({ matched: false, pageIndices: [index] });
+        }
+    });
+    if (!groups.some(group => group.matched)) {
+        throw new SplitError('O padrão não foi encontrado em nenhuma página.');
+    }
+    return groups.map(({ matched, key, pageIndices }, i) => ({
+        name: !matched ? `${baseName}-inicio.pdf`
+            : key !== undefined ? `${baseName}-${toFileSlug(key, padded(i + 1, groups.length))}.pdf`
+            : `${baseName}-${padded(i + 1, groups.length)}.pdf`,
+        pageIndices,
+    }));
+};
+
+// Páginas em branco funcionam como folhas separadoras: cada trecho entre elas vira um arquivo e elas são descartadas.
+export const partsBetweenSeparators = (blankPages: boolean[], baseName = 'documento'): SplitPart[] => {
+    if (!blankPages.includes(true)) {
+        throw new SplitError('Nenhuma página em branco foi encontrada.');
+    }
+    const parts: SplitPart[] = [];
+    let start: number | null = null;
+    blankPages.forEach((blank, index) => {
+        if (!blank && start === null) start = index;
+        if (start !== null && (blank || index === blankPages.length - 1)) {
+            parts.push(rangePart(baseName, start, blank ? index : index + 1, blankPages.length));
+            start = null;
+        }
+    });
+    if (parts.length === 0) {
+        throw new SplitError('Todas as páginas estão em branco.');
+    }
+    return parts;
+};
+
+const copyToNewPdf = async (source: PDFDocument, pageIndices: number[]) => {
+    const part = await PDFDocument.create();
+    (await part.copyPages(source, pageIndices)).forEach(page => part.addPage(page));
+    return part.save();
+};
+
+// Cada bloco vai o mais longe possível a partir da sua primeira página: o tamanho é medido gravando o bloco,
+// primeiro dobrando o número de páginas até passar do limite e depois com busca binária.
+// Uma página que sozinha já passa do limite fica em um arquivo próprio (acima do limite).
+const splitBySize = async (source: PDFDocument, maxBytes: number, options: SplitOptions): Promise<NamedFile[]> => {
+    if (!(maxBytes > 0)) {
+        throw new SplitError('Informe o tamanho máximo de cada arquivo.');
+    }
+    const { baseName = 'documento' } = options;
+    const totalPages = source.getPageCount();
+    const outputs: NamedFile[] = [];
+    for (let start = 0; start < totalPages;) {
+        options.onProgress?.({ stage: 'processing', unit: 'page', current: start + 1, total: totalPages });
+        let best = { end: start + 1, bytes: await copyToNewPdf(source, [start]) };
+        if (best.bytes.length <= maxBytes) {
+            let fits = best.end;
+            let tooBig: number | null = null;
+            for (let step = 1; fits < totalPages && tooBig === null; step *= 2) {
+                const end = Math.min(totalPages, fits + step);
+                const bytes = await copyToNewPdf(source, pageSequence(start, end));
+                if (bytes.length <= maxBytes) {
+                    best = { end, bytes };
+                    fits = end;
+                } else {
+                    tooBig = end;
+                }
+            }
+            while (tooBig !== null && tooBig - fits > 1) {
+                const end = Math.floor((fits + tooBig) / 2);
+                const bytes = await copyToNewPdf(source, pageSequence(start, end));
+                if (bytes.length <= maxBytes) {
+                    best = { end, bytes };
+                    fits = end;
+                } else {
+                    tooBig = end;
+                }
+            }
+        }
+        outputs.push({ name: rangePart(baseName, start, best.end, totalPages).name, bytes: best.bytes });
+        start = best.end;
+    }
+    return outputs;
+};
+
+// Gera um PDF por parte, copiando as páginas do documento original.
+export const splitPdf = async (bytes: PdfBytes, mode: SplitMode, options: SplitOptions = {}): Promise<NamedFile[]> => {
+    const source = await PDFDocument.load(bytes);
+    if (mode.type === 'size') return splitBySize(source, mode.maxBytes, options);
+
+    const parts = planSplit(source, mode, options.baseName);
+    const outputs: NamedFile[] = [];
+    for (let i = 0; i < parts.length; i++) {
+        options.onProgress?.({ stage: 'processing', unit: 'file', current: i + 1, total: parts.length, detail: parts[i].name });
+        outputs.push({ name: parts[i].name, bytes: await copyToNewPdf(source, parts[i].pageIndices) });
+    }
+    return outputs;
+};
+
+export const splitPdfToZip = async (bytes: PdfBytes, mode: SplitMode, options: SplitOptions = {}): Promise<SplitArchive> => {
+    const outputs = await splitPdf(bytes, mode, options);
+    options.onProgress?.({ stage: 'saving', unit: 'file', current: outputs.length, total: outputs.length });
+    // Nomes repetidos (a mesma nota em dois trechos, por exemplo) ganham um sufixo, aqui e no ZIP.
+    const names = uniqueNames(outputs.map(output => output.name));
+    return {
+        bytes: await createZip(outputs.map((output, i) => ({ ...output, name: names[i] }))),
+        files: outputs.map(({ bytes }, i) => ({ name: names[i], size: bytes.length })),
+    };
+};
@@ -0,0 +1,87 @@
+import { loadPdfDocument, releasePdfDocument } from './pdfjs';
+
+// Miniaturas renderizadas sob demanda e guardadas como blob URLs por arquivo, para que trocar de
+// ferramenta com o mesmo documento do espaço de trabalho não renderize as páginas outra vez.
+
+const MAX_CONCURRENT_RENDERS = 2;
+
+const thumbnails = new WeakMap<File, Map<string, string>>();
+const pending: Array<() => Promise<void>> = [];
+let activeRenders = 0;
+
+const cacheKey = (pageNumber: number, scale: number) => `${pageNumber}@${scale}`;
+
+const drain = () => {
+    while (activeRenders < MAX_CONCURRENT_RENDERS && pending.length > 0) {
+        // O pedido mais recente é atendido primeiro: ele corresponde às páginas visíveis agora.
+        const job = pending.pop()!;
+        activeRenders++;
+        job().finally(() => {
+            activeRenders--;
+            drain();
+        });
+    }
+};
+
+const schedule = <T>(task: () => Promise<T>, signal?: AbortSignal) =>
+    new Promise<T>((resolve, reject) => {
+        pending.push(async () => {
+            if (signal?.aborted) {
+                reject(new DOMException('Renderização cancelada', 'AbortError'));
+                return;
+            }
+            try {
+                resolve(await task());
+            } catch (e) {
+                reject(e);
+            }
+        });
+        drain();
+    });
+
+const renderPage = async (file: File, pageNumber: number, scale: number) => {
+    const pdf = await loadPdfDocument(file);
+    const page = await pdf.getPage(pageNumber);
+    const viewport = page.getViewport({ scale });
+    const canvas = document.createElement('canvas');
+    canvas.width = viewport.width;
+    canvas.height = viewport.height;
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas 2D indisponível');
+
+    await page.render({ canvasContext: context, viewport }).promise;
+    page.cleanup();
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve));
+    if (!blob) throw new Error('Falha ao gerar a miniatura');
+    return URL.createObjectURL(blob);
+};
+
+export const getCachedThumbnail = (file: File, pageNumber: number, scale: number) =>
+    thumbnails.get(file)?.get(cacheKey(pageNumber, scale)) ?? null;
+
+// Renderiza a página (1-based) na escala pedida, ou devolve a miniatura já em cache.
+// Pedidos cancelados antes de começar saem da fila sem custo.
+export const getPageThumbnail = async (file: File, pageNumber: number, scale: number, signal?: AbortSignal) => {
+    const cached = getCachedThumbnail(file, pageNumber, scale);
+    if (cached) return cached;
+
+    return schedule(async () => {
+        const existing = getCachedThumbnail(file, pageNumber, scale);
+        if (existing) return existing;
+        const url = await renderPage(file, pageNumber, scale);
+        let fileThumbnails = thumbnails.get(file);
+        if (!fileThumbnails) {
+            fileThumbnails = new Map();
+            thumbnails.set(file, fileThumbnails);
+        }
+        fileThumbnails.set(cacheKey(pageNumber, scale), url);
+        return url;
+    }, signal);
+};
+
+// Libera as miniaturas e o documento do pdf.js quando o arquivo sai do espaço de trabalho.
+export const releaseThumbnails = (file: File) => {
+    thumbnails.get(file)?.forEach(url => URL.revokeObjectURL(url));
+    thumbnails.delete(file);
+    releasePdfDocument(file);
+};
@@ -0,0 +1,27 @@
+import JSZip from 'jszip';
+
+export interface NamedFile {
+    name: string;
+    bytes: Uint8Array;
+}
+
+// Evita que dois arquivos com o mesmo nome se sobrescrevam dentro do ZIP: "a.pdf", "a (2).pdf"...
+export const uniqueNames = (names: string[]) => {
+    const used = new Set<string>();
+    return names.map(name => {
+        let candidate = name;
+        const dot = name.lastIndexOf('.');
+        const [stem, extension] = dot > 0 ? [name.slice(0, dot), name.slice(dot)] : [name, ''];
+        for (let i = 2; used.has(candidate.toLowerCase()); i++) candidate = `${stem} (${i})${extension}`;
+        used.add(candidate.toLowerCase());
+        return candidate;
+    });
+};
+
+// Empacota os arquivos em um ZIP. PDFs já são comprimidos, então são apenas armazenados (sem deflate).
+export const createZip = async (files: NamedFile[]): Promise<Uint8Array> => {
+    const zip = new JSZip();
+    const names = uniqueNames(files.map(file => file.name));
+    files.forEach((file, i) => zip.file(names[i], file.bytes));
+    return zip.generateAsync({ type: 'uint8array', compression: 'STORE' });
+};
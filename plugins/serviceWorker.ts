@@ -0,0 +1,77 @@
+import { createHash } from 'node:crypto';
+import { readdirSync, readFileSync } from 'node:fs';
+import { join, relative, resolve } from 'node:path';
+import type { Plugin, ResolvedConfig } from 'vite';
+
+// Gera dist/service-worker.js a partir do modelo service-worker.js, com a lista de todos os arquivos
+// emitidos pelo build (bundles com hash, worker do pdf.js, CSS, wasm) e os arquivos de public/.
+
+const TEMPLATE = 'service-worker.js';
+
+// Recursos que o @imgly/background-removal baixa com a configuração usada em ImageToPdf
+// (device 'cpu', modelo 'medium'), conforme o resources.json publicado junto do modelo.
+const MODEL_RESOURCES = [
+    '/models/isnet_fp16',
+    '/onnxruntime-web/ort-wasm-simd-threaded.wasm',
+    '/onnxruntime-web/ort-wasm-simd-threaded.mjs',
+];
+
+const listFiles = (dir: string): string[] => {
+    try {
+        return readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+            const path = join(dir, entry.name);
+            return entry.isDirectory() ? listFiles(path) : [path];
+        });
+    } catch {
+        return [];
+    }
+};
+
+export const serviceWorkerPlugin = (): Plugin => {
+    let config: ResolvedConfig;
+
+    return {
+        name: 'rd-pdf-service-worker',
+        apply: 'build',
+        // Depois do plugin de HTML do Vite, para que o index.html já esteja no bundle.
+        enforce: 'post',
+        configResolved(resolved) {
+            config = resolved;
+        },
+        generateBundle(_options, bundle) {
+            const hash = createHash('sha256');
+            const entries: string[] = [];
+
+            for (const output of Object.values(bundle)) {
+                if (output.fileName.endsWith('.map')) continue;
+                entries.push(output.fileName);
+                hash.update(output.fileName);
+                hash.update(output.type === 'chunk' ? output.code : output.source);
+            }
+
+            const publicFiles = config.publicDir ? listFiles(config.publicDir) : [];
+            for (const path of publicFiles) {
+                const fileName = relative(config.publicDir, path).split('\\').join('/');
+                if (fileName === TEMPLATE) continue;
+                entries.push(fileName);
+                hash.update(fileName);
+                hash.update(readFileSync(path));
+            }
+
+            const modelPackage = JSON.parse(
+                readFileSync(resolve(config.root, 'node_modules/@imgly/background-removal/package.json'), 'utf-8'),
+            ) as { version: string };
+            const modelBaseUrl = `https://staticimgly.com/@imgly/background-removal-data/${modelPackage.version}/dist/`;
+
+            const template = readFileSync(resolve(config.root, TEMPLATE), 'utf-8');
+            const source = template
+                .replace('__CACHE_VERSION__', JSON.stringify(hash.digest('hex').slice(0, 12)))
+                .replace('__PRECACHE_MANIFEST__', JSON.stringify(entries.sort(), null, 2))
+                .replace('__MODEL_VERSION__', JSON.stringify(modelPackage.version))
+                .replace('__MODEL_BASE_URL__', JSON.stringify(modelBaseUrl))
+                .replace('__MODEL_RESOURCES__', JSON.stringify(MODEL_RESOURCES));
+
+            this.emitFile({ type: 'asset', fileName: TEMPLATE, source });
+        },
+    };
+};
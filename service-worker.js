@@ -1,89 +1,122 @@
+// Modelo do service worker. O build (plugins/serviceWorker.ts) substitui os marcadores abaixo
+// pela lista de arquivos gerados pelo Vite e grava o resultado em dist/service-worker.js.
+const CACHE_VERSION = __CACHE_VERSION__;
+const PRECACHE_MANIFEST = __PRECACHE_MANIFEST__;
+const MODEL_VERSION = __MODEL_VERSION__;
+const MODEL_BASE_URL = __MODEL_BASE_URL__;
+const MODEL_RESOURCES = __MODEL_RESOURCES__;
 
-const CACHE_NAME = 'rd-pdf-cache-v2'; // Bump version to force update
-const FILES_TO_CACHE = [
-  '/',
-  '/index.html',
-  '/index.css',
-  '/index.tsx',
-  '/App.tsx',
-  '/types.ts',
-  '/manifest.json',
-  '/components/PdfMerger.tsx',
-  '/components/ImageToPdf.tsx',
-  '/components/PdfCompressor.tsx',
-  '/components/PdfSplitter.tsx',
-  '/components/PdfEditor.tsx',
-  '/components/ImageAnnotator.tsx',
-  '/components/Icons.tsx',
-  '/images/icon-192.png',
-  '/images/icon-512.png'
-  // Os assets de node_modules serão gerenciados pelo build do Vite.
-  // Para uma estratégia de cache mais robusta em produção,
-  // um plugin como o vite-plugin-pwa é recomendado para gerar o service worker automaticamente.
-];
+const CACHE_PREFIX = 'rd-pdf-';
+const APP_CACHE = `${CACHE_PREFIX}app-${CACHE_VERSION}`;
+// O modelo de remoção de fundo só muda com a versão da biblioteca, então sobrevive às atualizações do app.
+const MODEL_CACHE = `${CACHE_PREFIX}models-${MODEL_VERSION}`;
+// Arquivos recebidos pelo share_target, lidos e apagados pela página (lib/incomingFiles.ts).
+const SHARE_TARGET_CACHE = `${CACHE_PREFIX}share-target`;
+
+// As URLs do manifesto são relativas ao próprio service worker (respeitando o `base` do Vite).
+const toAbsolute = (path) => new URL(path, self.location.href).href;
+const INDEX_URL = toAbsolute('index.html');
 
 self.addEventListener('install', (event) => {
+  // A instalação falha se algum arquivo não puder ser baixado: um cache incompleto
+  // deixaria o app quebrado offline, então a versão anterior continua valendo.
+  event.waitUntil(
+    caches.open(APP_CACHE).then((cache) => cache.addAll(PRECACHE_MANIFEST.map(toAbsolute)))
+  );
+});
+
+self.addEventListener('activate', (event) => {
   event.waitUntil(
-    caches.open(CACHE_NAME)
-      .then((cache) => {
-        console.log('Opened cache');
-        // Usar `cache.addAll` pode falhar se um único arquivo não for encontrado.
-        // Em um cenário real, é melhor adicionar arquivos essenciais um por um.
-        return Promise.all(
-          FILES_TO_CACHE.map(url => cache.add(url).catch(err => console.warn(`Failed to cache ${url}`, err)))
-        );
-      })
+    caches.keys().then((cacheNames) => Promise.all(
+      cacheNames
+        // Só remove caches deste app: no GitHub Pages a origem é compartilhada com outros projetos.
+        .filter((name) => name.startsWith(CACHE_PREFIX) && ![APP_CACHE, MODEL_CACHE, SHARE_TARGET_CACHE].includes(name))
+        .map((name) => caches.delete(name))
+    )).then(() => self.clients.claim())
   );
 });
 
+// Baixa o modelo e o runtime do onnx para o cache, para que "Remover Fundo" funcione offline.
+const precacheModels = async () => {
+  const cache = await caches.open(MODEL_CACHE);
+  const resourcesUrl = new URL('resources.json', MODEL_BASE_URL).href;
+  let resources = await cache.match(resourcesUrl);
+  if (!resources) {
+    await cache.add(resourcesUrl);
+    resources = await cache.match(resourcesUrl);
+  }
+  const resourceMap = await resources.json();
+  for (const key of MODEL_RESOURCES) {
+    const entry = resourceMap[key];
+    if (!entry) continue;
+    for (const chunk of entry.chunks) {
+      const url = new URL(chunk.name, MODEL_BASE_URL).href;
+      if (!(await cache.match(url))) {
+        await cache.add(url);
+      }
+    }
+  }
+};
+
+self.addEventListener('message', (event) => {
+  if (event.data?.type === 'SKIP_WAITING') {
+    self.skipWaiting();
+  } else if (event.data?.type === 'PRECACHE_MODELS') {
+    event.waitUntil(precacheModels().catch((err) => console.warn('Falha ao guardar o modelo offline', err)));
+  }
+});
+
+const cacheFirst = async (request, cacheName) => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (cacheName && response.ok) {
+    const cache = await caches.open(cacheName);
+    cache.put(request, response.clone());
+  }
+  return response;
+};
+
+// O share_target do manifest envia os arquivos por POST multipart. Eles ficam no cache até a página
+// abrir com ?share-target e distribuí-los para a ferramenta certa.
+const SHARE_TARGET_URL = toAbsolute('share-target');
+
+const receiveSharedFiles = async (request) => {
+  const formData = await request.formData();
+  const files = formData.getAll('files').filter((value) => value instanceof File);
+  await caches.delete(SHARE_TARGET_CACHE);
+  const cache = await caches.open(SHARE_TARGET_CACHE);
+  await Promise.all(files.map((file, index) => cache.put(
+    toAbsolute(`share-target/${index}`),
+    new Response(file, { headers: { 'Content-Type': file.type, 'X-File-Name': encodeURIComponent(file.name) } })
+  )));
+  return Response.redirect(toAbsolute('./?share-target'), 303);
+};
+
 self.addEventListener('fetch', (event) => {
-  // Ignora requisições que não são GET
-  if (event.request.method !== 'GET') {
+  const { request } = event;
+  if (request.method === 'POST' && request.url === SHARE_TARGET_URL) {
+    event.respondWith(receiveSharedFiles(request));
     return;
   }
-  
-  const requestUrl = new URL(event.request.url);
 
-  // Deixa o navegador lidar com requisições para CDNs para evitar bloqueios
-  if (requestUrl.hostname === 'unpkg.com') {
+  // Ignora requisições que não são GET
+  if (request.method !== 'GET') {
     return;
   }
 
-  event.respondWith(
-    caches.match(event.request)
-      .then((response) => {
-        // Cache hit - return response
-        if (response) {
-          return response;
-        }
+  if (request.mode === 'navigate') {
+    // Rede primeiro para pegar o index.html mais recente; offline, usa o que foi pré-carregado.
+    event.respondWith(fetch(request).catch(() => caches.match(INDEX_URL)));
+    return;
+  }
 
-        // Se não estiver no cache, busca na rede
-        return fetch(event.request).then(
-          (networkResponse) => {
-            // Não armazenamos em cache respostas de erro ou opacas
-            if(!networkResponse || networkResponse.status !== 200 || networkResponse.type !== 'basic') {
-              return networkResponse;
-            }
-            return networkResponse;
-          }
-        );
-      }
-    )
-  );
-});
+  if (request.url.startsWith(MODEL_BASE_URL)) {
+    event.respondWith(cacheFirst(request, MODEL_CACHE));
+    return;
+  }
 
-self.addEventListener('activate', (event) => {
-  const cacheWhitelist = [CACHE_NAME];
-  event.waitUntil(
-    caches.keys().then((cacheNames) => {
-      return Promise.all(
-        cacheNames.map((cacheName) => {
-          if (cacheWhitelist.indexOf(cacheName) === -1) {
-            console.log('Deleting old cache:', cacheName);
-            return caches.delete(cacheName);
-          }
-        })
-      );
-    })
-  );
+  if (new URL(request.url).origin === self.location.origin) {
+    event.respondWith(cacheFirst(request));
+  }
 });
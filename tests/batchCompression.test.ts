@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import JSZip from 'jszip';
+import { PDFDocument } from 'pdf-lib';
+import { compressBatchToZip } from '../lib/batchCompression';
+import { createNumberedPdf } from './fixtures';
+
+// PDF gravado sem object streams: regravá-lo com eles o deixa menor.
+const createUncompressedPdf = async (pageCount: number) => {
+    const pdfDoc = await PDFDocument.load(await createNumberedPdf(pageCount));
+    return pdfDoc.save({ useObjectStreams: false });
+};
+
+describe('compressBatchToZip', () => {
+    it('compresses each file and keeps the original names in the ZIP', async () => {
+        const first = await createUncompressedPdf(20);
+        const second = await createUncompressedPdf(10);
+        const archive = await compressBatchToZip([{ name: 'contrato.pdf', bytes: first }, { name: 'anexo.pdf', bytes: second }]);
+
+        expect(archive.files.map(({ name, status }) => [name, status])).toEqual([['contrato.pdf', 'compressed'], ['anexo.pdf', 'compressed']]);
+        expect(archive.files[0].originalSize).toBe(first.length);
+        expect(archive.files[0].resultSize).toBeLessThan(first.length);
+        const zip = await JSZip.loadAsync(archive.bytes);
+        expect(Object.keys(zip.files)).toEqual(['contrato.pdf', 'anexo.pdf']);
+    });
+
+    it('keeps files that would grow as they are and leaves unreadable ones out', async () => {
+        // Já gravado com object streams: regravar não reduz nada.
+        const optimized = await createNumberedPdf(1);
+        const archive = await compressBatchToZip([
+            { name: 'doc.pdf', bytes: optimized },
+            { name: 'doc.pdf', bytes: new TextEncoder().encode('não é um PDF') },
+        ]);
+        expect(archive.files).toEqual([
+            { name: 'doc.pdf', originalSize: optimized.length, resultSize: optimized.length, status: 'skipped' },
+            expect.objectContaining({ name: 'doc (2).pdf', status: 'failed' }),
+        ]);
+        const zip = await JSZip.loadAsync(archive.bytes);
+        expect(Object.keys(zip.files)).toEqual(['doc.pdf']);
+        expect(await zip.file('doc.pdf')!.async('uint8array')).toEqual(optimized);
+    });
+});
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { PDFDocument, PDFName, PDFRawStream, decodePDFRawStream } from 'pdf-lib';
+import { readDocumentProperties, setDocumentProperties } from '../lib/documentProperties';
+import { imagesToPdf, mergePdfs } from '../lib/pdfOperations';
+import { createNumberedPdf, createPng } from './fixtures';
+
+const XMP = `<?xpacket begin="" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/"><rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+<rdf:Description rdf:about="" xmp:CreatorTool="Editor &amp; Cia" xmp:CreateDate="2024-03-05T10:20:00Z">
+<dc:title><rdf:Alt><rdf:li xml:lang="x-default">Relatório anual</rdf:li></rdf:Alt></dc:title>
+<dc:creator><rdf:Seq><rdf:li>Ana</rdf:li><rdf:li>Bruno</rdf:li></rdf:Seq></dc:creator>
+<pdfaid:part>2</pdfaid:part>
+</rdf:Description></rdf:RDF></x:xmpmeta>
+<?xpacket end="w"?>`;
+
+// PDF com título no Info e o resto só no XMP, como os gerados por alguns editores.
+const createPdfWithXmp = async () => {
+    const pdfDoc = await PDFDocument.create({ updateMetadata: false });
+    pdfDoc.addPage();
+    pdfDoc.setTitle('Relatório 2024');
+    const { context, catalog } = pdfDoc;
+    catalog.set(PDFName.of('Metadata'), context.register(context.stream(new TextEncoder().encode(XMP), { Type: 'Metadata', Subtype: 'XML' })));
+    return pdfDoc.save();
+};
+
+const xmpOf = async (bytes: Uint8Array) => {
+    const pdfDoc = await PDFDocument.load(bytes);
+    const stream = pdfDoc.catalog.lookup(PDFName.of('Metadata')) as PDFRawStream;
+    return new TextDecoder().decode(decodePDFRawStream(stream).decode());
+};
+
+describe('readDocumentProperties', () => {
+    it('prefers the Info dictionary and falls back to XMP', async () => {
+        const properties = await readDocumentProperties(await createPdfWithXmp());
+        expect(properties).toEqual({
+            title: 'Relatório 2024',
+            author: 'Ana, Bruno',
+            subject: '',
+            keywords: '',
+            creator: 'Editor & Cia',
+            producer: '',
+            creationDate: '2024-03-05T10:20:00.000Z',
+            modificationDate: '',
+        });
+    });
+});
+
+describe('setDocumentProperties', () => {
+    it('updates Info and XMP, clears empty fields and leaves the others alone', async () => {
+        const bytes = await setDocumentProperties(await createPdfWithXmp(), {
+            title: 'Relatório final',
+            author: '',
+            keywords: 'finanças, 2024',
+            modificationDate: '2024-06-01T12:00:00.000Z',
+        });
+
+        const properties = await readDocumentProperties(bytes);
+        expect(properties).toMatchObject({
+            title: 'Relatório final',
+            author: '',
+            keywords: 'finanças, 2024',
+            creator: 'Editor & Cia',
+            creationDate: '2024-03-05T10:20:00.000Z',
+            modificationDate: '2024-06-01T12:00:00.000Z',
+        });
+
+        const xmp = await xmpOf(bytes);
+        expect(xmp).toContain('<rdf:li xml:lang="x-default">Relatório final</rdf:li>');
+        expect(xmp).toContain('<xmp:CreatorTool>Editor &amp; Cia</xmp:CreatorTool>');
+        expect(xmp).toContain('<pdfaid:part>2</pdfaid:part>');
+        expect(xmp).not.toContain('Bruno');
+    });
+});
+
+describe('generated documents', () => {
+    it('apply the properties given to mergePdfs and imagesToPdf', async () => {
+        const properties = { title: 'Contrato assinado', author: 'João', producer: 'RD PDF' };
+        const merged = await mergePdfs([await createNumberedPdf(1), await createNumberedPdf(1)], { properties });
+        const converted = await imagesToPdf([{ bytes: createPng(4, 4) }], { properties });
+
+        for (const bytes of [merged, converted]) {
+            expect(await readDocumentProperties(bytes)).toMatchObject(properties);
+        }
+    });
+});
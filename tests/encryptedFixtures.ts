@@ -0,0 +1,210 @@
+import {
+    PDFArray,
+    PDFContext,
+    PDFDict,
+    PDFHexString,
+    PDFName,
+    PDFObject,
+    PDFParser,
+    PDFRawStream,
+    PDFRef,
+    PDFString,
+    PDFWriter,
+} from 'pdf-lib';
+import { aesCbcEncrypt, aesCbcEncryptRaw, concatBytes, md5, randomBytes, rc4, sha } from '../lib/crypto';
+
+// Criptografa PDFs de teste com o handler de segurança padrão, seguindo a ISO 32000 de forma independente
+// de lib/pdfSecurity.ts, para que os testes de decifragem não validem o código contra ele mesmo.
+
+export type FixtureCipher = 'rc4' | 'aes128' | 'aes256';
+
+export interface FixtureEncryption {
+    userPassword: string;
+    ownerPassword: string;
+    cipher: FixtureCipher;
+}
+
+const PADDING = new Uint8Array([
+    0x28, 0xbf, 0x4e, 0x5e, 0x4e, 0x75, 0x8a, 0x41, 0x64, 0x00, 0x4e, 0x56, 0xff, 0xfa, 0x01, 0x08,
+    0x2e, 0x2e, 0x00, 0xb6, 0xd0, 0x68, 0x3e, 0x80, 0x2f, 0x0c, 0xa9, 0xfe, 0x64, 0x53, 0x69, 0x7a,
+]);
+const DOCUMENT_ID = new Uint8Array(16).map((_, i) => i * 17);
+const PERMISSIONS = -4;
+
+const latin1 = (text: string) => Uint8Array.from(text, char => char.charCodeAt(0));
+const pad = (password: Uint8Array) => concatBytes(password, PADDING).subarray(0, 32);
+const hex = (bytes: Uint8Array) => PDFHexString.of(Buffer.from(bytes).toString('hex'));
+const permissionBytes = () => new Uint8Array(new Int32Array([PERMISSIONS]).buffer);
+
+// Revisões 3 (RC4) e 4 (AES-128), chave de 128 bits.
+const legacyKeys = (userPassword: string, ownerPassword: string, revision: number) => {
+    let ownerHash = md5(pad(latin1(ownerPassword)));
+    for (let i = 0; i < 50; i++) ownerHash = md5(ownerHash);
+    let owner: Uint8Array = pad(latin1(userPassword));
+    for (let i = 0; i <= 19; i++) owner = rc4(ownerHash.map(byte => byte ^ i), owner);
+
+    let fileKey = md5(concatBytes(pad(latin1(userPassword)), owner, permissionBytes(), DOCUMENT_ID));
+    for (let i = 0; i < 50; i++) fileKey = md5(fileKey);
+
+    let user: Uint8Array = md5(concatBytes(PADDING, DOCUMENT_ID));
+    for (let i = 0; i <= 19; i++) user = rc4(fileKey.map(byte => byte ^ i), user);
+    return { revision, fileKey, owner, user: concatBytes(user, new Uint8Array(16)) };
+};
+
+// Algoritmo 2.B da revisão 6.
+const hashR6 = async (password: Uint8Array, salt: Uint8Array, userKey: Uint8Array = new Uint8Array(0)) => {
+    let key: Uint8Array = await sha('SHA-256', concatBytes(password, salt, userKey));
+    let round = 0;
+    let last = 0;
+    while (round < 64 || last > round - 32) {
+        const block = concatBytes(password, key, userKey);
+        const repeated = concatBytes(...Array.from({ length: 64 }, () => block));
+        const encrypted = await aesCbcEncryptRaw(key.subarray(0, 16), key.subarray(16, 32), repeated);
+        const mod = encrypted.subarray(0, 16).reduce((sum, byte) => sum + byte, 0) % 3;
+        key = await sha(['SHA-256', 'SHA-384', 'SHA-512'][mod] as 'SHA-256', encrypted);
+        last = encrypted[encrypted.length - 1];
+        round++;
+    }
+    return key.subarray(0, 32);
+};
+
+const aes256Keys = async (userPassword: string, ownerPassword: string) => {
+    const fileKey = randomBytes(32);
+    const zeroIv = new Uint8Array(16);
+    const userBytes = new TextEncoder().encode(userPassword);
+    const ownerBytes = new TextEncoder().encode(ownerPassword);
+    const [userValidation, userKeySalt, ownerValidation, ownerKeySalt] = [randomBytes(8), randomBytes(8), randomBytes(8), randomBytes(8)];
+
+    const user = concatBytes(await hashR6(userBytes, userValidation), userValidation, userKeySalt);
+    const userEncryption = await aesCbcEncryptRaw(await hashR6(userBytes, userKeySalt), zeroIv, fileKey);
+    const owner = concatBytes(await hashR6(ownerBytes, ownerValidation, user), ownerValidation, ownerKeySalt);
+    const ownerEncryption = await aesCbcEncryptRaw(await hashR6(ownerBytes, ownerKeySalt, user), zeroIv, fileKey);
+    const perms = await aesCbcEncryptRaw(fileKey, zeroIv, concatBytes(permissionBytes(), new Uint8Array([0xff, 0xff, 0xff, 0xff]), latin1('Tadb'), randomBytes(4)));
+    return { fileKey, owner, user, ownerEncryption, userEncryption, perms };
+};
+
+const objectKey = (fileKey: Uint8Array, ref: PDFRef, cipher: FixtureCipher) => {
+    if (cipher === 'aes256') return fileKey;
+    const { objectNumber: n, generationNumber: g } = ref;
+    const salt = cipher === 'aes128' ? latin1('sAlT') : new Uint8Array(0);
+    return md5(concatBytes(fileKey, new Uint8Array([n & 0xff, (n >> 8) & 0xff, (n >> 16) & 0xff, g & 0xff, (g >> 8) & 0xff]), salt)).subarray(0, 16);
+};
+
+const encryptBytes = async (cipher: FixtureCipher, key: Uint8Array, data: Uint8Array) => {
+    if (cipher === 'rc4') return rc4(key, data);
+    const iv = randomBytes(16);
+    return concatBytes(iv, await aesCbcEncrypt(key, iv, data));
+};
+
+const encryptStrings = async (object: PDFObject, encrypt: (data: Uint8Array) => Promise<Uint8Array>): Promise<PDFObject> => {
+    if (object instanceof PDFString || object instanceof PDFHexString) return hex(await encrypt(object.asBytes()));
+    if (object instanceof PDFDict) {
+        for (const [key, value] of object.entries()) object.set(key, await encryptStrings(value, encrypt));
+    } else if (object instanceof PDFArray) {
+        for (let i = 0; i < object.size(); i++) object.set(i, await encryptStrings(object.get(i), encrypt));
+    } else if (object instanceof PDFRawStream) {
+        await encryptStrings(object.dict, encrypt);
+    }
+    return object;
+};
+
+const buildEncryptDict = async (context: PDFContext, { userPassword, ownerPassword, cipher }: FixtureEncryption) => {
+    if (cipher === 'aes256') {
+        const keys = await aes256Keys(userPassword, ownerPassword);
+        const dict = context.obj({
+            Filter: 'Standard', V: 5, R: 6, Length: 256, P: PERMISSIONS,
+            CF: { StdCF: { CFM: 'AESV3', AuthEvent: 'DocOpen', Length: 32 } }, StmF: 'StdCF', StrF: 'StdCF',
+        });
+        dict.set(PDFName.of('O'), hex(keys.owner));
+        dict.set(PDFName.of('U'), hex(keys.user));
+        dict.set(PDFName.of('OE'), hex(keys.ownerEncryption));
+        dict.set(PDFName.of('UE'), hex(keys.userEncryption));
+        dict.set(PDFName.of('Perms'), hex(keys.perms));
+        return { dict, fileKey: keys.fileKey };
+    }
+    const keys = legacyKeys(userPassword, ownerPassword, cipher === 'rc4' ? 3 : 4);
+    const dict = cipher === 'rc4'
+        ? context.obj({ Filter: 'Standard', V: 2, R: 3, Length: 128, P: PERMISSIONS })
+        : context.obj({
+            Filter: 'Standard', V: 4, R: 4, Length: 128, P: PERMISSIONS,
+            CF: { StdCF: { CFM: 'AESV2', AuthEvent: 'DocOpen', Length: 16 } }, StmF: 'StdCF', StrF: 'StdCF',
+        });
+    dict.set(PDFName.of('O'), hex(keys.owner));
+    dict.set(PDFName.of('U'), hex(keys.user));
+    return { dict, fileKey: keys.fileKey };
+};
+
+const setTrailer = (context: PDFContext, encryptRef: PDFRef) => {
+    context.trailerInfo.Encrypt = encryptRef;
+    context.trailerInfo.ID = context.obj([hex(DOCUMENT_ID), hex(DOCUMENT_ID)]);
+};
+
+export const encryptFixture = async (bytes: Uint8Array, encryption: FixtureEncryption): Promise<Uint8Array> => {
+    const context = await PDFParser.forBytesWithOptions(bytes).parseDocument();
+    const { dict, fileKey } = await buildEncryptDict(context, encryption);
+
+    for (const [ref, object] of context.enumerateIndirectObjects()) {
+        const key = objectKey(fileKey, ref, encryption.cipher);
+        await encryptStrings(object, data => encryptBytes(encryption.cipher, key, data));
+        if (object instanceof PDFRawStream) {
+            context.assign(ref, PDFRawStream.of(object.dict, await encryptBytes(encryption.cipher, key, object.contents)));
+        }
+    }
+
+    setTrailer(context, context.register(dict));
+    return PDFWriter.forContext(context, 50).serializeToBuffer();
+};
+
+// PDF escrito à mão em que catálogo, páginas e /Info ficam dentro de um object stream cifrado (RC4),
+// como fazem o Acrobat e a maioria dos geradores atuais. A página tem largura 321 e o título é "Sigiloso".
+export const createEncryptedObjectStreamPdf = async (userPassword: string) => {
+    const context = PDFContext.create();
+    const { dict, fileKey } = await buildEncryptDict(context, { userPassword, ownerPassword: 'dono', cipher: 'rc4' });
+
+    const objects = [
+        [1, '<< /Type /Catalog /Pages 2 0 R >>'],
+        [2, '<< /Type /Pages /Kids [3 0 R] /Count 1 >>'],
+        [3, '<< /Type /Page /Parent 2 0 R /MediaBox [0 0 321 654] /Contents 4 0 R >>'],
+        [6, '<< /Title (Sigiloso) >>'],
+    ] as const;
+    let offset = 0;
+    const header: string[] = [];
+    for (const [number, body] of objects) {
+        header.push(`${number} ${offset}`);
+        offset += body.length + 1;
+    }
+    const first = header.join(' ') + '\n';
+    const objectStream = latin1(first + objects.map(([, body]) => body).join('\n') + '\n');
+    const content = latin1('BT /F1 12 Tf 10 10 Td (ok) Tj ET');
+
+    const encryptedStream = (number: number, extra: string, data: Uint8Array) => {
+        const encrypted = rc4(objectKey(fileKey, PDFRef.of(number), 'rc4'), data);
+        return concatBytes(latin1(`${number} 0 obj\n<< ${extra}/Length ${encrypted.length} >>\nstream\n`), encrypted, latin1('\nendstream\nendobj\n'));
+    };
+
+    const body = [
+        latin1('%PDF-1.5\n'),
+        encryptedStream(4, '', content),
+        encryptedStream(5, `/Type /ObjStm /N ${objects.length} /First ${first.length} `, objectStream),
+        latin1(`7 0 obj\n${dict.toString()}\nendobj\n`),
+    ];
+    const offsets = body.slice(1).map((_, i) => body.slice(0, i + 1).reduce((sum, part) => sum + part.length, 0));
+    const xrefOffset = body.reduce((sum, part) => sum + part.length, 0);
+
+    // Tabela xref em stream (nunca cifrada), a única forma de apontar para objetos comprimidos.
+    // Colunas: tipo (1 byte), deslocamento ou object stream (4 bytes), índice ou geração (2 bytes).
+    const entry = (type: number, field: number, index: number) =>
+        new Uint8Array([type, field >>> 24, (field >> 16) & 0xff, (field >> 8) & 0xff, field & 0xff, index >> 8, index & 0xff]);
+    const inStream = (number: number) => entry(2, 5, objects.findIndex(([n]) => n === number));
+    const xref = concatBytes(
+        entry(0, 0, 0xffff), inStream(1), inStream(2), inStream(3),
+        entry(1, offsets[0], 0), entry(1, offsets[1], 0), inStream(6), entry(1, offsets[2], 0), entry(1, xrefOffset, 0),
+    );
+    const id = Buffer.from(DOCUMENT_ID).toString('hex');
+    return concatBytes(
+        ...body,
+        latin1(`8 0 obj\n<< /Type /XRef /Size 9 /W [1 4 2] /Root 1 0 R /Info 6 0 R /Encrypt 7 0 R /ID [<${id}> <${id}>] /Length ${xref.length} >>\nstream\n`),
+        xref,
+        latin1(`\nendstream\nendobj\nstartxref\n${xrefOffset}\n%%EOF\n`),
+    );
+};
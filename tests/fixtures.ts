@@ -0,0 +1,88 @@
+import { deflateSync } from 'node:zlib';
+import { PDFDocument, StandardFonts, degrees } from 'pdf-lib';
+
+// PDFs e imagens de teste gerados em memória, para que a suíte rode em Node sem arquivos binários no repositório.
+
+export interface FixturePage {
+    size?: [number, number];
+    rotation?: number;
+    label?: string;
+}
+
+export const A4_PORTRAIT: [number, number] = [595.28, 841.89];
+export const A4_LANDSCAPE: [number, number] = [841.89, 595.28];
+
+export const createPdf = async (pages: FixturePage[]): Promise<Uint8Array> => {
+    const pdfDoc = await PDFDocument.create();
+    const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+    for (const { size = A4_PORTRAIT, rotation, label } of pages) {
+        const page = pdfDoc.addPage(size);
+        if (label) page.drawText(label, { x: 50, y: 50, size: 24, font });
+        if (rotation) page.setRotation(degrees(rotation));
+    }
+    return pdfDoc.save();
+};
+
+// Cria um PDF de N páginas em que a página i tem largura `offset + i`, para identificar a origem de cada página depois das operações.
+export const createNumberedPdf = (pageCount: number, offset = 100) =>
+    createPdf(Array.from({ length: pageCount }, (_, i) => ({ size: [offset + i + 1, 800] as [number, number], label: `${i + 1}` })));
+
+// Devolve a largura de cada página, que nos PDFs de createNumberedPdf identifica a página de origem.
+export const pageWidths = async (bytes: Uint8Array) => {
+    const pdfDoc = await PDFDocument.load(bytes);
+    return pdfDoc.getPages().map(page => Math.round(page.getSize().width));
+};
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    return c >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array) => {
+    let crc = 0xffffffff;
+    for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+    return (crc ^ 0xffffffff) >>> 0;
+};
+
+const pngChunk = (type: string, data: Uint8Array) => {
+    const chunk = new Uint8Array(12 + data.length);
+    const view = new DataView(chunk.buffer);
+    view.setUint32(0, data.length);
+    chunk.set(Buffer.from(type, 'ascii'), 4);
+    chunk.set(data, 8);
+    view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+    return chunk;
+};
+
+// PNG RGB de cor sólida.
+export const createPng = (width: number, height: number, [r, g, b]: [number, number, number] = [200, 30, 30]) => {
+    const header = new Uint8Array(13);
+    const view = new DataView(header.buffer);
+    view.setUint32(0, width);
+    view.setUint32(4, height);
+    header.set([8, 2, 0, 0, 0], 8);
+
+    const raw = new Uint8Array(height * (1 + width * 3));
+    for (let y = 0; y < height; y++) {
+        const row = y * (1 + width * 3);
+        for (let x = 0; x < width; x++) raw.set([r, g, b], row + 1 + x * 3);
+    }
+
+    const parts = [
+        new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+        pngChunk('IHDR', header),
+        pngChunk('IDAT', deflateSync(raw)),
+        pngChunk('IEND', new Uint8Array(0)),
+    ];
+    return Buffer.concat(parts);
+};
+
+// Cabeçalho JPEG mínimo (SOI + SOF0 + EOI): suficiente para o pdf-lib ler dimensões e incorporar a imagem.
+export const createJpeg = (width: number, height: number) =>
+    new Uint8Array([
+        0xff, 0xd8,
+        0xff, 0xc0, 0x00, 0x11, 0x08, height >> 8, height & 0xff, width >> 8, width & 0xff,
+        0x03, 0x01, 0x22, 0x00, 0x02, 0x11, 0x01, 0x03, 0x11, 0x01,
+        0xff, 0xd9,
+    ]);
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { PDFDocument, PDFName, PDFNumber, PDFRawStream } from 'pdf-lib';
+import { parseContentOperations } from '../lib/contentStream';
+import { ImageCodec, ImageSource, findImagePlacements } from '../lib/imageCompression';
+import { compressPdfWithReport, imagesToPdf } from '../lib/pdfOperations';
+import { createJpeg, createPng } from './fixtures';
+
+// Codec de teste: registra o pedido e devolve um JPEG mínimo com as dimensões pedidas.
+const recordingCodec = () => {
+    const calls: Array<{ source: ImageSource; width: number; height: number }> = [];
+    const codec: ImageCodec = {
+        encodeJpeg: async (source, width, height) => {
+            calls.push({ source, width, height });
+            return createJpeg(width, height);
+        },
+    };
+    return { codec, calls };
+};
+
+const imageStreams = (pdfDoc: PDFDocument) =>
+    pdfDoc.context.enumerateIndirectObjects()
+        .map(([, object]) => object)
+        .filter((object): object is PDFRawStream => object instanceof PDFRawStream && object.dict.lookup(PDFName.of('Subtype')) === PDFName.of('Image'));
+
+describe('parseContentOperations', () => {
+    it('reads operators and operands, skipping strings, arrays and inline images', () => {
+        const content = new TextEncoder().encode('q 200 0 0 100 50 50 cm /Im#201 Do Q BT (a) Tj [(b) -3 (c)] TJ ET BI /W 1 /H 1 ID \x00\xff EI 1 0 0 1 0 0 cm');
+        const operations = parseContentOperations(content);
+        expect(operations.map(({ operator }) => operator)).toEqual(['q', 'cm', 'Do', 'Q', 'BT', 'Tj', 'TJ', 'ET', 'BI', 'cm']);
+        expect(operations[1].operands).toEqual([200, 0, 0, 100, 50, 50]);
+        expect(operations[2].operands).toEqual([{ name: 'Im 1' }]);
+    });
+});
+
+describe('image recompression', () => {
+    // 2000 × 1000 px desenhada na largura útil de um A4 retrato (595,28 - 2 × 36 pt ≈ 7,27 polegadas).
+    const createScannedPdf = () => imagesToPdf([{ bytes: createPng(2000, 1000) }]);
+
+    it('measures the size each image is drawn at', async () => {
+        const pdfDoc = await PDFDocument.load(await createScannedPdf());
+        const [placed] = Array.from(findImagePlacements(pdfDoc).values());
+        expect(placed.width).toBeCloseTo(523.28, 1);
+        expect(placed.height).toBeCloseTo(261.64, 1);
+    });
+
+    it('downsamples to the target DPI and swaps in a JPEG', async () => {
+        const { codec, calls } = recordingCodec();
+        const { bytes, images } = await compressPdfWithReport(await createScannedPdf(), { images: { dpi: 150, quality: 0.7 }, codec });
+
+        expect(images).toEqual({ total: 1, replaced: 1 });
+        expect(calls[0].source).toMatchObject({ kind: 'pixels', width: 2000, height: 1000, channels: 3 });
+        expect([calls[0].width, calls[0].height]).toEqual([1090, 545]);
+
+        const [image] = imageStreams(await PDFDocument.load(bytes));
+        expect(image.dict.lookup(PDFName.of('Filter'))).toBe(PDFName.of('DCTDecode'));
+        expect(image.dict.lookup(PDFName.of('Width'), PDFNumber).asNumber()).toBe(1090);
+    });
+
+    it('never upsamples and keeps images whose JPEG would be larger', async () => {
+        const small = await imagesToPdf([{ bytes: createJpeg(100, 50) }]);
+        const { codec, calls } = recordingCodec();
+        const { images } = await compressPdfWithReport(small, { images: { dpi: 150, quality: 0.7 }, codec });
+
+        expect(calls[0]).toMatchObject({ width: 100, height: 50 });
+        expect(calls[0].source.kind).toBe('jpeg');
+        expect(images).toEqual({ total: 1, replaced: 0 });
+    });
+});
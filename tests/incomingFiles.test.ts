@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { routeIncomingFiles } from '../lib/incomingFiles';
+
+const file = (name: string, type: string) => new File([new Uint8Array(1)], name, { type });
+
+describe('routeIncomingFiles', () => {
+    it('sends several PDFs to the merger and a single PDF to the editor', () => {
+        const a = file('a.pdf', 'application/pdf');
+        const b = file('b.PDF', '');
+        const merged = routeIncomingFiles([a, b]);
+        expect(merged?.tool).toBe('merge');
+        expect(merged?.files.map(f => f.name)).toEqual(['a.pdf', 'b.PDF']);
+        expect(routeIncomingFiles([a])).toEqual({ tool: 'edit', files: [a] });
+    });
+
+    it('gives untyped PDFs the PDF type the tools check for', () => {
+        const shared = file('laudo.pdf', 'application/octet-stream');
+        const route = routeIncomingFiles([shared]);
+        expect(route?.tool).toBe('edit');
+        expect(route?.files.map(f => [f.name, f.type])).toEqual([['laudo.pdf', 'application/pdf']]);
+        expect(routeIncomingFiles([file('a.pdf', 'application/pdf'), file('b.PDF', '')])?.files.map(f => f.type))
+            .toEqual(['application/pdf', 'application/pdf']);
+    });
+
+    it('sends JPG and PNG images to the image converter', () => {
+        const photo = file('foto.jpg', 'image/jpeg');
+        const scan = file('scan.png', 'image/png');
+        expect(routeIncomingFiles([photo, file('clip.gif', 'image/gif'), scan])).toEqual({ tool: 'image', files: [photo, scan] });
+    });
+
+    it('prefers PDFs when both kinds arrive and ignores unsupported files', () => {
+        const pdf = file('planta.pdf', 'application/pdf');
+        expect(routeIncomingFiles([file('foto.jpg', 'image/jpeg'), pdf])).toEqual({ tool: 'edit', files: [pdf] });
+        expect(routeIncomingFiles([file('notas.txt', 'text/plain')])).toBeNull();
+    });
+});
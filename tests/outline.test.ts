@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { PDFArray, PDFDocument, PDFName } from 'pdf-lib';
+import { OutlineNode, readOutline, writeOutline } from '../lib/outline';
+import { mergePdfs } from '../lib/pdfOperations';
+import { createNumberedPdf, pageWidths } from './fixtures';
+
+const withOutline = async (bytes: Uint8Array, nodes: OutlineNode[]) => {
+    const pdfDoc = await PDFDocument.load(bytes);
+    writeOutline(pdfDoc, nodes);
+    return pdfDoc.save();
+};
+
+const outlineOf = async (bytes: Uint8Array) => readOutline(await PDFDocument.load(bytes));
+
+describe('writeOutline', () => {
+    it('round-trips nested bookmarks, including non-Latin titles', async () => {
+        const nodes: OutlineNode[] = [
+            { title: 'Capa', pageIndex: 0, children: [] },
+            { title: 'Memorial — Ação', pageIndex: 1, children: [{ title: '図面', pageIndex: 2, children: [] }] },
+        ];
+        expect(await outlineOf(await withOutline(await createNumberedPdf(3), nodes))).toEqual(nodes);
+    });
+});
+
+describe('mergePdfs navigation', () => {
+    it('adds one bookmark per file and nests the original bookmarks on the merged pages', async () => {
+        const supplier = await withOutline(await createNumberedPdf(6, 200), [
+            { title: 'Introdução', pageIndex: 0, children: [] },
+            { title: 'Desenhos', pageIndex: 3, children: [{ title: 'Planta', pageIndex: 4, children: [] }] },
+        ]);
+        const merged = await mergePdfs([
+            { bytes: await createNumberedPdf(1), title: 'Capa' },
+            { bytes: supplier, pageIndices: [3, 4, 5], title: 'Fornecedor' },
+        ], { bookmarks: true });
+
+        expect(await outlineOf(merged)).toEqual([
+            { title: 'Capa', pageIndex: 0, children: [] },
+            {
+                title: 'Fornecedor',
+                pageIndex: 1,
+                // "Introdução" aponta para uma página que ficou de fora e é descartada.
+                children: [{ title: 'Desenhos', pageIndex: 1, children: [{ title: 'Planta', pageIndex: 2, children: [] }] }],
+            },
+        ]);
+    });
+
+    it('prepends a linked table of contents and shifts the bookmarks past it', async () => {
+        const merged = await mergePdfs([
+            { bytes: await createNumberedPdf(2, 100), title: 'Primeiro' },
+            { bytes: await createNumberedPdf(3, 200), title: 'Segundo' },
+        ], { bookmarks: true, tableOfContents: true });
+
+        expect(await pageWidths(merged)).toEqual([595, 101, 102, 201, 202, 203]);
+        expect((await outlineOf(merged)).map(({ title, pageIndex }) => [title, pageIndex])).toEqual([
+            ['Sumário', 0],
+            ['Primeiro', 1],
+            ['Segundo', 3],
+        ]);
+
+        const pdfDoc = await PDFDocument.load(merged);
+        const links = pdfDoc.getPage(0).node.lookup(PDFName.of('Annots'), PDFArray);
+        expect(links.size()).toBe(2);
+    });
+});
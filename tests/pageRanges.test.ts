@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { PageRangeError, formatPageRange, parsePageRange } from '../lib/pageRanges';
+
+describe('parsePageRange', () => {
+    it('parses single pages and ranges into zero-based indices', () => {
+        expect(parsePageRange('1-3, 7', 10)).toEqual([0, 1, 2, 6]);
+    });
+
+    it('keeps the written order, including descending ranges', () => {
+        expect(parsePageRange('5-3,1', 5)).toEqual([4, 3, 2, 0]);
+    });
+
+    it('accepts open ranges and the odd, even and last keywords', () => {
+        expect(parsePageRange('8-, -2', 10)).toEqual([7, 8, 9, 0, 1]);
+        expect(parsePageRange('odd', 5)).toEqual([0, 2, 4]);
+        expect(parsePageRange('Pares', 5)).toEqual([1, 3]);
+        expect(parsePageRange('last 3, últimas 1', 10)).toEqual([7, 8, 9, 9]);
+    });
+
+    it('rejects pages outside the document', () => {
+        expect(() => parsePageRange('2-12', 10)).toThrow(PageRangeError);
+        expect(() => parsePageRange('last 11', 10)).toThrow(PageRangeError);
+    });
+
+    it('rejects malformed and empty expressions', () => {
+        expect(() => parsePageRange('a-b', 10)).toThrow(PageRangeError);
+        expect(() => parsePageRange(' , ', 10)).toThrow(PageRangeError);
+        expect(() => parsePageRange('-', 10)).toThrow(PageRangeError);
+        expect(() => parsePageRange('3 4', 10)).toThrow(PageRangeError);
+    });
+});
+
+describe('formatPageRange', () => {
+    it('collapses consecutive pages into ranges', () => {
+        expect(formatPageRange([1, 4, 5, 6, 9])).toBe('1, 4-6, 9');
+        expect(formatPageRange([])).toBe('');
+    });
+});
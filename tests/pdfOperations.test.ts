@@ -0,0 +1,190 @@
+import { describe, expect, it } from 'vitest';
+import { PDFDict, PDFDocument, PDFName } from 'pdf-lib';
+import {
+    addPageNumbers,
+    compressPdf,
+    detectImageFormat,
+    editPdf,
+    extractPages,
+    imagesToPdf,
+    mergePdfs,
+    rebuildFromPageImages,
+    rotatePages,
+} from '../lib/pdfOperations';
+import { UnsupportedCharactersError } from '../lib/pageText';
+import { A4_LANDSCAPE, A4_PORTRAIT, createJpeg, createNumberedPdf, createPdf, createPng, pageWidths } from './fixtures';
+
+const rotations = async (bytes: Uint8Array) => {
+    const pdfDoc = await PDFDocument.load(bytes);
+    return pdfDoc.getPages().map(page => page.getRotation().angle);
+};
+
+describe('mergePdfs', () => {
+    it('concatenates every page of every input in order', async () => {
+        const first = await createNumberedPdf(2, 100);
+        const second = await createNumberedPdf(3, 200);
+        const merged = await mergePdfs([first, second]);
+        expect(await pageWidths(merged)).toEqual([101, 102, 201, 202, 203]);
+    });
+
+    it('copies only the chosen pages of inputs that have page indices', async () => {
+        const cover = await createNumberedPdf(3, 100);
+        const supplier = await createNumberedPdf(9, 200);
+        const merged = await mergePdfs([{ bytes: cover, pageIndices: [0] }, { bytes: supplier, pageIndices: [3, 4, 5, 6, 7, 8] }, cover]);
+        expect(await pageWidths(merged)).toEqual([101, 204, 205, 206, 207, 208, 209, 101, 102, 103]);
+    });
+
+    it('interleaves pages, reversing inputs marked as reversed', async () => {
+        const fronts = await createNumberedPdf(3, 100);
+        const backs = await createNumberedPdf(3, 200);
+        const merged = await mergePdfs([fronts, { bytes: backs, reverse: true }], { mode: 'interleave' });
+        expect(await pageWidths(merged)).toEqual([101, 203, 102, 202, 103, 201]);
+    });
+
+    it('keeps alternating with the remaining file when one runs out', async () => {
+        const merged = await mergePdfs([await createNumberedPdf(1, 100), await createNumberedPdf(3, 200)], { mode: 'interleave' });
+        expect(await pageWidths(merged)).toEqual([101, 201, 202, 203]);
+    });
+
+    it('pads documents with an odd page count with a blank page of the same size', async () => {
+        const merged = await mergePdfs([await createNumberedPdf(3, 100), await createNumberedPdf(2, 200)], { padToEven: true });
+        expect(await pageWidths(merged)).toEqual([101, 102, 103, 103, 201, 202]);
+    });
+
+    it('does not pad the last document', async () => {
+        const merged = await mergePdfs([await createNumberedPdf(2, 100), await createNumberedPdf(1, 200)], { padToEven: true });
+        expect(await pageWidths(merged)).toEqual([101, 102, 201]);
+    });
+
+    it('accepts ArrayBuffer inputs', async () => {
+        const bytes = await createNumberedPdf(1);
+        const merged = await mergePdfs([bytes.slice().buffer]);
+        expect(await pageWidths(merged)).toEqual([101]);
+    });
+
+    it('places images on their own page between the PDF pages', async () => {
+        const merged = await mergePdfs([
+            await createNumberedPdf(2, 100),
+            { image: { bytes: createPng(40, 20) }, title: 'Foto' },
+            { image: { bytes: createJpeg(20, 40) } },
+        ], { imageLayout: { pageSize: 'Letter', orientation: 'landscape' } });
+        expect(await pageWidths(merged)).toEqual([101, 102, 792, 792]);
+    });
+});
+
+describe('extractPages', () => {
+    it('copies only the requested page indices, in the given order', async () => {
+        const source = await createNumberedPdf(5);
+        const extracted = await extractPages(source, [4, 0, 2]);
+        expect(await pageWidths(extracted)).toEqual([105, 101, 103]);
+    });
+});
+
+describe('editPdf', () => {
+    it('reorders, drops and rotates pages', async () => {
+        const source = await createNumberedPdf(3);
+        const edited = await editPdf(source, [
+            { sourceIndex: 2, rotation: 90, texts: [] },
+            { sourceIndex: 0, rotation: 0, texts: [] },
+        ]);
+        expect(await pageWidths(edited)).toEqual([103, 101]);
+        expect(await rotations(edited)).toEqual([90, 0]);
+    });
+
+    it('draws text elements onto their page', async () => {
+        const source = await createNumberedPdf(1);
+        const plain = await editPdf(source, [{ sourceIndex: 0, rotation: 0, texts: [] }]);
+        const withText = await editPdf(source, [{
+            sourceIndex: 0,
+            rotation: 0,
+            texts: [{ text: 'Revisão A', x: 10, y: 10, fontSize: 12 }],
+        }]);
+        expect(withText.length).toBeGreaterThan(plain.length);
+    });
+
+    it('embeds the font variant each text element asks for', async () => {
+        const source = await createNumberedPdf(1);
+        const edited = await editPdf(source, [{
+            sourceIndex: 0,
+            rotation: 0,
+            texts: [
+                { text: 'Ø 10 ± 0,2 mm²\nSeção A', x: 50, y: 50, fontSize: 14, font: 'times', bold: true, italic: true, color: '#c00000', align: 'center' },
+                { text: 'Observação', x: 20, y: 80, fontSize: 10, font: 'courier' },
+            ],
+        }]);
+        const pdfDoc = await PDFDocument.load(edited);
+        const baseFonts = pdfDoc.context.enumerateIndirectObjects()
+            .map(([, object]) => (object instanceof PDFDict ? object.lookup(PDFName.of('BaseFont')) : undefined))
+            .filter((name): name is PDFName => name instanceof PDFName)
+            .map(name => name.decodeText());
+        expect(baseFonts).toEqual(expect.arrayContaining(['Courier', 'Times-BoldItalic']));
+    });
+
+    it('rejects characters the chosen font cannot draw', async () => {
+        const source = await createNumberedPdf(1);
+        const edit = editPdf(source, [{ sourceIndex: 0, rotation: 0, texts: [{ text: 'Δt ≤ 5 s', x: 50, y: 50, fontSize: 12 }] }]);
+        await expect(edit).rejects.toThrow(UnsupportedCharactersError);
+        await expect(edit).rejects.toThrow('Δ ≤');
+    });
+});
+
+describe('rotatePages', () => {
+    it('rotates only pages matching the orientation filter', async () => {
+        const source = await createPdf([{ size: A4_PORTRAIT }, { size: A4_LANDSCAPE }, { size: A4_LANDSCAPE, rotation: 90 }]);
+        const rotated = await rotatePages(source, { angle: 90, target: 'landscape' });
+        // A terceira página já aparece em retrato por causa do /Rotate 90.
+        expect(await rotations(rotated)).toEqual([0, 90, 90]);
+    });
+
+    it('adds to the existing rotation', async () => {
+        const source = await createPdf([{ rotation: 270 }]);
+        expect(await rotations(await rotatePages(source, { angle: 180 }))).toEqual([90]);
+    });
+});
+
+describe('addPageNumbers', () => {
+    it('keeps the page count and adds content to every page', async () => {
+        const source = await createNumberedPdf(3);
+        const numbered = await addPageNumbers(source, { format: 'number-of-total', position: 'bottom-right' });
+        const pdfDoc = await PDFDocument.load(numbered);
+        expect(pdfDoc.getPageCount()).toBe(3);
+        expect(numbered.length).toBeGreaterThan(source.length);
+    });
+});
+
+describe('compressPdf', () => {
+    it('produces a loadable PDF with the same pages', async () => {
+        const source = await createNumberedPdf(4);
+        expect(await pageWidths(await compressPdf(source))).toEqual([101, 102, 103, 104]);
+    });
+});
+
+describe('imagesToPdf', () => {
+    it('detects PNG and JPEG by signature', () => {
+        expect(detectImageFormat(createPng(2, 2))).toBe('png');
+        expect(detectImageFormat(createJpeg(2, 2))).toBe('jpg');
+    });
+
+    it('places each image on its own page of the chosen size and orientation', async () => {
+        const pdf = await imagesToPdf([{ bytes: createPng(40, 20) }, { bytes: createJpeg(20, 40) }], { pageSize: 'Letter', orientation: 'landscape' });
+        const pdfDoc = await PDFDocument.load(pdf);
+        expect(pdfDoc.getPages().map(page => [page.getWidth(), page.getHeight()])).toEqual([[792, 612], [792, 612]]);
+    });
+
+    it('defaults to A4 portrait', async () => {
+        const pdfDoc = await PDFDocument.load(await imagesToPdf([{ bytes: createPng(10, 10) }]));
+        const page = pdfDoc.getPage(0);
+        expect([page.getWidth(), page.getHeight()]).toEqual(A4_PORTRAIT);
+    });
+});
+
+describe('rebuildFromPageImages', () => {
+    it('creates one page per image with the original page size', async () => {
+        const pdf = await rebuildFromPageImages([
+            { image: createJpeg(20, 30), width: 200, height: 300 },
+            { image: createJpeg(30, 20), width: A4_LANDSCAPE[0], height: A4_LANDSCAPE[1] },
+        ]);
+        const pdfDoc = await PDFDocument.load(pdf);
+        expect(pdfDoc.getPages().map(page => [page.getWidth(), page.getHeight()])).toEqual([[200, 300], A4_LANDSCAPE]);
+    });
+});
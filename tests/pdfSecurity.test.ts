@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { PDFDocument } from 'pdf-lib';
+import { getDocument } from 'pdfjs-dist/legacy/build/pdf.js';
+import { md5 } from '../lib/crypto';
+import { ALL_PERMISSIONS, EncryptionOptions, PdfPasswordError, decryptPdf, encryptPdf, isPdfEncrypted } from '../lib/pdfSecurity';
+import { createEncryptedObjectStreamPdf, encryptFixture } from './encryptedFixtures';
+import { createNumberedPdf, pageWidths } from './fixtures';
+
+const toHex = (bytes: Uint8Array) => Buffer.from(bytes).toString('hex');
+
+describe('md5', () => {
+    it('matches the RFC 1321 test vectors', () => {
+        expect(toHex(md5(new Uint8Array(0)))).toBe('d41d8cd98f00b204e9800998ecf8427e');
+        expect(toHex(md5(new TextEncoder().encode('message digest')))).toBe('f96b697d7cb7938d525a2f31aaf161d0');
+    });
+});
+
+describe('decryptPdf', () => {
+    it.each(['rc4', 'aes128', 'aes256'] as const)('opens %s files with the user or the owner password', async cipher => {
+        const encrypted = await encryptFixture(await createNumberedPdf(3), { userPassword: 'abrir', ownerPassword: 'dono', cipher });
+        expect(await isPdfEncrypted(encrypted)).toBe(true);
+
+        for (const password of ['abrir', 'dono']) {
+            const decrypted = await decryptPdf(encrypted, password);
+            expect(await isPdfEncrypted(decrypted)).toBe(false);
+            expect(await pageWidths(decrypted)).toEqual([101, 102, 103]);
+        }
+    });
+
+    it('rejects a wrong password with PdfPasswordError', async () => {
+        const encrypted = await encryptFixture(await createNumberedPdf(1), { userPassword: 'abrir', ownerPassword: 'dono', cipher: 'aes128' });
+        await expect(decryptPdf(encrypted, 'errada')).rejects.toBeInstanceOf(PdfPasswordError);
+    });
+
+    it('opens files protected only against editing with an empty password', async () => {
+        const encrypted = await encryptFixture(await createNumberedPdf(1), { userPassword: '', ownerPassword: 'dono', cipher: 'rc4' });
+        expect(await pageWidths(await decryptPdf(encrypted, ''))).toEqual([101]);
+    });
+
+    it('expands encrypted object streams', async () => {
+        const decrypted = await decryptPdf(await createEncryptedObjectStreamPdf('abrir'), 'abrir');
+        const pdfDoc = await PDFDocument.load(decrypted);
+        expect(pdfDoc.getPages().map(page => page.getWidth())).toEqual([321]);
+        expect(pdfDoc.getTitle()).toBe('Sigiloso');
+    });
+
+    it('leaves unencrypted files untouched', async () => {
+        const plain = await createNumberedPdf(2);
+        expect(await isPdfEncrypted(plain)).toBe(false);
+        expect(await decryptPdf(plain, '')).toBe(plain);
+    });
+});
+
+// Abre com o pdf.js (build legada, que roda em Node), como o app faz para exibir as páginas.
+const openWithPdfjs = (bytes: Uint8Array, password: string) => getDocument({ data: bytes.slice(), password }).promise;
+
+describe('encryptPdf', () => {
+    const restricted: EncryptionOptions = {
+        algorithm: 'aes256',
+        userPassword: 'abrir',
+        ownerPassword: 'dono',
+        permissions: { ...ALL_PERMISSIONS, printing: 'none', copying: false },
+    };
+
+    it.each(['aes128', 'aes256'] as const)('writes %s files that pdf.js opens only with a password', async algorithm => {
+        const encrypted = await encryptPdf(await createNumberedPdf(2), { ...restricted, algorithm });
+        expect(await isPdfEncrypted(encrypted)).toBe(true);
+
+        const pdf = await openWithPdfjs(encrypted, 'abrir');
+        expect(pdf.numPages).toBe(2);
+        expect((await pdf.getPage(2)).view[2]).toBe(102);
+        await expect(openWithPdfjs(encrypted, 'errada')).rejects.toThrow();
+
+        expect(await pageWidths(await decryptPdf(encrypted, 'dono'))).toEqual([101, 102]);
+    });
+
+    it('records the permission flags', async () => {
+        const encrypted = await encryptPdf(await createNumberedPdf(1), restricted);
+        const permissions = await (await openWithPdfjs(encrypted, 'abrir')).getPermissions();
+        // PermissionFlag do pdf.js: PRINT = 4, COPY = 16, MODIFY_CONTENTS = 8.
+        expect(permissions).not.toContain(4);
+        expect(permissions).not.toContain(16);
+        expect(permissions).toContain(8);
+    });
+
+    it('keeps the file open without a password when only restrictions are set', async () => {
+        const encrypted = await encryptPdf(await createNumberedPdf(1), { ...restricted, algorithm: 'aes128', userPassword: '' });
+        expect((await openWithPdfjs(encrypted, '')).numPages).toBe(1);
+        expect(await pageWidths(await decryptPdf(encrypted, ''))).toEqual([101]);
+    });
+});
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { Recipe, runRecipe } from '../lib/recipes';
+import { imagesToPdf } from '../lib/pdfOperations';
+import { ImageCodec } from '../lib/imageCompression';
+import { createJpeg, createNumberedPdf, createPng, pageWidths } from './fixtures';
+
+const recipe = (overrides: Partial<Recipe>): Recipe => ({ id: 'r', name: 'Pranchas Recebidas', outputMode: 'perInput', steps: [], ...overrides });
+
+describe('runRecipe', () => {
+    it('merges the batch first in combined mode', async () => {
+        const outputs = await runRecipe(
+            recipe({ outputMode: 'combined', steps: [{ type: 'extract', pages: '1, 4' }] }),
+            [{ name: 'a.pdf', bytes: await createNumberedPdf(2, 100) }, { name: 'b.pdf', bytes: await createNumberedPdf(2, 200) }],
+        );
+        expect(outputs.map(o => o.name)).toEqual(['pranchas-recebidas.pdf']);
+        expect(await pageWidths(outputs[0].bytes)).toEqual([101, 202]);
+    });
+
+    it('produces one output per input in perInput mode', async () => {
+        const progress: string[] = [];
+        const outputs = await runRecipe(
+            recipe({ steps: [{ type: 'extract', pages: '2' }, { type: 'compress' }] }),
+            [{ name: 'a.pdf', bytes: await createNumberedPdf(2, 100) }, { name: 'b.PDF', bytes: await createNumberedPdf(3, 200) }],
+            { onProgress: p => progress.push(`${p.detail}:${p.current}`) },
+        );
+        expect(outputs.map(o => o.name)).toEqual(['a-pranchas-recebidas.pdf', 'b-pranchas-recebidas.pdf']);
+        expect(await pageWidths(outputs[1].bytes)).toEqual([202]);
+        expect(progress).toEqual(['a-pranchas-recebidas.pdf:1', 'a-pranchas-recebidas.pdf:2', 'b-pranchas-recebidas.pdf:1', 'b-pranchas-recebidas.pdf:2']);
+    });
+
+    it('recompresses images in the compress step with the preset and codec given', async () => {
+        const qualities: number[] = [];
+        const codec: ImageCodec = {
+            encodeJpeg: async (_source, width, height, quality) => {
+                qualities.push(quality);
+                return createJpeg(width, height);
+            },
+        };
+        const scan = await imagesToPdf([{ bytes: createPng(2000, 1000) }]);
+        const [output] = await runRecipe(recipe({ steps: [{ type: 'compress', preset: 'high' }] }), [{ name: 'scan.pdf', bytes: scan }], { codec });
+        expect(qualities).toEqual([0.5]);
+        expect(output.bytes.length).toBeLessThan(scan.length);
+    });
+});
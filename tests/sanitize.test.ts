@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { PDFDict, PDFDocument, PDFName, PDFRawStream, PDFString } from 'pdf-lib';
+import { SANITIZE_ITEMS, inspectPdf, sanitizePdf } from '../lib/sanitize';
+
+// PDF com um pouco de tudo o que a limpeza procura.
+const createSensitivePdf = async () => {
+    const pdfDoc = await PDFDocument.create();
+    const { context, catalog } = pdfDoc;
+    pdfDoc.setTitle('Proposta');
+    pdfDoc.setAuthor('Maria Souza');
+    const page = pdfDoc.addPage();
+
+    catalog.set(PDFName.of('Metadata'), context.register(context.stream('<x:xmpmeta/>', { Type: 'Metadata', Subtype: 'XML' })));
+    await pdfDoc.attach(new TextEncoder().encode('custos internos'), 'custos.csv', { mimeType: 'text/csv' });
+    pdfDoc.addJavaScript('boasVindas', 'app.alert("olá")');
+    catalog.set(PDFName.of('OpenAction'), context.obj({ S: 'JavaScript', JS: PDFString.of('app.alert(1)') }));
+
+    const field = pdfDoc.getForm().createTextField('nome');
+    field.addToPage(page);
+    field.acroField.dict.set(PDFName.of('AA'), context.obj({ K: { S: 'JavaScript', JS: PDFString.of('event.rc = true') } }));
+
+    const comment = context.register(context.obj({ Type: 'Annot', Subtype: 'Text', Rect: [0, 0, 20, 20], T: PDFString.of('João'), Contents: PDFString.of('Rever o preço') }));
+    const popup = context.register(context.obj({ Type: 'Annot', Subtype: 'Popup', Rect: [0, 0, 100, 100], Parent: comment }));
+    context.lookup(comment, PDFDict).set(PDFName.of('Popup'), popup);
+    const link = context.register(context.obj({ Type: 'Annot', Subtype: 'Link', Rect: [0, 0, 50, 10], A: { S: 'Launch', F: PDFString.of('calc.exe') } }));
+    [comment, popup, link].forEach(ref => page.node.addAnnot(ref));
+
+    return pdfDoc.save();
+};
+
+describe('inspectPdf', () => {
+    it('lists what each category contains', async () => {
+        const report = await inspectPdf(await createSensitivePdf());
+        expect(report.metadata.details).toEqual(expect.arrayContaining(['Título: Proposta', 'Autor: Maria Souza']));
+        expect(report.xmp.count).toBe(1);
+        expect(report.attachments.details).toEqual(['custos.csv']);
+        expect(report.javascript.details).toEqual(expect.arrayContaining(['Scripts do documento', 'Ação ao abrir o documento', 'Link que abre um programa ou arquivo']));
+        expect(report.formActions.details).toEqual(['Campo nome: ações']);
+        // O popup sai junto com a nota e não conta como outro comentário.
+        expect(report.comments.details).toEqual(['Página 1: João: Rever o preço']);
+        expect(SANITIZE_ITEMS.every(item => !report[item].removed)).toBe(true);
+    });
+});
+
+describe('sanitizePdf', () => {
+    it('removes every selected category and the objects left behind', async () => {
+        const { bytes, report } = await sanitizePdf(await createSensitivePdf(), SANITIZE_ITEMS);
+        expect(SANITIZE_ITEMS.every(item => report[item].removed)).toBe(true);
+
+        const after = await inspectPdf(bytes);
+        expect(SANITIZE_ITEMS.map(item => after[item].count)).toEqual(SANITIZE_ITEMS.map(() => 0));
+
+        const pdfDoc = await PDFDocument.load(bytes);
+        const embeddedFiles = pdfDoc.context.enumerateIndirectObjects()
+            .filter(([, object]) => object instanceof PDFRawStream && object.dict.lookup(PDFName.of('Type')) === PDFName.of('EmbeddedFile'));
+        expect(embeddedFiles).toEqual([]);
+        // O campo continua lá, só sem o script; o link também, sem a ação.
+        expect(pdfDoc.getForm().getFields().map(field => field.getName())).toEqual(['nome']);
+        expect(pdfDoc.getPage(0).node.Annots()?.size()).toBe(2);
+    });
+
+    it('keeps the categories that were not selected', async () => {
+        const { bytes, report } = await sanitizePdf(await createSensitivePdf(), ['comments']);
+        expect(report.comments.removed).toBe(true);
+        expect(report.metadata.removed).toBe(false);
+
+        const after = await inspectPdf(bytes);
+        expect(after.comments.count).toBe(0);
+        expect(after.metadata.details).toContain('Autor: Maria Souza');
+        expect(after.attachments.count).toBe(1);
+    });
+
+    it('follows /Next chains and catches Launch actions on form buttons', async () => {
+        const pdfDoc = await PDFDocument.create();
+        const { context, catalog } = pdfDoc;
+        const page = pdfDoc.addPage();
+        // Abrir na primeira página é inofensivo e fica, mesmo encadeando outro GoTo.
+        catalog.set(PDFName.of('OpenAction'), context.obj({ S: 'GoTo', D: [page.ref, 'Fit'], Next: { S: 'GoTo', D: [page.ref, 'FitH'] } }));
+
+        const button = pdfDoc.getForm().createButton('abrir');
+        button.addToPage('Abrir', page);
+        const widget = button.acroField.getWidgets()[0];
+        widget.dict.set(PDFName.of('A'), context.obj({ S: 'Launch', F: PDFString.of('setup.exe') }));
+
+        const script = context.obj({ S: 'JavaScript', JS: PDFString.of('app.alert(1)') });
+        const chained = context.register(context.obj({ Type: 'Annot', Subtype: 'Link', Rect: [0, 0, 50, 10], A: { S: 'URI', URI: PDFString.of('https://exemplo.com'), Next: script } }));
+        const chainedInArray = context.register(context.obj({ Type: 'Annot', Subtype: 'Link', Rect: [0, 20, 50, 30], A: { S: 'GoTo', D: [page.ref, 'Fit'], Next: [{ S: 'Launch', F: PDFString.of('calc.exe') }] } }));
+        [chained, chainedInArray].forEach(ref => page.node.addAnnot(ref));
+
+        const bytes = await pdfDoc.save();
+        const report = await inspectPdf(bytes);
+        expect(report.javascript.details.sort()).toEqual(['Botão que abre um programa ou arquivo', 'Link com script', 'Link que abre um programa ou arquivo']);
+
+        const cleaned = await sanitizePdf(bytes, ['javascript']);
+        expect((await inspectPdf(cleaned.bytes)).javascript.count).toBe(0);
+        expect((await PDFDocument.load(cleaned.bytes)).catalog.has(PDFName.of('OpenAction'))).toBe(true);
+    });
+});
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { PDFDocument, PDFName, StandardFonts } from 'pdf-lib';
+import { analyzePdfSize } from '../lib/sizeAnalysis';
+import { createPdf, createPng } from './fixtures';
+
+const createMixedPdf = async () => {
+    const pdfDoc = await PDFDocument.create();
+    pdfDoc.setTitle('Relatório');
+    const page = pdfDoc.addPage([400, 400]);
+    // 200 px desenhados em 100 pt: 144 dpi.
+    page.drawImage(await pdfDoc.embedPng(createPng(200, 100)), { x: 0, y: 0, width: 100, height: 50 });
+    page.drawText('Olá', { font: await pdfDoc.embedFont(StandardFonts.Helvetica), x: 10, y: 300 });
+    await pdfDoc.attach(new Uint8Array(5000).fill(65), 'dados.csv', { mimeType: 'text/csv' });
+    // Objeto que nada referencia.
+    pdfDoc.context.register(pdfDoc.context.flateStream(new Uint8Array(3000).fill(1)));
+    return pdfDoc.save();
+};
+
+describe('analyzePdfSize', () => {
+    it('breaks the file down into images, fonts, attachments and unused objects', async () => {
+        const bytes = await createMixedPdf();
+        const report = await analyzePdfSize(bytes);
+
+        expect(report.fileSize).toBe(bytes.length);
+        expect(report.images).toEqual([expect.objectContaining({ width: 200, height: 100, dpi: 144, filter: 'FlateDecode' })]);
+        expect(report.fonts).toEqual([expect.objectContaining({ name: 'Helvetica', embedded: false, subset: false })]);
+        expect(report.attachments).toEqual([expect.objectContaining({ name: 'dados.csv' })]);
+        expect(report.unusedObjects).toBe(1);
+        for (const category of ['images', 'fonts', 'content', 'attachments', 'metadata', 'unused'] as const) {
+            expect(report.categories[category]).toBeGreaterThan(0);
+        }
+    });
+
+    it('counts the image mask together with its image', async () => {
+        const pdfDoc = await PDFDocument.create();
+        const { context } = pdfDoc;
+        const image = (colorSpace: string, extra = {}) =>
+            context.flateStream(new Uint8Array(100), { Type: 'XObject', Subtype: 'Image', Width: 10, Height: 10, ColorSpace: colorSpace, BitsPerComponent: 8, ...extra });
+        const mask = context.register(image('DeviceGray'));
+        pdfDoc.addPage().node.setXObject(PDFName.of('Im1'), context.register(image('DeviceRGB', { SMask: mask })));
+
+        const report = await analyzePdfSize(await pdfDoc.save());
+        expect(report.images).toHaveLength(1);
+        expect(report.images[0].dpi).toBeNull();
+    });
+
+    it('reports nothing unused in a freshly created PDF', async () => {
+        const report = await analyzePdfSize(await createPdf([{ label: 'Capa' }]));
+        expect(report.unusedObjects).toBe(0);
+        expect(report.images).toEqual([]);
+    });
+});
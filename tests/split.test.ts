@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import JSZip from 'jszip';
+import { PDFDocument } from 'pdf-lib';
+import { writeOutline } from '../lib/outline';
+import { SplitError, partsBetweenSeparators, partsByPattern, splitPdf, splitPdfToZip } from '../lib/split';
+import { createNumberedPdf, pageWidths } from './fixtures';
+
+const describeOutputs = async (outputs: Array<{ name: string; bytes: Uint8Array }>) =>
+    Promise.all(outputs.map(async ({ name, bytes }) => [name, await pageWidths(bytes)]));
+
+describe('splitPdf', () => {
+    it('cuts every N pages, naming files by their page range', async () => {
+        const outputs = await splitPdf(await createNumberedPdf(12), { type: 'every', size: 5 }, { baseName: 'contrato' });
+        expect(await describeOutputs(outputs)).toEqual([
+            ['contrato-paginas-01-05.pdf', [101, 102, 103, 104, 105]],
+            ['contrato-paginas-06-10.pdf', [106, 107, 108, 109, 110]],
+            ['contrato-paginas-11-12.pdf', [111, 112]],
+        ]);
+    });
+
+    it('starts a new file at each marker', async () => {
+        const outputs = await splitPdf(await createNumberedPdf(4), { type: 'markers', breaks: [3, 1] });
+        expect(await describeOutputs(outputs)).toEqual([
+            ['documento-pagina-1.pdf', [101]],
+            ['documento-paginas-2-3.pdf', [102, 103]],
+            ['documento-pagina-4.pdf', [104]],
+        ]);
+    });
+
+    it('makes one file per top-level bookmark, keeping the pages before the first one', async () => {
+        const pdfDoc = await PDFDocument.load(await createNumberedPdf(5));
+        writeOutline(pdfDoc, [
+            { title: 'Capítulo 1', pageIndex: 1, children: [{ title: 'Seção', pageIndex: 2, children: [] }] },
+            { title: 'Anexos', pageIndex: 3, children: [] },
+        ]);
+        const outputs = await splitPdf(await pdfDoc.save(), { type: 'bookmarks' }, { baseName: 'livro' });
+        expect(await describeOutputs(outputs)).toEqual([
+            ['livro-1-inicio.pdf', [101]],
+            ['livro-2-capitulo-1.pdf', [102, 103]],
+            ['livro-3-anexos.pdf', [104, 105]],
+        ]);
+    });
+
+    it('splits by size into the fewest consecutive chunks under the limit', async () => {
+        const source = await createNumberedPdf(9);
+        const pairSize = (await splitPdf(source, { type: 'every', size: 2 }))[0].bytes.length;
+        const outputs = await splitPdf(source, { type: 'size', maxBytes: pairSize + 10 });
+
+        expect(outputs.every(({ bytes }) => bytes.length <= pairSize + 10)).toBe(true);
+        expect((await describeOutputs(outputs)).map(([, widths]) => widths)).toEqual([[101, 102], [103, 104], [105, 106], [107, 108], [109]]);
+    });
+
+    it('keeps a page that alone exceeds the size limit in its own file', async () => {
+        const outputs = await splitPdf(await createNumberedPdf(2), { type: 'size', maxBytes: 1 });
+        expect(outputs.map(({ name }) => name)).toEqual(['documento-pagina-1.pdf', 'documento-pagina-2.pdf']);
+    });
+
+    it('rejects bookmark splitting on documents without bookmarks', async () => {
+        await expect(splitPdf(await createNumberedPdf(2), { type: 'bookmarks' })).rejects.toBeInstanceOf(SplitError);
+    });
+});
+
+describe('content-aware split plans', () => {
+    it('starts a file at each pattern match, named after the captured group', () => {
+        const texts = ['Capa do lote', 'Nota Fiscal Nº 101 Página 1', 'Nota Fiscal Nº 101 Página 2', 'Nota Fiscal Nº 102', 'Continuação'];
+        expect(partsByPattern(texts, /Nota Fiscal Nº (\d+)/i, 'lote')).toEqual([
+            { name: 'lote-inicio.pdf', pageIndices: [0] },
+            { name: 'lote-101.pdf', pageIndices: [1, 2] },
+            { name: 'lote-102.pdf', pageIndices: [3, 4] },
+        ]);
+        expect(() => partsByPattern(['', ''], /Boleto/, 'lote')).toThrow(SplitError);
+    });
+
+    it('splits on blank separator pages and drops them', () => {
+        expect(partsBetweenSeparators([false, false, true, false, true, true, false], 'scan')).toEqual([
+            { name: 'scan-paginas-1-2.pdf', pageIndices: [0, 1] },
+            { name: 'scan-pagina-4.pdf', pageIndices: [3] },
+            { name: 'scan-pagina-7.pdf', pageIndices: [6] },
+        ]);
+        expect(() => partsBetweenSeparators([false, false], 'scan')).toThrow(SplitError);
+    });
+});
+
+describe('splitPdfToZip', () => {
+    it('packs one PDF per page into a ZIP and reports each size', async () => {
+        const archive = await splitPdfToZip(await createNumberedPdf(2), { type: 'pages' });
+        const zip = await JSZip.loadAsync(archive.bytes);
+        expect(Object.keys(zip.files)).toEqual(['documento-pagina-1.pdf', 'documento-pagina-2.pdf']);
+
+        const second = await zip.file('documento-pagina-2.pdf')!.async('uint8array');
+        expect(await pageWidths(second)).toEqual([102]);
+        expect(archive.files[1]).toEqual({ name: 'documento-pagina-2.pdf', size: second.length });
+    });
+});
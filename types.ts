@@ -5,3 +5,6 @@ import type { PDFDocument, PDFImage, Rotation } from 'pdf-lib';
 // Mantemos os exports para que outros arquivos possam continuar importando os tipos.
 
 export type { PDFDocument, PDFImage, Rotation };
+
+// Ferramentas disponíveis na barra de navegação do App.
+export type Tool = 'merge' | 'image' | 'compress' | 'split' | 'edit' | 'protect' | 'sanitize' | 'annotate' | 'recipes';
@@ -0,0 +1,20 @@
+import { defineConfig } from 'vite'
+
+// Empacota a CLI (cli/rd-pdf.ts) para Node, reaproveitando as operações de lib/.
+// As dependências (pdf-lib) ficam externas e são resolvidas de node_modules.
+export default defineConfig({
+  // Os arquivos de public/ (manifesto, ícones, privacy.html) são do app web, não da CLI.
+  publicDir: false,
+  build: {
+    ssr: 'cli/rd-pdf.ts',
+    outDir: 'dist-cli',
+    emptyOutDir: true,
+    target: 'node18',
+    rollupOptions: {
+      output: {
+        entryFileNames: 'rd-pdf.js',
+        banner: '#!/usr/bin/env node',
+      },
+    },
+  },
+})
@@ -0,0 +1,21 @@
+import type { ProgressOptions } from '../lib/pdfOperations';
+import { pdfTasks, PdfTaskName } from '../lib/pdfTasks';
+import { collectTransferables, RunTaskMessage, WorkerResponse } from './protocol';
+
+// Executa uma tarefa do pdf-lib fora da thread principal, reportando o progresso à página.
+
+const post = (message: WorkerResponse, transfer: ArrayBuffer[] = []) => self.postMessage(message, { transfer });
+
+self.onmessage = async (event: MessageEvent<RunTaskMessage>) => {
+    const { task, args } = event.data;
+    try {
+        const run = pdfTasks[task as PdfTaskName] as (args: unknown, options: ProgressOptions) => Promise<unknown>;
+        const result = await run(args, {
+            onProgress: progress => post({ type: 'progress', progress }),
+        });
+        post({ type: 'result', result }, collectTransferables(result));
+    } catch (e) {
+        const error = e instanceof Error ? e : new Error(String(e));
+        post({ type: 'error', message: error.message, name: error.name });
+    }
+};
@@ -0,0 +1,30 @@
+import type { OperationProgress } from '../lib/pdfOperations';
+import type { PdfTaskName } from '../lib/pdfTasks';
+
+// Mensagens trocadas entre a página (lib/pdfWorkerClient.ts) e o worker (workers/pdfTask.worker.ts).
+// O cancelamento é feito encerrando o worker, por isso não há mensagem de "cancel".
+
+export interface RunTaskMessage {
+    type: 'run';
+    task: PdfTaskName;
+    args: unknown;
+}
+
+export type WorkerResponse =
+    | { type: 'progress'; progress: OperationProgress }
+    | { type: 'result'; result: unknown }
+    | { type: 'error'; message: string; name: string };
+
+// Coleta os ArrayBuffers de um valor (em qualquer profundidade) para transferi-los sem cópia.
+export const collectTransferables = (value: unknown, found: Set<ArrayBuffer> = new Set()): ArrayBuffer[] => {
+    if (value instanceof ArrayBuffer) {
+        found.add(value);
+    } else if (ArrayBuffer.isView(value)) {
+        if (value.buffer instanceof ArrayBuffer) found.add(value.buffer);
+    } else if (Array.isArray(value)) {
+        value.forEach(item => collectTransferables(item, found));
+    } else if (value && typeof value === 'object') {
+        Object.values(value).forEach(item => collectTransferables(item, found));
+    }
+    return Array.from(found);
+};